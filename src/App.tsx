@@ -1,48 +1,67 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   Camera, LogOut, MessageSquare, Edit2, MapPin, User,
   Calendar, Home, History, UserPlus, ShieldPlus, Upload,
-  FileSpreadsheet, Printer, Trash2, Eye, EyeOff, Key, Lock, CheckCircle
+  FileSpreadsheet, Printer, Trash2, Eye, EyeOff, Key, Lock, CheckCircle,
+  QrCode, ScanLine, X, LockOpen, ShieldAlert, CalendarOff, WifiOff, Clock, Ban, RotateCcw, Plus
 } from 'lucide-react';
-import { supabase } from './supabaseClient'; 
+import { Routes, Route, Navigate, NavLink, Link, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Html5Qrcode } from 'html5-qrcode';
+import QRCode from 'qrcode';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import type {
+  AccountLock, AdminRole, AttemptStatus, AttendanceFilter, AttendanceRecord, AttendanceSession, AuthAttempt, Comment, EditHistory,
+  LeaveRequest, OfficeLocation, OrgCatalog, RealtimeStatus, ScheduleAssignment, ScheduleResult, Shift, TokenStatus, UnreadComments, UserT,
+  WorkSchedule
+} from './types';
+import {
+  DatabaseHelper, ATTENDANCE_PAGE_SIZE, PHOTO_MAX_SIZE, canComment, canManage, classifyCheckIn, classifyLocation, minutesBetween,
+  NetworkError, pickSchedule, timeToMinutes, unitScope, type UserImport
+} from './data';
 
 // -------------------- Types --------------------
-interface AttendanceRecord {
-  id: string;
+// Absen masuk yang belum terkirim, disimpan di IndexedDB sampai online
+interface QueuedAttendance {
+  clientId: string;
   userId: string;
   userName: string;
-  date: string;
-  time: string;
   position: string;
   photo: string;
   description: string;
   location: { lat: number; lng: number };
-  comments: Comment[];
-  editHistory: EditHistory[];
-}
-interface Comment {
-  id: string;
-  adminId: string;
-  adminName: string;
-  text: string;
-  timestamp: string;
-}
-interface EditHistory {
-  id: string;
-  editorId: string;
-  editorName: string;
-  action: string;
-  timestamp: string;
-}
-interface UserT {
-  nip: string;
-  name: string;
-  password: string;
-  role: 'member' | 'admin';
+  sessionId?: string;
+  capturedAt: string; // ISO
+  attempts: number;
+  lastError?: string;
+  rejected?: string; // alasan ditolak (geofence atau server), tidak dikirim ulang
 }
+type RecapStatus = 'present' | 'late' | 'leave' | 'absent' | 'off';
+
+const EMPTY_CATALOG: OrgCatalog = { departments: [], positions: [] };
+const NO_DEPARTMENT = 'Tanpa Unit';
+
+// Urutan laporan per unit kerja; data tanpa unit di akhir
+const byDepartment = (a?: string, b?: string) =>
+  (!a ? 1 : 0) - (!b ? 1 : 0) || (a ?? '').localeCompare(b ?? '');
 
 // -------------------- Helpers --------------------
 
+const ORG_NAME = import.meta.env.VITE_ORG_NAME || 'Sistem Absensi Online';
+
+// Antrean offline dicoba kirim ulang tiap QUEUE_RETRY_SECONDS dan setiap kali browser kembali online
+const QUEUE_RETRY_SECONDS = 30;
+
+// Sesi login berakhir jika tidak ada aktivitas selama IDLE_TIMEOUT_MINUTES (VITE_IDLE_TIMEOUT_MINUTES);
+// peringatan tampil IDLE_WARNING_SECONDS sebelum keluar otomatis
+const IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES) || 15;
+const IDLE_WARNING_SECONDS = 60;
+const IDLE_NOTICE = 'Sesi berakhir karena tidak ada aktivitas. Silakan login kembali.';
+
+// QR di layar admin diganti tiap QR_ROTATE_SECONDS; batas umur payload diperiksa di server (verify_attendance_qr)
+const QR_ROTATE_SECONDS = 10;
+
 // FUNGSI INI DITAMBAHKAN KEMBALI UNTUK MEMPERBAIKI ERROR TS2304
 const generatePassword = () => {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
@@ -51,125 +70,573 @@ const generatePassword = () => {
   return password;
 };
 
-// -------------------- Database Helper (SUPABASE VERSION) --------------------
-const DatabaseHelper = {
-  getUsers: async (): Promise<UserT[]> => {
-    const { data, error } = await supabase.from('users').select('*');
-    if (error) console.error("Error User:", error);
-    return (data as UserT[]) || [];
-  },
+// Aturan yang sama juga diperiksa di RPC change_password
+const passwordRules = (password: string, nip: string) => [
+  { label: 'Minimal 8 karakter', ok: password.length >= 8 },
+  { label: 'Mengandung huruf besar dan huruf kecil', ok: /[A-Z]/.test(password) && /[a-z]/.test(password) },
+  { label: 'Mengandung angka', ok: /[0-9]/.test(password) },
+  { label: 'Tidak sama dengan NIP', ok: password !== '' && password !== nip }
+];
+
+const calcWorkMinutes = (checkIn: string, checkOut: string) =>
+  (timeToMinutes(checkOut) - timeToMinutes(checkIn) + 24 * 60) % (24 * 60);
+
+const calcEarlyLeave = (checkOut: string, shiftEnd?: string) =>
+  shiftEnd ? Math.max(0, minutesBetween(timeToMinutes(checkOut), timeToMinutes(shiftEnd))) : undefined;
+
+const scheduleLabel = (result?: ScheduleResult) => {
+  if (!result) return 'Hadir';
+  if (result.status === 'late') return `Terlambat ${result.lateMinutes} mnt`;
+  if (result.status === 'outside') return 'Di Luar Jadwal';
+  return 'Tepat Waktu';
+};
 
-  addUser: async (user: UserT) => {
-    const { error } = await supabase.from('users').insert([user]);
-    if (error) throw new Error(error.message);
-  },
+// Status di laporan PDF/Excel; absen tidak sah dan input manual ditandai
+const reportStatus = (r: AttendanceRecord) =>
+  r.invalidReason ? `Tidak sah: ${r.invalidReason}` : scheduleLabel(r.schedule) + (r.manual ? ' (input manual)' : '');
 
-  deleteUser: async (nip: string) => {
-    const { error } = await supabase.from('users').delete().eq('nip', nip);
-    if (error) throw new Error(error.message);
-  },
+const SCHEDULE_BADGE: Record<ScheduleResult['status'] | 'none', string> = {
+  on_time: 'bg-green-100 text-green-700',
+  late: 'bg-yellow-100 text-yellow-700',
+  outside: 'bg-gray-200 text-gray-600',
+  none: 'bg-green-100 text-green-700'
+};
 
-  getAttendances: async (): Promise<AttendanceRecord[]> => {
-    const { data, error } = await supabase
-      .from('attendances')
-      .select('*')
-      .order('created_at', { ascending: false });
-      
-    if (error) {
-      console.error("Error Absen:", error);
-      return [];
-    }
+const LEAVE_TYPES: Record<LeaveRequest['type'], string> = { izin: 'Izin', sakit: 'Sakit', cuti: 'Cuti' };
 
-    return data.map((item: any) => ({
-      id: item.id,
-      userId: item.user_id,
-      userName: item.user_name,
-      date: item.date,
-      time: item.time,
-      position: item.position,
-      photo: item.photo_url || item.photo, 
-      description: item.description,
-      location: { lat: item.location_lat, lng: item.location_lng },
-      comments: item.comments || [],
-      editHistory: [] 
-    }));
-  },
+const LEAVE_STATUS: Record<LeaveRequest['status'], { label: string; className: string }> = {
+  pending: { label: 'Menunggu', className: 'bg-yellow-100 text-yellow-700' },
+  approved: { label: 'Disetujui', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Ditolak', className: 'bg-red-100 text-red-700' }
+};
 
-  addAttendance: async (record: AttendanceRecord) => {
-    const { error } = await supabase.from('attendances').insert([{
-      user_id: record.userId,
-      user_name: record.userName,
-      date: record.date,
-      time: record.time,
-      position: record.position,
-      photo: record.photo,
-      description: record.description,
-      location_lat: record.location.lat,
-      location_lng: record.location.lng,
-      comments: record.comments
-    }]);
-    if (error) throw new Error(error.message);
-  },
+// Hanya pengajuan yang disetujui yang menggantikan status alpa
+const approvedLeaveOn = (leaves: LeaveRequest[], nip: string, iso: string) =>
+  leaves.find(l => l.status === 'approved' && l.userId === nip && l.startDate <= iso && l.endDate >= iso);
+
+const leaveDays = (leave: LeaveRequest) =>
+  Math.round((Date.parse(leave.endDate) - Date.parse(leave.startDate)) / 86400000) + 1;
+
+// Izin yang disetujui dan beririsan dengan periode laporan, dipotong ke dalam periode tersebut
+const leavesInRange = (leaves: LeaveRequest[], from: string, to: string, nip = '') =>
+  leaves
+    .filter(l => l.status === 'approved' && l.startDate <= to && l.endDate >= from && (!nip || l.userId === nip))
+    .map(l => ({ ...l, startDate: l.startDate < from ? from : l.startDate, endDate: l.endDate > to ? to : l.endDate }));
+
+const formatDuration = (minutes?: number) =>
+  minutes === undefined ? '-' : `${Math.floor(minutes / 60)}j ${minutes % 60}m`;
+
+const attemptBlockedMessage = (status: Exclude<AttemptStatus, 'ok'>, waitSeconds: number) =>
+  status === 'locked'
+    ? `Terlalu banyak percobaan gagal. Dikunci sementara, coba lagi dalam ${Math.ceil(waitSeconds / 60)} menit.`
+    : `Tunggu ${waitSeconds} detik sebelum mencoba lagi.`;
+
+const sessionStatus = (session: AttendanceSession, now = new Date()) => {
+  if (session.closedAt) return 'closed';
+  if (now < new Date(session.startsAt)) return 'scheduled';
+  if (now > new Date(session.endsAt)) return 'expired';
+  return 'open';
+};
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+// Tanggal absensi disimpan dengan format id-ID ("19/10/2026"); diubah ke "2026-10-19" agar bisa dibandingkan
+const idDateToIso = (date: string) => {
+  const [d, m, y] = date.split('/');
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+// Bulan dari query ?month=yyyy-mm; nilai yang tidak valid diganti bulan ini
+const monthFromParams = (params: URLSearchParams) => {
+  const month = params.get('month') ?? '';
+  return /^\d{4}-\d{2}$/.test(month) ? month : idDateToIso(new Date().toLocaleDateString('id-ID')).slice(0, 7);
+};
+
+const isoToIdDate = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString('id-ID');
+};
+
+// <input type="time"> memakai "07:45", sedangkan jam absen disimpan "07.45.00"
+const toTimeInput = (time?: string) => time ? time.split(/[.:]/).slice(0, 2).join(':') : '';
+const fromTimeInput = (value: string, original?: string) =>
+  original && toTimeInput(original) === value ? original : `${value.replace(':', '.')}.00`;
+
+// Status jadwal, total jam dan pulang cepat untuk jam hasil koreksi/input manual.
+// Jam masuk yang tidak diubah tetap memakai status lama karena jadwal bisa sudah diganti sejak hari itu
+const recalcAttendance = async (nip: string, date: string, time: string, checkOutTime?: string, current?: AttendanceRecord) => {
+  const schedule = current?.time === time
+    ? current.schedule
+    : classifyCheckIn(time, new Date(`${idDateToIso(date)}T00:00:00`), await DatabaseHelper.getScheduleForUser(nip));
+  return {
+    schedule,
+    workMinutes: checkOutTime ? calcWorkMinutes(time, checkOutTime) : undefined,
+    earlyLeaveMinutes: checkOutTime ? calcEarlyLeave(checkOutTime, schedule?.shiftEnd) : undefined
+  };
+};
+
+const EDIT_FIELDS: Record<string, string> = {
+  time: 'Jam Masuk', check_out_time: 'Jam Pulang', position: 'Jabatan', description: 'Keterangan', status: 'Status'
+};
 
-  addComment: async (recordId: string, comments: Comment[]) => {
-    const { error } = await supabase
-      .from('attendances')
-      .update({ comments: comments })
-      .eq('id', recordId);
-    if (error) throw new Error(error.message);
+const EDIT_ACTIONS: Record<EditHistory['action'], string> = {
+  correct: 'Koreksi', invalidate: 'Dinyatakan tidak sah', restore: 'Dipulihkan', manual: 'Input manual'
+};
+
+// -------------------- Offline Queue (IndexedDB) --------------------
+const QUEUE_DB = 'absensi_offline';
+const QUEUE_STORE = 'attendances';
+
+const openQueueDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(QUEUE_DB, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(QUEUE_STORE, { keyPath: 'clientId' });
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const queueRequest = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openQueueDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const OfflineQueue = {
+  list: async (nip: string) => {
+    const items = await queueRequest<QueuedAttendance[]>('readonly', store => store.getAll());
+    return items.filter(i => i.userId === nip).sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
   },
+  put: (item: QueuedAttendance) => queueRequest('readwrite', store => store.put(item)),
+  remove: (clientId: string) => queueRequest('readwrite', store => store.delete(clientId))
+};
+
+// Geofence di sini hanya pemeriksaan awal untuk pesan ke user; submit_attendance menghitung ulang geofence,
+// tanggal, jam dan status jadwal di server dari lokasi & jam saat selfie diambil (captured_at).
+// Lokasi kantor yang gagal dimuat ikut melempar error, jadi absen masuk antrean dan dinilai ulang nanti
+const sendAttendance = async (capture: QueuedAttendance) => {
+  const check = classifyLocation(capture.location, await DatabaseHelper.getOfficeLocations());
+  if (check && !check.result.inside && check.policy === 'reject') {
+    return { rejected: `Absen ditolak: Anda berada ${check.result.distance} m dari ${check.result.siteName}, di luar radius yang diizinkan.`, check };
+  }
+  const captured = new Date(capture.capturedAt);
+  await DatabaseHelper.addAttendance({
+    id: '',
+    userId: capture.userId,
+    userName: capture.userName,
+    date: captured.toLocaleDateString('id-ID'),
+    time: captured.toLocaleTimeString('id-ID'),
+    position: capture.position, photo: capture.photo, description: capture.description,
+    location: capture.location,
+    sessionId: capture.sessionId,
+    clientId: capture.clientId,
+    capturedAt: capture.capturedAt,
+    editHistory: []
+  });
+  return { rejected: undefined, check };
+};
+
+// -------------------- Session (multi-tab) --------------------
+// Waktu aktivitas terakhir dibagi lewat localStorage, jadi tab yang sedang dipakai ikut menjaga sesi tab lain
+const ACTIVITY_KEY = 'absensi_last_activity';
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'click', 'touchstart', 'scroll'];
+
+const markActivity = () => localStorage.setItem(ACTIVITY_KEY, String(Date.now()));
+
+const idleSecondsLeft = () => {
+  const last = Number(localStorage.getItem(ACTIVITY_KEY)) || Date.now();
+  return Math.ceil((last + IDLE_TIMEOUT_MINUTES * 60000 - Date.now()) / 1000);
+};
+
+// Login/logout di satu tab diberitahukan ke tab lain; penerima memulihkan sesi dari storage
+const authChannel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel('absensi_auth');
+
+// -------------------- PDF Report --------------------
+
+// jsPDF hanya bisa menyisipkan data URL, jadi thumbnail dari storage diunduh dulu
+const loadImageData = async (url: string) => {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    const blob = await (await fetch(url)).blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return '';
+  }
+};
 
-  getDailyToken: async (): Promise<string> => {
-    const today = new Date().toLocaleDateString('id-ID');
-    const { data } = await supabase
-      .from('daily_token')
-      .select('code')
-      .eq('date', today)
-      .single();
-
-    if (data) {
-      return data.code;
-    } else {
-      const newCode = Math.floor(1000 + Math.random() * 9000).toString();
-      await supabase.from('daily_token').insert([{ date: today, code: newCode }]);
-      return newCode;
+// Isi kolom komentar di laporan, urut sesuai waktu kirim
+const commentText = (comments: Comment[], attendanceId: string) =>
+  comments.filter(c => c.attendanceId === attendanceId).map(c => `${c.authorName}: ${c.text}`).join('\n');
+
+const generatePdfReport = async (title: string, subtitle: string, records: AttendanceRecord[], admin: UserT, leaves: LeaveRequest[] = []) => {
+  const [photos, comments] = await Promise.all([
+    Promise.all(records.map(r => loadImageData(r.thumbnail ?? r.photo))),
+    DatabaseHelper.getComments(records.map(r => r.id))
+  ]);
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(ORG_NAME.toUpperCase(), pageWidth / 2, 15, { align: 'center' });
+  doc.setFontSize(12);
+  doc.text(title, pageWidth / 2, 22, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(subtitle, pageWidth / 2, 28, { align: 'center' });
+  doc.setLineWidth(0.5);
+  doc.line(14, 31, pageWidth - 14, 31);
+
+  autoTable(doc, {
+    startY: 35,
+    head: [['Foto', 'NIP', 'Nama', 'Unit', 'Tanggal', 'Masuk', 'Pulang', 'Status', 'Jabatan', 'Keterangan', 'Lokasi', 'Komentar']],
+    body: records.map(r => [
+      '', r.userId, r.userName, r.department ?? '-', r.date, r.time, r.checkOut?.time ?? '-',
+      reportStatus(r) + (r.checkOut?.earlyLeaveMinutes ? `\nPulang cepat ${r.checkOut.earlyLeaveMinutes} mnt` : ''),
+      r.position, r.description,
+      r.manual ? '-' : `${r.location.lat?.toFixed(5)}, ${r.location.lng?.toFixed(5)}`,
+      commentText(comments, r.id) || '-'
+    ]),
+    styles: { fontSize: 8, cellPadding: 1.5, valign: 'middle' },
+    headStyles: { fillColor: [37, 99, 235] },
+    columnStyles: { 0: { cellWidth: 18, minCellHeight: 18 }, 9: { cellWidth: 45 }, 11: { cellWidth: 40 } },
+    didDrawCell: (data) => {
+      if (data.section !== 'body' || data.column.index !== 0) return;
+      const photo = photos[data.row.index];
+      if (photo.startsWith('data:image')) doc.addImage(photo, 'JPEG', data.cell.x + 1, data.cell.y + 1, 16, 16, undefined, 'FAST');
+    },
+    didDrawPage: () => {
+      doc.setFontSize(8);
+      doc.text(`Halaman ${doc.getNumberOfPages()}`, pageWidth - 14, pageHeight - 8, { align: 'right' });
     }
+  });
+
+  if (leaves.length > 0) {
+    autoTable(doc, {
+      startY: (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8,
+      head: [['NIP', 'Nama', 'Jenis', 'Tanggal', 'Jumlah Hari', 'Alasan', 'Disetujui Oleh']],
+      body: leaves.map(l => [
+        l.userId, l.userName, LEAVE_TYPES[l.type],
+        l.startDate === l.endDate ? isoToIdDate(l.startDate) : `${isoToIdDate(l.startDate)} - ${isoToIdDate(l.endDate)}`,
+        leaveDays(l), l.reason, l.reviewedBy ?? '-'
+      ]),
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: [22, 163, 74] },
+      columnStyles: { 5: { cellWidth: 80 } }
+    });
+  }
+
+  let y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 12;
+  if (y + 40 > pageHeight) {
+    doc.addPage();
+    y = 20;
+  }
+  const x = pageWidth - 80;
+  doc.setFontSize(10);
+  doc.text(new Date().toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' }), x, y);
+  doc.text('Mengetahui,', x, y + 6);
+  doc.setFont('helvetica', 'bold');
+  doc.text(admin.name, x, y + 30);
+  doc.line(x, y + 31, x + 60, y + 31);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`NIP. ${admin.nip}`, x, y + 36);
+  doc.text(`Jumlah data: ${records.length}`, 14, y);
+  if (leaves.length > 0) doc.text(`Izin / sakit / cuti: ${leaves.length}`, 14, y + 6);
+
+  doc.save(`${title.replace(/[^\w-]+/g, '_')}_${subtitle.replace(/[^\w-]+/g, '_')}.pdf`);
+};
+
+// -------------------- XLSX Export --------------------
+
+// Sel bertipe angka dengan format tanggal/jam agar Excel tidak salah membaca format id-ID
+const excelDateCell = (date: string) => {
+  const [d, m, y] = date.split('/').map(Number);
+  return { t: 'n', v: Date.UTC(y, m - 1, d) / 86400000 + 25569, z: 'dd/mm/yyyy' };
+};
+
+const excelTimeCell = (time?: string) => {
+  if (!time) return { t: 's', v: '' };
+  const [h, m, sec = 0] = time.split(/[.:]/).map(Number);
+  return { t: 'n', v: (h * 3600 + m * 60 + sec) / 86400, z: 'hh:mm:ss' };
+};
+
+const excelDurationCell = (minutes?: number) =>
+  minutes === undefined ? { t: 's', v: '' } : { t: 'n', v: minutes / 1440, z: '[h]:mm' };
+
+const generateXlsxReport = async (fileName: string, records: AttendanceRecord[], leaves: LeaveRequest[] = []) => {
+  const comments = await DatabaseHelper.getComments(records.map(r => r.id));
+  const wb = XLSX.utils.book_new();
+
+  const raw = XLSX.utils.aoa_to_sheet([
+    ['NIP', 'Nama', 'Unit', 'Tanggal', 'Jam Masuk', 'Jam Pulang', 'Total Jam', 'Status', 'Shift', 'Terlambat (menit)', 'Pulang Cepat (menit)', 'Jabatan', 'Keterangan', 'Latitude', 'Longitude', 'Komentar'],
+    ...records.map(r => [
+      r.userId, r.userName, r.department ?? '', excelDateCell(r.date), excelTimeCell(r.time), excelTimeCell(r.checkOut?.time),
+      excelDurationCell(r.workMinutes), reportStatus(r), r.schedule?.shiftName ?? '',
+      r.schedule?.lateMinutes ?? 0, r.checkOut?.earlyLeaveMinutes ?? 0,
+      r.position, r.description, r.manual ? '' : r.location.lat, r.manual ? '' : r.location.lng,
+      commentText(comments, r.id)
+    ])
+  ]);
+  raw['!cols'] = [{ wch: 12 }, { wch: 24 }, { wch: 18 }, { wch: 12 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 18 }, { wch: 12 }, { wch: 16 }, { wch: 18 }, { wch: 18 }, { wch: 40 }, { wch: 12 }, { wch: 12 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(wb, raw, 'Data Absensi');
+
+  const byUser = new Map<string, AttendanceRecord[]>();
+  records.forEach(r => byUser.set(r.userId, [...(byUser.get(r.userId) || []), r]));
+  // Absen yang dinyatakan tidak sah tetap tampil di sheet data, tapi tidak dihitung di rekap
+  const validRows = (nip: string) => (byUser.get(nip) || []).filter(r => !r.invalidReason);
+
+  // Pegawai yang hanya izin tetap muncul di rekap; unit diambil dari absen terakhir pegawai di periode ini
+  const names = new Map([...leaves.map(l => [l.userId, l.userName] as const), ...records.map(r => [r.userId, r.userName] as const)]);
+  const unitOf = (nip: string) => byUser.get(nip)?.at(-1)?.department;
+  const recapUsers = Array.from(names.entries()).sort(([a], [b]) => byDepartment(unitOf(a), unitOf(b)));
+
+  const recap = XLSX.utils.aoa_to_sheet([
+    ['NIP', 'Nama', 'Unit', 'Hari Hadir', 'Hari Izin', 'Terlambat', 'Total Menit Terlambat', 'Pulang Cepat', 'Total Jam Kerja'],
+    ...recapUsers.map(([nip, name]) => {
+      const rows = validRows(nip);
+      return [
+        nip, name, unitOf(nip) ?? '',
+        new Set(rows.map(r => r.date)).size,
+        leaves.filter(l => l.userId === nip).reduce((sum, l) => sum + leaveDays(l), 0),
+        rows.filter(r => r.schedule?.status === 'late').length,
+        rows.reduce((sum, r) => sum + (r.schedule?.lateMinutes ?? 0), 0),
+        rows.filter(r => (r.checkOut?.earlyLeaveMinutes ?? 0) > 0).length,
+        excelDurationCell(rows.reduce((sum, r) => sum + (r.workMinutes ?? 0), 0))
+      ];
+    })
+  ]);
+  recap['!cols'] = [{ wch: 12 }, { wch: 24 }, { wch: 18 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 20 }, { wch: 14 }, { wch: 16 }];
+  XLSX.utils.book_append_sheet(wb, recap, 'Rekap');
+
+  const units = [...new Set(records.map(r => r.department))].sort(byDepartment);
+  const unitSheet = XLSX.utils.aoa_to_sheet([
+    ['Unit', 'Jumlah Pegawai', 'Jumlah Absen', 'Terlambat', 'Pulang Cepat', 'Total Jam Kerja'],
+    ...units.map(unit => {
+      const rows = records.filter(r => r.department === unit && !r.invalidReason);
+      return [
+        unit ?? NO_DEPARTMENT,
+        new Set(rows.map(r => r.userId)).size,
+        rows.length,
+        rows.filter(r => r.schedule?.status === 'late').length,
+        rows.filter(r => (r.checkOut?.earlyLeaveMinutes ?? 0) > 0).length,
+        excelDurationCell(rows.reduce((sum, r) => sum + (r.workMinutes ?? 0), 0))
+      ];
+    })
+  ]);
+  unitSheet['!cols'] = [{ wch: 24 }, { wch: 16 }, { wch: 14 }, { wch: 12 }, { wch: 14 }, { wch: 16 }];
+  XLSX.utils.book_append_sheet(wb, unitSheet, 'Rekap Unit');
+
+  if (leaves.length > 0) {
+    const leaveSheet = XLSX.utils.aoa_to_sheet([
+      ['NIP', 'Nama', 'Jenis', 'Dari', 'Sampai', 'Jumlah Hari', 'Alasan', 'Disetujui Oleh'],
+      ...leaves.map(l => [
+        l.userId, l.userName, LEAVE_TYPES[l.type], excelDateCell(isoToIdDate(l.startDate)), excelDateCell(isoToIdDate(l.endDate)),
+        leaveDays(l), l.reason, l.reviewedBy ?? ''
+      ])
+    ]);
+    leaveSheet['!cols'] = [{ wch: 12 }, { wch: 24 }, { wch: 8 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 40 }, { wch: 20 }];
+    XLSX.utils.book_append_sheet(wb, leaveSheet, 'Izin');
   }
+
+  // Satu sheet per pegawai; nama sheet Excel maks. 31 karakter dan harus unik
+  byUser.forEach((rows, nip) => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Tanggal', 'Jam Masuk', 'Jam Pulang', 'Total Jam', 'Status', 'Terlambat (menit)', 'Pulang Cepat (menit)', 'Jabatan', 'Keterangan'],
+      ...rows.map(r => [
+        excelDateCell(r.date), excelTimeCell(r.time), excelTimeCell(r.checkOut?.time), excelDurationCell(r.workMinutes),
+        reportStatus(r), r.schedule?.lateMinutes ?? 0, r.checkOut?.earlyLeaveMinutes ?? 0, r.position, r.description
+      ])
+    ]);
+    sheet['!cols'] = [{ wch: 12 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 18 }, { wch: 16 }, { wch: 18 }, { wch: 18 }, { wch: 40 }];
+    XLSX.utils.book_append_sheet(wb, sheet, `${nip} ${rows[0].userName}`.replace(/[\\/?*[\]:]/g, '').slice(0, 31));
+  });
+
+  XLSX.writeFile(wb, `${fileName}.xlsx`);
 };
 
 // -------------------- Main App Component --------------------
 const AttendanceSystem: React.FC = () => {
-  const [currentPage, setCurrentPage] = useState<'landing' | 'member' | 'admin'>('landing');
+  const navigate = useNavigate();
   const [currentUser, setCurrentUser] = useState<UserT | null>(null);
-  const [attendances, setAttendances] = useState<AttendanceRecord[]>([]);
   const [users, setUsers] = useState<UserT[]>([]);
+  const [leaves, setLeaves] = useState<LeaveRequest[]>([]);
+  const [catalog, setCatalog] = useState<OrgCatalog>(EMPTY_CATALOG);
+  const [queue, setQueue] = useState<QueuedAttendance[]>([]);
   const [loading, setLoading] = useState(false);
-
-  const fetchData = async () => {
+  const [restoring, setRestoring] = useState(true);
+  const [idleWarning, setIdleWarning] = useState<number | null>(null);
+  const [notice, setNotice] = useState('');
+  // Data absensi diambil sendiri oleh tiap tampilan; refreshKey memicu tampilan tersebut memuat ulang
+  const [refreshKey, setRefreshKey] = useState(0);
+  const syncing = useRef(false);
+
+  const fetchData = useCallback(async () => {
     setLoading(true);
     try {
-      const usersData = await DatabaseHelper.getUsers();
-      const absenData = await DatabaseHelper.getAttendances();
+      const isAdmin = currentUser?.role === 'admin';
+      const [usersData, leaveData, catalogData] = await Promise.all([
+        isAdmin ? DatabaseHelper.getUsers() : Promise.resolve([]),
+        DatabaseHelper.getLeaveRequests(isAdmin ? undefined : currentUser?.nip),
+        isAdmin ? DatabaseHelper.getCatalog() : Promise.resolve(EMPTY_CATALOG)
+      ]);
       setUsers(usersData);
-      setAttendances(absenData);
+      setLeaves(leaveData);
+      setCatalog(catalogData);
+      setRefreshKey(k => k + 1);
     } catch (e) {
       console.error(e);
       alert('Gagal mengambil data dari server.');
     } finally {
       setLoading(false);
     }
-  };
+  }, [currentUser]);
 
+  // Sesi yang tersimpan dipulihkan saat halaman dibuka atau dimuat ulang
   useEffect(() => {
-    fetchData();
+    DatabaseHelper.restoreSession()
+      .then(async (user) => {
+        // Perangkat yang ditinggal lebih lama dari batas idle dianggap sudah keluar
+        if (user && idleSecondsLeft() <= 0) {
+          await DatabaseHelper.logout();
+          setNotice(IDLE_NOTICE);
+          return;
+        }
+        setCurrentUser(user);
+      })
+      .catch((e) => console.error("Error Sesi:", e))
+      .finally(() => setRestoring(false));
   }, []);
 
-  const handleLogout = () => {
-    sessionStorage.removeItem('token_ok');
+  // Data baru diambil setelah login, jadi halaman yang belum login tidak memuat data apa pun
+  useEffect(() => {
+    if (currentUser && !currentUser.mustChangePassword) fetchData();
+  }, [currentUser, fetchData]);
+
+  // Kirim ulang antrean offline satu per satu; berhenti di gagal jaringan pertama agar urutan tetap terjaga.
+  // Absen yang ditolak server ditandai dan dilewati, tidak dikirim ulang
+  const syncQueue = useCallback(async () => {
+    if (!currentUser || syncing.current) return;
+    syncing.current = true;
+    let sent = 0;
+    try {
+      for (const item of await OfflineQueue.list(currentUser.nip)) {
+        if (item.rejected) continue;
+        if (!navigator.onLine) break;
+        try {
+          const { rejected } = await sendAttendance(item);
+          if (rejected) await OfflineQueue.put({ ...item, rejected });
+          else {
+            await OfflineQueue.remove(item.clientId);
+            sent++;
+          }
+        } catch (e) {
+          const failed = { ...item, attempts: item.attempts + 1, lastError: (e as Error).message };
+          if (!(e instanceof NetworkError)) {
+            await OfflineQueue.put({ ...failed, rejected: `Ditolak server: ${failed.lastError}` });
+            continue;
+          }
+          await OfflineQueue.put(failed);
+          break;
+        }
+      }
+      setQueue(await OfflineQueue.list(currentUser.nip));
+    } catch (e) {
+      console.error("Error Antrean Offline:", e);
+    } finally {
+      syncing.current = false;
+    }
+    if (sent > 0) fetchData();
+  }, [currentUser, fetchData]);
+
+  useEffect(() => {
+    if (!currentUser || currentUser.mustChangePassword) return;
+    syncQueue();
+    window.addEventListener('online', syncQueue);
+    const timer = setInterval(syncQueue, QUEUE_RETRY_SECONDS * 1000);
+    return () => {
+      window.removeEventListener('online', syncQueue);
+      clearInterval(timer);
+    };
+  }, [currentUser, syncQueue]);
+
+  const clearSession = useCallback((message: string) => {
+    setUsers([]);
+    setLeaves([]);
+    setQueue([]);
     setCurrentUser(null);
-    setCurrentPage('landing');
+    setIdleWarning(null);
+    setNotice(message);
+    navigate('/');
+  }, [navigate]);
+
+  const endSession = useCallback(async (message: string) => {
+    try {
+      await DatabaseHelper.logout();
+    } catch (e) {
+      console.error("Error Logout:", e);
+    }
+    authChannel?.postMessage('logout');
+    clearSession(message);
+  }, [clearSession]);
+
+  const handleLogout = () => endSession('');
+
+  const handleLogin = (user: UserT) => {
+    markActivity();
+    setNotice('');
+    setCurrentUser(user);
+    authChannel?.postMessage('login');
   };
 
+  // Tab lain login/logout: sesi di tab ini disamakan dengan yang tersimpan
+  useEffect(() => {
+    if (!authChannel) return;
+    const onMessage = () => {
+      DatabaseHelper.restoreSession().then(user => {
+        if (user) setCurrentUser(user);
+        else if (currentUser) clearSession('Anda sudah keluar dari tab lain.');
+      });
+    };
+    authChannel.addEventListener('message', onMessage);
+    return () => authChannel.removeEventListener('message', onMessage);
+  }, [currentUser, clearSession]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let lastMark = 0;
+    // dibatasi tiap 5 detik supaya mousemove tidak terus-menerus menulis ke localStorage
+    const onActivity = () => {
+      if (Date.now() - lastMark < 5000) return;
+      lastMark = Date.now();
+      markActivity();
+    };
+    onActivity();
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }));
+    const timer = setInterval(() => {
+      const left = idleSecondsLeft();
+      if (left <= 0) {
+        clearInterval(timer);
+        endSession(IDLE_NOTICE);
+      } else setIdleWarning(left <= IDLE_WARNING_SECONDS ? left : null);
+    }, 1000);
+    return () => {
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity));
+      clearInterval(timer);
+    };
+  }, [currentUser, endSession]);
+
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-800">
       {loading && (
@@ -181,49 +648,105 @@ const AttendanceSystem: React.FC = () => {
         </div>
       )}
 
-      {currentPage === 'landing' && <LandingPage onSelectRole={(role) => setCurrentPage(role)} />}
-
-      {currentPage === 'member' && !currentUser && (
-        <LoginPage 
-           role="member" 
-           users={users} 
-           onLogin={(user) => setCurrentUser(user)} 
-           onBack={() => setCurrentPage('landing')} 
-        />
-      )}
-
-      {currentPage === 'member' && currentUser && (
-        <MemberDashboard
-          user={currentUser}
-          attendances={attendances}
-          onLogout={handleLogout}
-          onRefresh={fetchData}
-        />
+      {idleWarning !== null && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-sm text-center animate-fade-in">
+            <div className="bg-orange-100 w-14 h-14 rounded-full flex items-center justify-center mx-auto mb-4"><Clock size={28} className="text-orange-600"/></div>
+            <h3 className="text-lg font-bold text-gray-800 mb-1">Sesi Akan Berakhir</h3>
+            <p className="text-gray-500 text-sm mb-6">Tidak ada aktivitas. Anda akan keluar otomatis dalam {idleWarning} detik.</p>
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={handleLogout} className="py-2 rounded-lg font-bold bg-gray-100 text-gray-600 hover:bg-gray-200">Keluar</button>
+              <button onClick={() => { markActivity(); setIdleWarning(null); }} className="py-2 rounded-lg font-bold bg-blue-600 text-white hover:bg-blue-700">Tetap Masuk</button>
+            </div>
+          </div>
+        </div>
       )}
 
-      {currentPage === 'admin' && !currentUser && (
-        <LoginPage 
-           role="admin" 
-           users={users} 
-           onLogin={(user) => setCurrentUser(user)} 
-           onBack={() => setCurrentPage('landing')} 
-        />
+      {notice && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-md bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm p-3 rounded-lg shadow flex items-center justify-between gap-3">
+          <span>{notice}</span>
+          <button onClick={() => setNotice('')} className="text-yellow-700 hover:text-yellow-900"><X size={16}/></button>
+        </div>
       )}
 
-      {/* ERROR TS2739 FIXED: Props onUpdate... dihapus karena sudah tidak dipakai */}
-      {currentPage === 'admin' && currentUser && (
-        <AdminDashboard
-          user={currentUser}
-          attendances={attendances}
-          users={users}
-          onLogout={handleLogout}
-          onRefresh={fetchData}
-        />
+      {restoring ? (
+        <div className="flex items-center justify-center min-h-screen text-gray-500">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mr-3"></div>
+          Memulihkan sesi...
+        </div>
+      ) : currentUser?.mustChangePassword ? (
+        <div className="flex items-center justify-center min-h-screen bg-gray-100 p-4">
+          <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-md animate-fade-in">
+            <ChangePasswordForm
+              user={currentUser}
+              forced
+              onBack={handleLogout}
+              onSuccess={() => {
+                setCurrentUser({ ...currentUser, mustChangePassword: false });
+                authChannel?.postMessage('login');
+              }}
+            />
+          </div>
+        </div>
+      ) : (
+        <Routes>
+          <Route path="/" element={currentUser ? <Navigate to={`/${currentUser.role}`} replace /> : <LandingPage onSelectRole={(role) => navigate(`/login/${role}`)} />} />
+          <Route path="/login/member" element={<LoginRoute role="member" user={currentUser} onLogin={handleLogin} />} />
+          <Route path="/login/admin" element={<LoginRoute role="admin" user={currentUser} onLogin={handleLogin} />} />
+          <Route path="/member/*" element={
+            <RequireRole role="member" user={currentUser}>
+              {(user) => (
+                <MemberDashboard
+                  user={user}
+                  leaves={leaves}
+                  queue={queue}
+                  refreshKey={refreshKey}
+                  onLogout={handleLogout}
+                  onRefresh={fetchData}
+                  onSyncQueue={syncQueue}
+                />
+              )}
+            </RequireRole>
+          } />
+          <Route path="/admin/*" element={
+            <RequireRole role="admin" user={currentUser}>
+              {(user) => (
+                <AdminDashboard
+                  user={user}
+                  users={users}
+                  leaves={leaves}
+                  catalog={catalog}
+                  refreshKey={refreshKey}
+                  onLogout={handleLogout}
+                  onRefresh={fetchData}
+                />
+              )}
+            </RequireRole>
+          } />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
       )}
     </div>
   );
 };
 
+// -------------------- Route Guards --------------------
+// Halaman yang butuh login diarahkan ke login dulu; alamat asal dibawa supaya bisa kembali setelah login
+const RequireRole: React.FC<{ role: UserT['role']; user: UserT | null; children: (user: UserT) => React.ReactNode }> = ({ role, user, children }) => {
+  const location = useLocation();
+  if (!user) return <Navigate to={`/login/${role}`} state={{ from: location.pathname + location.search }} replace />;
+  if (user.role !== role) return <Navigate to={`/${user.role}`} replace />;
+  return <>{children(user)}</>;
+};
+
+const LoginRoute: React.FC<{ role: UserT['role']; user: UserT | null; onLogin: (user: UserT) => void }> = ({ role, user, onLogin }) => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const from = (location.state as { from?: string } | null)?.from;
+  if (user) return <Navigate to={from?.startsWith(`/${user.role}`) ? from : `/${user.role}`} replace />;
+  return <LoginPage role={role} onLogin={onLogin} onBack={() => navigate('/')} />;
+};
+
 // -------------------- Sub-Components --------------------
 
 const LandingPage: React.FC<{ onSelectRole: (role: 'member' | 'admin') => void }> = ({ onSelectRole }) => {
@@ -254,20 +777,33 @@ const LandingPage: React.FC<{ onSelectRole: (role: 'member' | 'admin') => void }
   );
 };
 
-const LoginPage: React.FC<{ role: 'member' | 'admin'; users: UserT[]; onLogin: (user: UserT) => void; onBack: () => void; }> = ({ role, users, onLogin, onBack }) => {
+const LoginPage: React.FC<{ role: 'member' | 'admin'; onLogin: (user: UserT) => void; onBack: () => void; }> = ({ role, onLogin, onBack }) => {
   const [nip, setNip] = useState('');
   const [password, setPassword] = useState('');
   const [showPass, setShowPass] = useState(false);
   const [error, setError] = useState('');
 
-  const handleLogin = (e: React.FormEvent) => {
+  const [loading, setLoading] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    const user = users.find((u) => u.nip === nip && u.password === password && u.role === role);
-    if (user) {
-      if (role === 'member') sessionStorage.removeItem('token_ok');
-      onLogin(user);
-    } else {
-      setError('NIP atau Password salah (atau data belum termuat).');
+    setLoading(true);
+    setError('');
+    try {
+      const { status, waitSeconds, user } = await DatabaseHelper.login(nip, password, role);
+      if (status === 'ok' && user) {
+        onLogin(user);
+      } else if (status === 'delay' || status === 'locked') {
+        setError(attemptBlockedMessage(status, waitSeconds));
+      } else if (status === 'inactive') {
+        setError('Akun ini sudah dinonaktifkan. Hubungi admin.');
+      } else {
+        setError('NIP atau Password salah.');
+      }
+    } catch {
+      setError('Gagal login. Cek koneksi internet.');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -286,7 +822,7 @@ const LoginPage: React.FC<{ role: 'member' | 'admin'; users: UserT[]; onLogin: (
             <button type="button" onClick={()=>setShowPass(!showPass)} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">{showPass ? <EyeOff size={20}/> : <Eye size={20}/>}</button>
           </div>
           {error && <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg">{error}</div>}
-          <button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-lg font-bold">Masuk</button>
+          <button type="submit" disabled={loading} className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-lg font-bold disabled:bg-gray-400">{loading ? 'Memeriksa...' : 'Masuk'}</button>
         </form>
         <div className="mt-6 text-xs text-center text-gray-400 bg-gray-50 p-3 rounded">
            *Pastikan Database Supabase sudah disetup*
@@ -298,17 +834,39 @@ const LoginPage: React.FC<{ role: 'member' | 'admin'; users: UserT[]; onLogin: (
 
 const MemberDashboard: React.FC<{
   user: UserT;
-  attendances: AttendanceRecord[];
+  leaves: LeaveRequest[];
+  queue: QueuedAttendance[];
+  refreshKey: number;
   onLogout: () => void;
   onRefresh: () => void;
-}> = ({ user, attendances, onLogout, onRefresh }) => {
-  const [view, setView] = useState<'menu' | 'input_token' | 'attend' | 'history'>('menu');
+  onSyncQueue: () => void;
+}> = ({ user, leaves, queue, refreshKey, onLogout, onRefresh, onSyncQueue }) => {
+  const navigate = useNavigate();
+  // undefined selama masih dimuat, null jika belum ada absen masuk yang terbuka
+  const [openRecord, setOpenRecord] = useState<AttendanceRecord | null>();
+  const [unread, setUnread] = useState<UnreadComments[]>([]);
+  const unreadTotal = unread.reduce((sum, u) => sum + u.count, 0);
+
+  const loadUnread = useCallback(() => {
+    DatabaseHelper.getUnreadComments().then(setUnread);
+  }, []);
 
-  const handleTokenSuccess = () => {
-    sessionStorage.setItem('token_ok', '1');
-    setView('attend');
-  };
+  const backToHome = useCallback(() => navigate('/member'), [navigate]);
+
+  useEffect(() => {
+    loadUnread();
+  }, [loadUnread, refreshKey]);
 
+  // Absen hari ini menentukan bisa absen pulang atau tidak; absen kemarin ikut dicari jika shiftnya
+  // melewati tengah malam, supaya shift malam tetap bisa absen pulang pagi ini
+  useEffect(() => {
+    const today = new Date();
+    const todayIso = idDateToIso(today.toLocaleDateString('id-ID'));
+    const yesterdayIso = idDateToIso(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1).toLocaleDateString('id-ID'));
+    const crossesMidnight = (r: AttendanceRecord) => !!r.schedule?.shiftEnd && timeToMinutes(r.schedule.shiftEnd) < timeToMinutes(r.time);
+    DatabaseHelper.getAttendances({ userId: user.nip, from: yesterdayIso, to: todayIso })
+      .then(rows => setOpenRecord(rows.find(r => !r.checkOut && (idDateToIso(r.date) === todayIso || crossesMidnight(r))) ?? null));
+  }, [user.nip, refreshKey]);
   return (
     <div className="max-w-md mx-auto min-h-screen bg-white shadow-2xl overflow-hidden sm:rounded-xl sm:my-8 sm:min-h-[80vh]">
       <div className="bg-blue-600 p-6 text-white flex justify-between items-center">
@@ -317,43 +875,185 @@ const MemberDashboard: React.FC<{
       </div>
 
       <div className="p-6">
-        {view === 'menu' && (
-          <div className="grid grid-cols-1 gap-4 animate-fade-in">
-            <button onClick={() => setView('input_token')} className="bg-blue-50 border border-blue-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-blue-100 transition-colors">
-              <div className="bg-blue-600 p-3 rounded-full text-white"><Key size={24}/></div>
-              <div className="text-left"><h3 className="font-bold text-gray-800 text-lg">Absen Masuk</h3><p className="text-gray-500 text-sm">Masukkan Token Harian</p></div>
-            </button>
-            <button onClick={() => setView('history')} className="bg-gray-50 border border-gray-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-gray-100 transition-colors">
-              <div className="bg-gray-800 p-3 rounded-full text-white"><History size={24}/></div>
-              <div className="text-left"><h3 className="font-bold text-gray-800 text-lg">Riwayat</h3><p className="text-gray-500 text-sm">Lihat catatan kehadiran</p></div>
-            </button>
-          </div>
-        )}
+        <Routes>
+          <Route index element={
+            <div className="grid grid-cols-1 gap-4 animate-fade-in">
+              <button onClick={() => navigate('/member/token')} className="bg-blue-50 border border-blue-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-blue-100 transition-colors">
+                <div className="bg-blue-600 p-3 rounded-full text-white"><Key size={24}/></div>
+                <div className="text-left"><h3 className="font-bold text-gray-800 text-lg">Absen Masuk</h3><p className="text-gray-500 text-sm">Masukkan Token Sesi</p></div>
+              </button>
+              <button onClick={() => navigate('/member/checkout')} disabled={!openRecord} className="bg-orange-50 border border-orange-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-orange-100 transition-colors disabled:opacity-50 disabled:hover:bg-orange-50">
+                <div className="bg-orange-600 p-3 rounded-full text-white"><LogOut size={24}/></div>
+                <div className="text-left"><h3 className="font-bold text-gray-800 text-lg">Absen Pulang</h3><p className="text-gray-500 text-sm">{openRecord ? `Masuk ${openRecord.date} pukul ${openRecord.time}` : 'Belum ada absen masuk hari ini'}</p></div>
+              </button>
+              <button onClick={() => navigate('/member/history')} className="bg-gray-50 border border-gray-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-gray-100 transition-colors">
+                <div className="bg-gray-800 p-3 rounded-full text-white"><History size={24}/></div>
+                <div className="text-left flex-1"><h3 className="font-bold text-gray-800 text-lg">Riwayat</h3><p className="text-gray-500 text-sm">{queue.length > 0 ? `${queue.length} absen menunggu dikirim` : 'Lihat catatan kehadiran'}</p></div>
+                {unreadTotal > 0 && <span className="bg-red-600 text-white text-xs font-bold px-2 py-1 rounded-full flex items-center gap-1"><MessageSquare size={12}/> {unreadTotal}</span>}
+              </button>
+              <button onClick={() => navigate('/member/leave')} className="bg-green-50 border border-green-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-green-100 transition-colors">
+                <div className="bg-green-600 p-3 rounded-full text-white"><CalendarOff size={24}/></div>
+                <div className="text-left"><h3 className="font-bold text-gray-800 text-lg">Pengajuan Izin</h3><p className="text-gray-500 text-sm">Izin, sakit atau cuti</p></div>
+              </button>
+              <button onClick={() => navigate('/member/password')} className="bg-gray-50 border border-gray-100 p-6 rounded-2xl flex items-center gap-4 hover:bg-gray-100 transition-colors">
+                <div className="bg-gray-500 p-3 rounded-full text-white"><Lock size={24}/></div>
+                <div className="text-left"><h3 className="font-bold text-gray-800 text-lg">Ganti Password</h3><p className="text-gray-500 text-sm">Perbarui password akun Anda</p></div>
+              </button>
+            </div>
+          } />
+
+          <Route path="token" element={<TokenEntryPage onBack={backToHome} onSuccess={() => navigate('/member/attend')} />} />
+
+          <Route path="attend" element={
+            <AttendanceForm
+              user={user}
+              onBack={backToHome}
+              onSuccess={() => {
+                onRefresh();
+                DatabaseHelper.clearTokenPass();
+                navigate('/member');
+              }}
+              onQueued={() => {
+                onSyncQueue();
+                DatabaseHelper.clearTokenPass();
+                navigate('/member/history');
+              }}
+            />
+          } />
+
+          <Route path="checkout" element={
+            openRecord === undefined ? null : openRecord ? (
+              <CheckOutForm
+                record={openRecord}
+                onBack={() => navigate('/member')}
+                onSuccess={() => {
+                  onRefresh();
+                  navigate('/member');
+                }}
+              />
+            ) : <Navigate to="/member" replace />
+          } />
+
+          <Route path="password" element={<ChangePasswordForm user={user} onBack={() => navigate('/member')} onSuccess={() => { alert('Password berhasil diganti.'); navigate('/member'); }} />} />
+
+          <Route path="history" element={<AttendanceHistory user={user} refreshKey={refreshKey} queue={queue} unread={unread} onRead={loadUnread} onSync={onSyncQueue} onBack={() => navigate('/member')} />} />
+
+          <Route path="leave" element={<LeaveRequestPage user={user} leaves={leaves} onBack={() => navigate('/member')} onSubmitted={onRefresh} />} />
+
+          <Route path="*" element={<Navigate to="/member" replace />} />
+        </Routes>
+      </div>
+    </div>
+  );
+};
 
-        {view === 'input_token' && <TokenEntryPage onBack={() => setView('menu')} onSuccess={handleTokenSuccess} />}
-        
-        {view === 'attend' && (
-          <AttendanceForm 
-            user={user} 
-            onBack={() => setView('menu')} 
-            onSuccess={() => {
-              onRefresh();
-              sessionStorage.removeItem('token_ok');
-              setView('menu');
-            }} 
-          />
-        )}
+const QrScanner: React.FC<{ onScan: (text: string) => void; onError: (message: string) => void }> = ({ onScan, onError }) => {
+  const onScanRef = useRef(onScan);
+  const onErrorRef = useRef(onError);
 
-        {view === 'history' && <AttendanceHistory userId={user.nip} attendances={attendances} onBack={() => setView('menu')} />}
-      </div>
+  useEffect(() => {
+    onScanRef.current = onScan;
+    onErrorRef.current = onError;
+  });
+
+  useEffect(() => {
+    const scanner = new Html5Qrcode('qr-reader');
+    const started = scanner.start({ facingMode: 'environment' }, { fps: 10, qrbox: 220 }, (text) => onScanRef.current(text), undefined);
+    started.catch(() => onErrorRef.current('Gagal akses kamera'));
+    return () => { started.then(() => scanner.stop()).catch(() => {}); };
+  }, []);
+
+  return <div id="qr-reader" className="w-full rounded-xl overflow-hidden bg-black min-h-[250px]" />;
+};
+
+const ChangePasswordForm: React.FC<{ user: UserT; forced?: boolean; onBack: () => void; onSuccess: () => void }> = ({ user, forced, onBack, onSuccess }) => {
+  const [oldPassword, setOldPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [showPass, setShowPass] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const rules = passwordRules(newPassword, user.nip);
+  const valid = rules.every(r => r.ok) && newPassword === confirm && oldPassword !== '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    setLoading(true);
+    setError('');
+    try {
+      const status = await DatabaseHelper.changePassword(oldPassword, newPassword);
+      if (status === 'ok') {
+        onSuccess();
+      } else {
+        setError(status === 'wrong_password' ? 'Password lama salah.' : 'Password baru belum memenuhi aturan.');
+      }
+    } catch {
+      setError('Gagal mengganti password. Cek koneksi internet.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <button onClick={onBack} className="mb-4 text-gray-500 flex items-center hover:text-blue-600 font-medium">{forced ? <><LogOut size={16} className="mr-2"/> Logout</> : <><Home size={16} className="mr-2"/> Kembali</>}</button>
+      <h3 className="font-bold text-xl mb-2 text-gray-800">Ganti Password</h3>
+      {forced && <p className="bg-yellow-50 text-yellow-800 text-sm p-3 rounded-lg mb-4">Anda login dengan password sementara. Silakan buat password baru untuk melanjutkan.</p>}
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input type={showPass ? 'text' : 'password'} value={oldPassword} onChange={e=>setOldPassword(e.target.value)} className="w-full px-4 py-3 rounded-lg border focus:ring-2 focus:ring-blue-500 outline-none" placeholder={forced ? 'Password Sementara' : 'Password Lama'} />
+        <div className="relative">
+          <input type={showPass ? 'text' : 'password'} value={newPassword} onChange={e=>setNewPassword(e.target.value)} className="w-full px-4 py-3 rounded-lg border focus:ring-2 focus:ring-blue-500 outline-none" placeholder="Password Baru" />
+          <button type="button" onClick={()=>setShowPass(!showPass)} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400">{showPass ? <EyeOff size={20}/> : <Eye size={20}/>}</button>
+        </div>
+        <input type={showPass ? 'text' : 'password'} value={confirm} onChange={e=>setConfirm(e.target.value)} className="w-full px-4 py-3 rounded-lg border focus:ring-2 focus:ring-blue-500 outline-none" placeholder="Ulangi Password Baru" />
+        <ul className="text-sm space-y-1">
+          {rules.map(r => <li key={r.label} className={`flex items-center ${r.ok ? 'text-green-600' : 'text-gray-400'}`}><CheckCircle size={14} className="mr-2"/> {r.label}</li>)}
+          <li className={`flex items-center ${confirm && newPassword === confirm ? 'text-green-600' : 'text-gray-400'}`}><CheckCircle size={14} className="mr-2"/> Konfirmasi password sama</li>
+        </ul>
+        {error && <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg">{error}</div>}
+        <button type="submit" disabled={!valid || loading} className="w-full bg-blue-600 hover:bg-blue-700 text-white py-3 rounded-lg font-bold disabled:bg-gray-300">{loading ? 'Menyimpan...' : 'Simpan Password'}</button>
+      </form>
     </div>
   );
 };
 
+const TOKEN_ERRORS: Record<Exclude<TokenStatus, AttemptStatus>, string> = {
+  invalid: 'Token salah! Minta token sesi ini ke Admin.',
+  not_open: 'Sesi absensi belum dibuka. Coba lagi saat jam sesi dimulai.',
+  expired: 'Token sudah kedaluwarsa, jam sesi absensi telah lewat.',
+  closed: 'Sesi absensi sudah ditutup oleh Admin.',
+  used: 'Anda sudah absen pada sesi ini.'
+};
+
 const TokenEntryPage: React.FC<{ onBack: () => void; onSuccess: () => void; }> = ({ onBack, onSuccess }) => {
+  const [mode, setMode] = useState<'code' | 'scan'>('code');
   const [input, setInput] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const scanBusy = useRef(false);
+
+  // Scanner memanggil callback berkali-kali per detik, jadi validasi dijaga agar tidak tumpang tindih
+  const handleScan = async (text: string) => {
+    if (scanBusy.current) return;
+    scanBusy.current = true;
+    setLoading(true);
+    try {
+      const status = await DatabaseHelper.verifyQrToken(text);
+      if (status === 'ok') {
+        onSuccess();
+        return;
+      }
+      setError(status === 'expired' ? 'QR sudah kedaluwarsa. Scan ulang QR di layar Admin.' : 'QR tidak valid!');
+    } catch {
+      setError('Gagal validasi QR. Cek koneksi internet.');
+    } finally {
+      setLoading(false);
+      // beri jeda sebelum scan berikutnya agar pesan error sempat terbaca
+      setTimeout(() => { scanBusy.current = false; }, 1500);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -361,14 +1061,16 @@ const TokenEntryPage: React.FC<{ onBack: () => void; onSuccess: () => void; }> =
     setError('');
     
     try {
-      const validToken = await DatabaseHelper.getDailyToken();
-      if (input === validToken) {
+      const { status, waitSeconds } = await DatabaseHelper.redeemToken(input);
+      if (status === 'ok') {
          onSuccess();
+      } else if (status === 'delay' || status === 'locked') {
+         setError(attemptBlockedMessage(status, waitSeconds));
       } else {
-         setError('Token salah! Minta token hari ini ke Admin.');
+         setError(TOKEN_ERRORS[status]);
          setInput('');
       }
-    } catch (err) {
+    } catch {
       setError('Gagal validasi token. Cek koneksi internet.');
     } finally {
       setLoading(false);
@@ -381,10 +1083,23 @@ const TokenEntryPage: React.FC<{ onBack: () => void; onSuccess: () => void; }> =
       <div className="text-center mb-8">
          <div className="bg-blue-100 w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-4"><Lock size={40} className="text-blue-600"/></div>
          <h2 className="text-2xl font-bold text-gray-800">Verifikasi Token</h2>
-         <p className="text-gray-500 mt-2">Masukkan 4 digit angka token hari ini.</p>
+         <p className="text-gray-500 mt-2">{mode === 'code' ? 'Masukkan 4 digit angka token sesi absensi.' : 'Arahkan kamera ke QR di layar Admin.'}</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-6">
+         <button onClick={() => { setMode('code'); setError(''); }} className={`py-2 rounded-lg font-bold flex items-center justify-center gap-2 ${mode === 'code' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'}`}><Key size={16}/> Kode</button>
+         <button onClick={() => { setMode('scan'); setError(''); }} className={`py-2 rounded-lg font-bold flex items-center justify-center gap-2 ${mode === 'scan' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600'}`}><ScanLine size={16}/> Scan QR</button>
       </div>
 
-      <form onSubmit={handleSubmit}>
+      {mode === 'scan' && (
+        <div>
+          <QrScanner onScan={handleScan} onError={setError} />
+          {loading && <p className="text-center text-gray-500 mt-4 font-medium">Memeriksa...</p>}
+          {error && <div className="bg-red-50 text-red-600 p-3 rounded-lg text-center mt-4 font-medium animate-pulse">{error}</div>}
+        </div>
+      )}
+
+      {mode === 'code' && <form onSubmit={handleSubmit}>
          <input 
             type="number" value={input}
             onChange={(e) => { if(e.target.value.length <= 4) setInput(e.target.value); setError(''); }}
@@ -395,23 +1110,15 @@ const TokenEntryPage: React.FC<{ onBack: () => void; onSuccess: () => void; }> =
          <button type="submit" disabled={input.length !== 4 || loading} className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-blue-700 disabled:bg-gray-300 transition-all shadow-lg">
             {loading ? 'Memeriksa...' : 'Validasi Token'}
          </button>
-      </form>
+      </form>}
     </div>
   );
 };
 
-const AttendanceForm: React.FC<{ user: UserT; onBack: () => void; onSuccess: () => void }> = ({ user, onBack, onSuccess }) => {
-  const [position, setPosition] = useState('');
-  const [desc, setDesc] = useState('');
-  const [photo, setPhoto] = useState('');
+const SelfieCapture: React.FC<{ photo: string; onChange: (photo: string) => void }> = ({ photo, onChange }) => {
   const [showCam, setShowCam] = useState(false);
-  const [loading, setLoading] = useState(false);
   const vidRef = useRef<HTMLVideoElement>(null);
 
-  useEffect(() => {
-    if(sessionStorage.getItem('token_ok') !== '1') { onBack(); }
-  }, []);
-
   const startCam = async () => {
     setShowCam(true);
     try {
@@ -422,37 +1129,100 @@ const AttendanceForm: React.FC<{ user: UserT; onBack: () => void; onSuccess: ()
 
   const takePic = () => {
     if(!vidRef.current) return;
+    // Diperkecil sejak diambil agar antrean offline dan unggahan tetap ringan
+    const { videoWidth: w, videoHeight: h } = vidRef.current;
+    const scale = Math.min(1, PHOTO_MAX_SIZE / Math.max(w, h));
     const cvs = document.createElement('canvas');
-    cvs.width = vidRef.current.videoWidth;
-    cvs.height = vidRef.current.videoHeight;
-    cvs.getContext('2d')?.drawImage(vidRef.current, 0, 0);
-    setPhoto(cvs.toDataURL('image/jpeg')); 
+    cvs.width = Math.round(w * scale);
+    cvs.height = Math.round(h * scale);
+    cvs.getContext('2d')?.drawImage(vidRef.current, 0, 0, cvs.width, cvs.height);
+    onChange(cvs.toDataURL('image/jpeg', 0.8));
     const stream = vidRef.current.srcObject as MediaStream;
     stream?.getTracks().forEach(t=>t.stop());
     setShowCam(false);
   };
 
+  return (
+    <div className="border-2 border-dashed border-gray-300 p-2 rounded-xl text-center min-h-[250px] flex flex-col justify-center items-center bg-gray-50 relative overflow-hidden">
+       {!photo && !showCam && (
+           <button onClick={startCam} className="text-blue-600 flex flex-col items-center hover:scale-105 transition-transform">
+               <div className="bg-blue-100 p-4 rounded-full mb-2"><Camera size={32}/></div><span className="font-bold">Buka Kamera Selfie</span>
+           </button>
+       )}
+       {showCam && (
+         <div className="absolute inset-0 bg-black flex flex-col">
+           <video ref={vidRef} autoPlay playsInline className="w-full h-full object-cover"/>
+           <div className="absolute bottom-4 left-0 right-0 flex justify-center gap-4">
+              <button onClick={takePic} className="bg-white text-black px-6 py-2 rounded-full font-bold shadow-lg">Jepret</button>
+              <button onClick={()=>{setShowCam(false); if(vidRef.current) (vidRef.current.srcObject as MediaStream)?.getTracks().forEach(t=>t.stop());}} className="bg-red-600 text-white px-6 py-2 rounded-full font-bold shadow-lg">Batal</button>
+           </div>
+         </div>
+       )}
+       {photo && (
+         <div className="relative w-full h-full">
+           <img src={photo} className="w-full h-full object-contain rounded-lg"/>
+           <button onClick={()=>onChange('')} className="absolute top-2 right-2 bg-red-600 text-white p-2 rounded-full shadow-lg hover:bg-red-700 transition-colors"><Trash2 size={18}/></button>
+         </div>
+       )}
+    </div>
+  );
+};
+
+const AttendanceForm: React.FC<{ user: UserT; onBack: () => void; onSuccess: () => void; onQueued: () => void }> = ({ user, onBack, onSuccess, onQueued }) => {
+  const [position, setPosition] = useState(user.position ?? '');
+  const [positions, setPositions] = useState<string[]>([]);
+  const [desc, setDesc] = useState('');
+  const [photo, setPhoto] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [pass, setPass] = useState<{ sessionId?: string } | null>(null);
+
+  // Form hanya terbuka jika token/QR sudah lolos; penandanya dicatat di server per sesi login
+  useEffect(() => {
+    DatabaseHelper.getTokenPass()
+      .then(p => p ? setPass(p) : onBack())
+      .catch(() => onBack());
+    DatabaseHelper.getCatalog().then(c => setPositions(c.positions));
+  }, [onBack]);
+
   const submit = async () => {
     if(!position || !desc || !photo) return alert('Mohon lengkapi data!');
     setLoading(true);
     
     navigator.geolocation.getCurrentPosition(
       async (pos) => {
+        const capture: QueuedAttendance = {
+          clientId: crypto.randomUUID(),
+          userId: user.nip,
+          userName: user.name,
+          position, photo, description: desc,
+          location: { lat: pos.coords.latitude, lng: pos.coords.longitude },
+          sessionId: pass?.sessionId,
+          capturedAt: new Date().toISOString(),
+          attempts: 0
+        };
         try {
-          await DatabaseHelper.addAttendance({
-            id: '',
-            userId: user.nip,
-            userName: user.name,
-            date: new Date().toLocaleDateString('id-ID'),
-            time: new Date().toLocaleTimeString('id-ID'),
-            position, photo, description: desc,
-            location: { lat: pos.coords.latitude, lng: pos.coords.longitude },
-            comments: [], editHistory: []
-          });
-          alert('Absensi Berhasil Terkirim!');
+          const { rejected, check } = await sendAttendance(capture);
+          if (rejected) {
+            alert(rejected);
+            return;
+          }
+          alert(check && !check.result.inside
+            ? `Absensi terkirim, namun ditandai di luar area ${check.result.siteName} (${check.result.distance} m).`
+            : 'Absensi Berhasil Terkirim!');
           onSuccess();
         } catch (e) {
-          alert('Gagal mengirim absensi. Cek koneksi.');
+          // Hanya gagal jaringan yang diantrekan; penolakan server (token, foto, geofence) langsung ditampilkan
+          if (!(e instanceof NetworkError)) {
+            alert(`Absensi ditolak: ${(e as Error).message}`);
+            return;
+          }
+          try {
+            await OfflineQueue.put({ ...capture, attempts: 1, lastError: e.message });
+            alert('Sinyal tidak tersedia. Absensi disimpan di perangkat dan akan dikirim otomatis saat kembali online.');
+            onQueued();
+          } catch {
+            alert('Gagal mengirim absensi. Cek koneksi.');
+          }
         } finally {
           setLoading(false);
         }
@@ -464,37 +1234,22 @@ const AttendanceForm: React.FC<{ user: UserT; onBack: () => void; onSuccess: ()
     );
   };
 
+  if (!pass) return <p className="text-center py-10 text-gray-400">Memeriksa token...</p>;
+
   return (
     <div className="animate-fade-in">
        <button onClick={onBack} className="text-gray-500 mb-4 flex items-center hover:text-red-600"><LogOut size={16} className="mr-2 rotate-180"/> Batal Absen</button>
        <h3 className="text-xl font-bold mb-6 text-gray-800 border-b pb-2">Form Kehadiran</h3>
        <div className="space-y-4">
           <div><label className="text-xs font-bold text-gray-500 uppercase">Waktu</label><input value={new Date().toLocaleString('id-ID')} disabled className="w-full p-3 bg-gray-100 rounded-xl border border-gray-200 text-gray-600 font-mono text-sm" /></div>
-          <div><label className="text-xs font-bold text-gray-500 uppercase">Jabatan</label><input value={position} onChange={e=>setPosition(e.target.value)} placeholder="Contoh: Staff IT" className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none" /></div>
+          {user.department && <div><label className="text-xs font-bold text-gray-500 uppercase">Unit Kerja</label><input value={user.department} disabled className="w-full p-3 bg-gray-100 rounded-xl border border-gray-200 text-gray-600 text-sm" /></div>}
+          {/* Jabatan dipilih dari katalog; ketik bebas hanya jika admin belum mengisi katalog */}
+          <div><label className="text-xs font-bold text-gray-500 uppercase">Jabatan</label>{positions.length > 0
+            ? <CatalogSelect options={positions} value={position} onChange={setPosition} empty="-- Pilih Jabatan --" className="w-full p-3 border border-gray-300 rounded-xl bg-white focus:ring-2 focus:ring-blue-500 outline-none"/>
+            : <input value={position} onChange={e=>setPosition(e.target.value)} placeholder="Contoh: Staff IT" className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none" />}</div>
           <div><label className="text-xs font-bold text-gray-500 uppercase">Keterangan</label><textarea value={desc} onChange={e=>setDesc(e.target.value)} placeholder="Kegiatan hari ini..." className="w-full p-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none" rows={3}/></div>
           
-          <div className="border-2 border-dashed border-gray-300 p-2 rounded-xl text-center min-h-[250px] flex flex-col justify-center items-center bg-gray-50 relative overflow-hidden">
-             {!photo && !showCam && (
-                 <button onClick={startCam} className="text-blue-600 flex flex-col items-center hover:scale-105 transition-transform">
-                     <div className="bg-blue-100 p-4 rounded-full mb-2"><Camera size={32}/></div><span className="font-bold">Buka Kamera Selfie</span>
-                 </button>
-             )}
-             {showCam && (
-               <div className="absolute inset-0 bg-black flex flex-col">
-                 <video ref={vidRef} autoPlay playsInline className="w-full h-full object-cover"/>
-                 <div className="absolute bottom-4 left-0 right-0 flex justify-center gap-4">
-                    <button onClick={takePic} className="bg-white text-black px-6 py-2 rounded-full font-bold shadow-lg">Jepret</button>
-                    <button onClick={()=>{setShowCam(false); if(vidRef.current) (vidRef.current.srcObject as MediaStream)?.getTracks().forEach(t=>t.stop());}} className="bg-red-600 text-white px-6 py-2 rounded-full font-bold shadow-lg">Batal</button>
-                 </div>
-               </div>
-             )}
-             {photo && (
-               <div className="relative w-full h-full">
-                 <img src={photo} className="w-full h-full object-contain rounded-lg"/>
-                 <button onClick={()=>setPhoto('')} className="absolute top-2 right-2 bg-red-600 text-white p-2 rounded-full shadow-lg hover:bg-red-700 transition-colors"><Trash2 size={18}/></button>
-               </div>
-             )}
-          </div>
+          <SelfieCapture photo={photo} onChange={setPhoto} />
           
           <button onClick={submit} disabled={loading} className="w-full bg-green-600 text-white py-4 rounded-xl font-bold hover:bg-green-700 shadow-lg transition-all transform active:scale-95 disabled:bg-gray-400">
              {loading ? 'Mengirim Data...' : 'Kirim Absen'}
@@ -504,300 +1259,1836 @@ const AttendanceForm: React.FC<{ user: UserT; onBack: () => void; onSuccess: ()
   );
 };
 
-const AttendanceHistory: React.FC<{ userId: string; attendances: AttendanceRecord[]; onBack: () => void }> = ({ userId, attendances, onBack }) => {
-  const myData = attendances.filter(a => a.userId === userId);
-  
+const CheckOutForm: React.FC<{ record: AttendanceRecord; onBack: () => void; onSuccess: () => void }> = ({ record, onBack, onSuccess }) => {
+  const [photo, setPhoto] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const submit = () => {
+    setLoading(true);
+
+    navigator.geolocation.getCurrentPosition(
+      async (pos) => {
+        const time = new Date().toLocaleTimeString('id-ID');
+        try {
+          await DatabaseHelper.addCheckOut(record.id, {
+            time,
+            photo: photo || undefined,
+            location: { lat: pos.coords.latitude, lng: pos.coords.longitude },
+            earlyLeaveMinutes: calcEarlyLeave(time, record.schedule?.shiftEnd)
+          }, calcWorkMinutes(record.time, time));
+          alert('Absen Pulang Berhasil Terkirim!');
+          onSuccess();
+        } catch {
+          alert('Gagal mengirim absen pulang. Cek koneksi.');
+        } finally {
+          setLoading(false);
+        }
+      },
+      () => {
+          alert('Gagal mendapatkan lokasi GPS.');
+          setLoading(false);
+      }
+    );
+  };
+
   return (
     <div className="animate-fade-in">
-      <button onClick={onBack} className="mb-4 text-gray-500 flex items-center hover:text-blue-600 font-medium"><Home size={16} className="mr-2"/> Kembali</button>
-      <h3 className="font-bold text-xl mb-6 text-gray-800">Riwayat Saya</h3>
-      <div className="space-y-4">
-        {myData.length === 0 && <p className="text-center text-gray-400 py-10">Belum ada riwayat.</p>}
-        {myData.map(d => (
-          <div key={d.id} className="border border-gray-100 p-4 rounded-2xl shadow-sm bg-white flex flex-col gap-3 animate-fade-in">
-             <div className="flex gap-4">
-                 <img src={d.photo} className="w-16 h-16 object-cover rounded-xl bg-gray-200 border border-gray-100"/>
-                 <div className="flex-1">
-                   <div className="flex justify-between items-start">
-                      <div><p className="font-bold text-gray-800">{d.date}</p><p className="text-xs text-blue-600 font-bold">{d.time}</p></div>
-                      <span className="bg-green-100 text-green-700 text-[10px] px-2 py-1 rounded-full font-bold uppercase flex items-center"><CheckCircle size={10} className="mr-1"/> Hadir</span>
-                   </div>
-                   <p className="text-sm text-gray-600 mt-1">{d.position}</p>
-                   <p className="text-xs text-gray-400 italic mt-1 line-clamp-1">"{d.description}"</p>
-                 </div>
-             </div>
-             {d.comments.length > 0 && (
-                 <div className="bg-yellow-50 rounded-xl p-3 border border-yellow-100 mt-2">
-                    <p className="text-xs font-bold text-yellow-700 mb-2 flex items-center"><MessageSquare size={12} className="mr-1"/> Pesan dari Admin:</p>
-                    <div className="space-y-2">
-                        {d.comments.map(c => (
-                            <div key={c.id} className="bg-white/50 p-2 rounded text-xs text-gray-700"><span className="font-bold text-gray-900">{c.adminName}</span>: {c.text}</div>
-                        ))}
-                    </div>
-                 </div>
-             )}
+       <button onClick={onBack} className="text-gray-500 mb-4 flex items-center hover:text-red-600"><LogOut size={16} className="mr-2 rotate-180"/> Batal</button>
+       <h3 className="text-xl font-bold mb-6 text-gray-800 border-b pb-2">Form Absen Pulang</h3>
+       <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+             <div><label className="text-xs font-bold text-gray-500 uppercase">Jam Masuk</label><input value={record.time} disabled className="w-full p-3 bg-gray-100 rounded-xl border border-gray-200 text-gray-600 font-mono text-sm" /></div>
+             <div><label className="text-xs font-bold text-gray-500 uppercase">Jam Pulang</label><input value={new Date().toLocaleTimeString('id-ID')} disabled className="w-full p-3 bg-gray-100 rounded-xl border border-gray-200 text-gray-600 font-mono text-sm" /></div>
           </div>
-        ))}
-      </div>
+          <div><label className="text-xs font-bold text-gray-500 uppercase">Selfie (Opsional)</label></div>
+          <SelfieCapture photo={photo} onChange={setPhoto} />
+
+          <button onClick={submit} disabled={loading} className="w-full bg-orange-600 text-white py-4 rounded-xl font-bold hover:bg-orange-700 shadow-lg transition-all transform active:scale-95 disabled:bg-gray-400">
+             {loading ? 'Mengirim Data...' : 'Kirim Absen Pulang'}
+          </button>
+       </div>
     </div>
   );
 };
 
-// ERROR TS6133 & TS2739 FIXED: Removed unused props onUpdateAttendances, onUpdateUsers
-const AdminDashboard: React.FC<{
-  user: UserT;
-  attendances: AttendanceRecord[];
-  users: UserT[];
-  onLogout: () => void;
-  onRefresh: () => void;
-}> = ({ user, attendances, users, onLogout, onRefresh }) => {
-  const [tab, setTab] = useState<'daily' | 'users'>('daily');
-  const [dailyToken, setDailyToken] = useState('...');
+// Diskusi satu absen antara admin dan anggota; dipakai di detail absen admin dan riwayat anggota
+const CommentThread: React.FC<{ comments: Comment[]; viewer: UserT; onSend: (text: string) => Promise<void> }> = ({ comments, viewer, onSend }) => {
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    setSending(true);
+    try {
+      await onSend(text.trim());
+      setText('');
+    } catch {
+      alert('Gagal mengirim komentar.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-3 space-y-2 max-h-64 overflow-y-auto">
+        {comments.length === 0 && <p className="text-gray-400 text-sm italic">Belum ada komentar.</p>}
+        {comments.map(c => (
+          <div key={c.id} className={`p-3 rounded-lg border ${c.authorId === viewer.nip ? 'bg-blue-50 border-blue-100 ml-6' : 'bg-yellow-50 border-yellow-100 mr-6'}`}>
+            <div className="flex justify-between items-start gap-2"><p className="font-bold text-xs text-gray-700">{c.authorName}{c.authorRole === 'admin' ? ' (Admin)' : ''}</p><p className="text-[10px] text-gray-400">{new Date(c.timestamp).toLocaleString('id-ID')}</p></div>
+            <p className="text-sm text-gray-800 mt-1 whitespace-pre-line">{c.text}</p>
+          </div>
+        ))}
+      </div>
+      {canComment(viewer) ? (
+        <form onSubmit={submit} className="flex gap-2">
+          <input value={text} onChange={e => setText(e.target.value)} className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 text-sm" placeholder={viewer.role === 'admin' ? 'Tulis komentar audit...' : 'Tulis balasan...'} />
+          <button type="submit" disabled={sending || !text.trim()} className="bg-gray-800 text-white px-4 py-2 rounded-lg text-sm hover:bg-gray-900 disabled:bg-gray-400">Kirim</button>
+        </form>
+      ) : <p className="text-xs text-gray-400 italic">Auditor hanya bisa membaca komentar.</p>}
+    </div>
+  );
+};
+
+const AttendanceHistory: React.FC<{
+  user: UserT;
+  refreshKey: number;
+  queue: QueuedAttendance[];
+  unread: UnreadComments[];
+  onRead: () => void;
+  onSync: () => void;
+  onBack: () => void;
+}> = ({ user, refreshKey, queue, unread, onRead, onSync, onBack }) => {
+  const userId = user.nip;
+  const [myData, setMyData] = useState<AttendanceRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [openThread, setOpenThread] = useState<string | null>(null);
+
+  // Refresh mengulang dari halaman pertama; halaman berikutnya ditambahkan di bawah
+  useEffect(() => {
+    DatabaseHelper.queryAttendances({ userId }, 0).then(({ rows, total }) => {
+      setMyData(rows);
+      setTotal(total);
+      setPage(0);
+      setLoading(false);
+    });
+  }, [userId, refreshKey]);
+
+  // Komentar dimuat untuk semua absen yang sudah tampil, termasuk halaman tambahan
+  useEffect(() => {
+    DatabaseHelper.getComments(myData.map(d => d.id)).then(setComments);
+  }, [myData]);
+
+  const toggleThread = async (id: string) => {
+    setOpenThread(openThread === id ? null : id);
+    if (openThread === id || !unread.some(u => u.attendanceId === id)) return;
+    try {
+      await DatabaseHelper.markCommentsRead(id);
+      onRead();
+    } catch (e) {
+      console.error("Error Tandai Komentar:", e);
+    }
+  };
+
+  const handleReply = async (id: string, text: string) => {
+    await DatabaseHelper.addComment(id, text);
+    setComments(await DatabaseHelper.getComments(myData.map(d => d.id)));
+  };
+
+  const loadMore = async () => {
+    const { rows, total } = await DatabaseHelper.queryAttendances({ userId }, page + 1);
+    setMyData(prev => [...prev, ...rows]);
+    setTotal(total);
+    setPage(page + 1);
+  };
+
+  const handleDiscard = async (item: QueuedAttendance) => {
+    if (!confirm('Hapus absen ini dari antrean? Data tidak akan dikirim.')) return;
+    await OfflineQueue.remove(item.clientId);
+    onSync();
+  };
+  
+  return (
+    <div className="animate-fade-in">
+      <button onClick={onBack} className="mb-4 text-gray-500 flex items-center hover:text-blue-600 font-medium"><Home size={16} className="mr-2"/> Kembali</button>
+      <h3 className="font-bold text-xl mb-6 text-gray-800">Riwayat Saya</h3>
+      {queue.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-2xl p-4 mb-6">
+          <div className="flex justify-between items-center mb-3">
+            <p className="font-bold text-amber-800 flex items-center"><WifiOff size={16} className="mr-2"/> Menunggu Dikirim ({queue.length})</p>
+            <button onClick={onSync} className="text-xs font-bold text-amber-800 border border-amber-300 px-3 py-1 rounded-lg hover:bg-amber-100">Kirim Sekarang</button>
+          </div>
+          <div className="space-y-2">
+            {queue.map(q => (
+              <div key={q.clientId} className="bg-white rounded-xl p-3 flex gap-3 items-center">
+                <img src={q.photo} className="w-12 h-12 object-cover rounded-lg bg-gray-200"/>
+                <div className="flex-1">
+                  <p className="font-bold text-gray-800 text-sm">{new Date(q.capturedAt).toLocaleString('id-ID')}</p>
+                  <p className="text-xs text-gray-500">{q.position} • {q.attempts}x percobaan</p>
+                  {q.rejected ? <p className="text-xs text-red-600 font-bold">{q.rejected}</p> : q.lastError && <p className="text-xs text-gray-400 line-clamp-1">{q.lastError}</p>}
+                </div>
+                <button onClick={() => handleDiscard(q)} className="p-2 text-gray-400 hover:text-red-600"><Trash2 size={16}/></button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="space-y-4">
+        {!loading && myData.length === 0 && <p className="text-center text-gray-400 py-10">Belum ada riwayat.</p>}
+        {myData.map(d => {
+          const thread = comments.filter(c => c.attendanceId === d.id);
+          const unreadCount = unread.find(u => u.attendanceId === d.id)?.count ?? 0;
+          return (
+          <div key={d.id} className="border border-gray-100 p-4 rounded-2xl shadow-sm bg-white flex flex-col gap-3 animate-fade-in">
+             <div className="flex gap-4">
+                 {d.manual ? <div className="w-16 h-16 rounded-xl bg-gray-100 border border-gray-100 flex items-center justify-center text-gray-400"><User size={24}/></div> : <img src={d.thumbnail ?? d.photo} className="w-16 h-16 object-cover rounded-xl bg-gray-200 border border-gray-100"/>}
+                 <div className="flex-1">
+                   <div className="flex justify-between items-start">
+                      <div><p className="font-bold text-gray-800">{d.date}</p><p className="text-xs text-blue-600 font-bold">Masuk {d.time} • Pulang {d.checkOut?.time ?? '-'}</p><p className="text-xs text-gray-500">Total: {formatDuration(d.workMinutes)}</p></div>
+                      <div className="flex flex-col items-end gap-1">
+                        <span className={`${SCHEDULE_BADGE[d.schedule?.status ?? 'none']} text-[10px] px-2 py-1 rounded-full font-bold uppercase flex items-center`}><CheckCircle size={10} className="mr-1"/> {scheduleLabel(d.schedule)}</span>
+                        {!!d.checkOut?.earlyLeaveMinutes && <span className="bg-orange-100 text-orange-700 text-[10px] px-2 py-1 rounded-full font-bold uppercase">Pulang Cepat {d.checkOut.earlyLeaveMinutes} mnt</span>}
+                        {d.manual && <span className="bg-purple-100 text-purple-700 text-[10px] px-2 py-1 rounded-full font-bold uppercase">Input Admin</span>}
+                      </div>
+                   </div>
+                   <p className="text-sm text-gray-600 mt-1">{d.position}</p>
+                   <p className="text-xs text-gray-400 italic mt-1 line-clamp-1">"{d.description}"</p>
+                   {d.invalidReason && <p className="text-xs text-red-700 font-bold mt-1">Tidak sah: {d.invalidReason}</p>}
+                 </div>
+             </div>
+             <button onClick={() => toggleThread(d.id)} className="self-start text-xs font-bold text-yellow-700 flex items-center hover:underline">
+                <MessageSquare size={12} className="mr-1"/> {thread.length > 0 ? `Pesan (${thread.length})` : 'Kirim Pesan ke Admin'}
+                {unreadCount > 0 && <span className="ml-2 bg-red-600 text-white text-[10px] px-1.5 py-0.5 rounded-full">{unreadCount} baru</span>}
+             </button>
+             {openThread === d.id && (
+                <div className="bg-yellow-50/50 rounded-xl p-3 border border-yellow-100">
+                   <CommentThread comments={thread} viewer={user} onSend={text => handleReply(d.id, text)} />
+                </div>
+             )}
+          </div>
+          );
+        })}
+        {myData.length < total && (
+          <button onClick={loadMore} className="w-full py-3 text-sm font-bold text-blue-600 border border-blue-100 rounded-xl hover:bg-blue-50">Muat lebih banyak ({total - myData.length} lagi)</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ERROR TS6133 & TS2739 FIXED: Removed unused props onUpdateAttendances, onUpdateUsers
+const LeaveRequestPage: React.FC<{ user: UserT; leaves: LeaveRequest[]; onBack: () => void; onSubmitted: () => void }> = ({ user, leaves, onBack, onSubmitted }) => {
+  const todayIso = idDateToIso(new Date().toLocaleDateString('id-ID'));
+  const [form, setForm] = useState({ type: 'izin' as LeaveRequest['type'], startDate: todayIso, endDate: todayIso, reason: '', attachment: '' });
+  const [saving, setSaving] = useState(false);
+  const myLeaves = leaves.filter(l => l.userId === user.nip);
+
+  const handleAttachment = (file?: File) => {
+    if (!file) return;
+    if (file.size > 2 * 1024 * 1024) { alert('Ukuran lampiran maksimal 2 MB.'); return; }
+    const reader = new FileReader();
+    reader.onload = () => setForm(f => ({ ...f, attachment: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!form.reason.trim()) return alert('Alasan wajib diisi!');
+    if (form.startDate > form.endDate) return alert('Tanggal mulai harus sebelum tanggal selesai!');
+    const overlap = myLeaves.find(l => l.status !== 'rejected' && l.startDate <= form.endDate && l.endDate >= form.startDate);
+    if (overlap) return alert(`Sudah ada pengajuan ${LEAVE_TYPES[overlap.type].toLowerCase()} pada tanggal tersebut.`);
+    setSaving(true);
+    try {
+      await DatabaseHelper.addLeaveRequest({ userId: user.nip, userName: user.name, ...form, reason: form.reason.trim() });
+      alert('Pengajuan terkirim, menunggu persetujuan admin.');
+      setForm({ type: 'izin', startDate: todayIso, endDate: todayIso, reason: '', attachment: '' });
+      onSubmitted();
+    } catch (e) {
+      alert('Gagal mengirim pengajuan: ' + (e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <button onClick={onBack} className="mb-4 text-gray-500 flex items-center hover:text-blue-600 font-medium"><Home size={16} className="mr-2"/> Kembali</button>
+      <h3 className="font-bold text-xl mb-6 text-gray-800">Pengajuan Izin</h3>
+      <div className="space-y-3 mb-8">
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(LEAVE_TYPES) as LeaveRequest['type'][]).map(t => (
+            <button key={t} onClick={() => setForm({ ...form, type: t })} className={`py-2 rounded-lg font-bold text-sm border ${form.type === t ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-600 border-gray-200'}`}>{LEAVE_TYPES[t]}</button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div><label className="text-xs font-bold text-gray-500">Dari</label><input type="date" value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} className="w-full border p-2 rounded"/></div>
+          <div><label className="text-xs font-bold text-gray-500">Sampai</label><input type="date" value={form.endDate} onChange={e => setForm({ ...form, endDate: e.target.value })} className="w-full border p-2 rounded"/></div>
+        </div>
+        <textarea value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} placeholder="Alasan" rows={3} className="w-full border p-3 rounded-lg"/>
+        <div>
+          <label className="text-xs font-bold text-gray-500">Lampiran (opsional, mis. surat dokter)</label>
+          {form.attachment ? (
+            <div className="relative mt-1"><img src={form.attachment} className="w-full max-h-48 object-contain rounded-lg border"/><button onClick={() => setForm({ ...form, attachment: '' })} className="absolute top-2 right-2 bg-red-600 text-white p-1.5 rounded-full"><Trash2 size={14}/></button></div>
+          ) : (
+            <input type="file" accept="image/*" onChange={e => handleAttachment(e.target.files?.[0])} className="w-full text-sm mt-1"/>
+          )}
+        </div>
+        <button onClick={handleSubmit} disabled={saving} className="w-full bg-green-600 text-white py-3 rounded-xl font-bold hover:bg-green-700 disabled:opacity-50">{saving ? 'Mengirim...' : 'Kirim Pengajuan'}</button>
+      </div>
+
+      <h4 className="font-bold text-gray-700 mb-3">Pengajuan Saya</h4>
+      <div className="space-y-3">
+        {myLeaves.length === 0 && <p className="text-center text-gray-400 py-6">Belum ada pengajuan.</p>}
+        {myLeaves.map(l => (
+          <div key={l.id} className="border border-gray-100 p-4 rounded-2xl shadow-sm bg-white">
+            <div className="flex justify-between items-start">
+              <div><p className="font-bold text-gray-800">{LEAVE_TYPES[l.type]} • {leaveDays(l)} hari</p><p className="text-xs text-gray-500">{isoToIdDate(l.startDate)}{l.endDate !== l.startDate && ` s/d ${isoToIdDate(l.endDate)}`}</p></div>
+              <span className={`text-[10px] px-2 py-1 rounded-full font-bold uppercase ${LEAVE_STATUS[l.status].className}`}>{LEAVE_STATUS[l.status].label}</span>
+            </div>
+            <p className="text-sm text-gray-600 mt-2 italic">"{l.reason}"</p>
+            {l.reviewNote && <p className="text-xs text-gray-500 mt-2"><span className="font-bold">{l.reviewedBy}</span>: {l.reviewNote}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Versi data yang dinaikkan event realtime, per tanggal absen (ISO) dan per id absen. "all" naik setiap kali
+// kanal tersambung ulang, karena event selama terputus tidak dikirim ulang oleh server.
+interface LiveVersions { all: number; days: Record<string, number>; ids: Record<string, number> }
+
+// Event dikumpulkan sebentar supaya lonjakan absen pagi tidak memicu muat ulang berkali-kali
+const LIVE_BATCH_MS = 1000;
+
+// Jumlah event untuk tanggal yang cocok; dipakai sebagai dependency useEffect di tampilan laporan
+const liveVersion = (live: LiveVersions, match: (day: string) => boolean) =>
+  live.all + Object.entries(live.days).reduce((sum, [day, n]) => sum + (match(day) ? n : 0), 0);
+
+const LIVE_STATUS: Record<RealtimeStatus, { label: string; className: string }> = {
+  connecting: { label: 'Menyambungkan...', className: 'bg-yellow-100 text-yellow-700' },
+  live: { label: 'Live', className: 'bg-green-100 text-green-700' },
+  offline: { label: 'Terputus, mencoba lagi', className: 'bg-red-100 text-red-700' }
+};
+
+// Label role di header admin serta form & tabel user; admin dibedakan per tingkat
+const ROLE_LABELS: Record<'member' | AdminRole, string> = { member: 'Member', superadmin: 'Superadmin', supervisor: 'Supervisor', auditor: 'Auditor' };
+const roleKey = (u: Pick<UserT, 'role' | 'adminRole'>) => u.role === 'admin' ? u.adminRole ?? 'superadmin' : 'member';
+
+const adminTabClass = ({ isActive }: { isActive: boolean }) =>
+  `px-6 py-2 rounded-lg font-bold transition-all ${isActive ? 'bg-blue-600 text-white shadow-lg' : 'bg-white text-gray-600 hover:bg-gray-100'}`;
+
+const AdminDashboard: React.FC<{
+  user: UserT;
+  users: UserT[];
+  leaves: LeaveRequest[];
+  catalog: OrgCatalog;
+  refreshKey: number;
+  onLogout: () => void;
+  onRefresh: () => void;
+}> = ({ user, users, leaves, catalog, refreshKey, onLogout, onRefresh }) => {
+  const pendingLeaves = leaves.filter(l => l.status === 'pending').length;
+  // Supervisor & auditor hanya membuka laporan; data di luar unit supervisor sudah disaring lapisan data,
+  // jadi pilihan unit di filter laporan juga dibatasi ke unitnya
+  const manager = canManage(user);
+  const scope = unitScope(user);
+  const reportCatalog = scope === undefined ? catalog : { ...catalog, departments: catalog.departments.filter(d => d === scope) };
+  const [liveStatus, setLiveStatus] = useState<RealtimeStatus>('connecting');
+  const [live, setLive] = useState<LiveVersions>({ all: 0, days: {}, ids: {} });
+
+  // Absen masuk/pulang, koreksi dan komentar dari perangkat lain tanpa perlu Refresh Data
+  useEffect(() => {
+    let pending: AttendanceRecord[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let connected = false;
+
+    const flush = () => {
+      const batch = pending;
+      pending = [];
+      timer = undefined;
+      setLive(prev => {
+        const days = { ...prev.days };
+        const ids = { ...prev.ids };
+        batch.forEach(r => {
+          const day = idDateToIso(r.date);
+          days[day] = (days[day] ?? 0) + 1;
+          ids[r.id] = (ids[r.id] ?? 0) + 1;
+        });
+        return { ...prev, days, ids };
+      });
+    };
+
+    const unsubscribe = DatabaseHelper.subscribeAttendances(
+      (record) => {
+        pending.push(record);
+        timer ??= setTimeout(flush, LIVE_BATCH_MS);
+      },
+      (status) => {
+        setLiveStatus(status);
+        if (status !== 'live') return;
+        if (connected) setLive(prev => ({ ...prev, all: prev.all + 1 }));
+        connected = true;
+      }
+    );
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
 
-  useEffect(() => {
-    DatabaseHelper.getDailyToken().then(setDailyToken);
-  }, []);
-  
   return (
     <div className="min-h-screen bg-gray-50 p-4 sm:p-6">
       <div className="max-w-6xl mx-auto">
         <div className="bg-white rounded-xl p-4 shadow-sm mb-6 flex justify-between items-center">
-           <div><h1 className="text-2xl font-bold text-gray-800">Admin Panel</h1><p className="text-gray-500 text-sm">Welcome, {user.name}</p></div>
-           <div className="flex gap-2">
+           <div><h1 className="text-2xl font-bold text-gray-800">Admin Panel</h1><p className="text-gray-500 text-sm">Welcome, {user.name} • {ROLE_LABELS[roleKey(user)]}{scope !== undefined && ` ${scope || NO_DEPARTMENT}`}</p></div>
+           <div className="flex gap-2 items-center">
+              <span className={`text-xs font-bold px-2 py-1 rounded-full ${LIVE_STATUS[liveStatus].className}`}>{LIVE_STATUS[liveStatus].label}</span>
               <button onClick={onRefresh} className="text-blue-600 hover:bg-blue-50 px-4 py-2 rounded-lg text-sm font-semibold border border-blue-200">Refresh Data</button>
               <button onClick={onLogout} className="text-red-600 hover:bg-red-50 px-4 py-2 rounded-lg text-sm font-semibold transition-colors">Logout</button>
            </div>
         </div>
 
-        <div className="bg-gradient-to-r from-blue-600 to-indigo-700 rounded-2xl p-6 mb-8 text-white flex flex-col md:flex-row items-center justify-between shadow-lg">
-           <div>
-              <h2 className="text-xl font-bold opacity-90 flex items-center gap-2"><Key className="w-5 h-5"/> Token Absensi Hari Ini</h2>
-              <p className="text-blue-100 text-sm mt-1">Berikan kode ini kepada anggota untuk absensi.</p>
-           </div>
-           <div className="mt-4 md:mt-0 bg-white/20 backdrop-blur-md px-8 py-4 rounded-xl border border-white/30">
-              <span className="text-5xl font-mono font-bold tracking-[0.5rem]">{dailyToken}</span>
-           </div>
-        </div>
-
-        <div className="flex gap-2 mb-6">
-          <button onClick={() => setTab('daily')} className={`px-6 py-2 rounded-lg font-bold transition-all ${tab === 'daily' ? 'bg-blue-600 text-white shadow-lg' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Laporan Harian</button>
-          <button onClick={() => setTab('users')} className={`px-6 py-2 rounded-lg font-bold transition-all ${tab === 'users' ? 'bg-blue-600 text-white shadow-lg' : 'bg-white text-gray-600 hover:bg-gray-100'}`}>Manajemen User</button>
+        {manager && <SessionTokenCard />}
+        {manager && <PhotoMigrationBanner onDone={onRefresh} />}
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <NavLink to="/admin/daily" className={adminTabClass}>Laporan Harian</NavLink>
+          <NavLink to="/admin/recap" className={adminTabClass}>Rekap Bulanan</NavLink>
+          <NavLink to="/admin/leave" className={adminTabClass}>Pengajuan Izin{pendingLeaves > 0 && <span className="ml-2 bg-red-600 text-white text-xs px-2 py-0.5 rounded-full">{pendingLeaves}</span>}</NavLink>
+          {manager && (
+            <>
+              <NavLink to="/admin/users" className={adminTabClass}>Manajemen User</NavLink>
+              <NavLink to="/admin/schedules" className={adminTabClass}>Jadwal Kerja</NavLink>
+              <NavLink to="/admin/catalog" className={adminTabClass}>Unit & Jabatan</NavLink>
+              <NavLink to="/admin/locations" className={adminTabClass}>Lokasi Kantor</NavLink>
+            </>
+          )}
         </div>
 
-        {tab === 'daily' ? (
-          <DailyReportView attendances={attendances} onRefresh={onRefresh} adminUser={user} />
-        ) : (
-          <UserManagementView users={users} onRefresh={onRefresh} />
-        )}
+        <Routes>
+          <Route index element={<Navigate to="/admin/daily" replace />} />
+          <Route path="daily" element={<DailyReportView users={users} leaves={leaves} catalog={reportCatalog} refreshKey={refreshKey} live={live} adminUser={user} />} />
+          <Route path="daily/:date" element={<DayReportRoute users={users} leaves={leaves} catalog={reportCatalog} refreshKey={refreshKey} live={live} adminUser={user} onRefresh={onRefresh} />} />
+          <Route path="records/:id" element={<RecordDetailRoute catalog={catalog} refreshKey={refreshKey} live={live} adminUser={user} onRefresh={onRefresh} />} />
+          <Route path="recap" element={<MonthlyRecapView users={users} leaves={leaves} catalog={reportCatalog} refreshKey={refreshKey} />} />
+          <Route path="leave" element={<LeaveApprovalView leaves={leaves} adminUser={user} onRefresh={onRefresh} />} />
+          {manager && (
+            <>
+              <Route path="users" element={<UserManagementView users={users} catalog={catalog} adminUser={user} onRefresh={onRefresh} />} />
+              <Route path="catalog" element={<CatalogView users={users} catalog={catalog} onRefresh={onRefresh} />} />
+              <Route path="schedules" element={<ScheduleView users={users} />} />
+              <Route path="locations" element={<OfficeLocationView />} />
+            </>
+          )}
+          <Route path="*" element={<Navigate to="/admin/daily" replace />} />
+        </Routes>
       </div>
     </div>
   );
 };
 
-const DailyReportView: React.FC<{
-  attendances: AttendanceRecord[];
-  onRefresh: () => void;
-  adminUser: UserT;
-}> = ({ attendances, onRefresh, adminUser }) => {
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
-  const [selectedRecord, setSelectedRecord] = useState<AttendanceRecord | null>(null);
-  
-  const uniqueDates = Array.from(new Set(attendances.map(a => a.date)));
+// Hanya tampil selama masih ada foto base64 lama di tabel attendances atau lampiran izin
+const PhotoMigrationBanner: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const [remaining, setRemaining] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null);
 
-  const handleAudit = async (recordId: string, text: string) => {
-    const record = attendances.find(a => a.id === recordId);
-    if (!record) return;
-    
-    const newComment: Comment = {
-       id: Date.now().toString(),
-       adminId: adminUser.nip,
-       adminName: adminUser.name,
-       text: text,
-       timestamp: new Date().toLocaleString()
+  useEffect(() => {
+    DatabaseHelper.countLegacyPhotos().then(setRemaining);
+  }, []);
+
+  const handleMigrate = async () => {
+    setProgress(0);
+    try {
+      const done = await DatabaseHelper.migrateLegacyPhotos(setProgress);
+      alert(`${done} data foto berhasil dipindahkan ke storage.`);
+      onDone();
+    } catch (e) {
+      alert('Migrasi foto terhenti: ' + (e as Error).message);
+    } finally {
+      setProgress(null);
+      setRemaining(await DatabaseHelper.countLegacyPhotos());
+    }
+  };
+
+  if (remaining === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+      <p className="text-sm text-amber-800"><span className="font-bold">{remaining} data absensi/izin</span> masih menyimpan foto base64 di database sehingga memperlambat pemuatan data.</p>
+      <button onClick={handleMigrate} disabled={progress !== null} className="bg-amber-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-amber-700 disabled:opacity-60 whitespace-nowrap">
+        {progress === null ? 'Pindahkan ke Storage' : `Memproses ${progress}/${remaining}...`}
+      </button>
+    </div>
+  );
+};
+
+const SessionTokenCard: React.FC = () => {
+  const [sessions, setSessions] = useState<AttendanceSession[]>([]);
+  const [showQr, setShowQr] = useState(false);
+  const [addMode, setAddMode] = useState(false);
+  const [form, setForm] = useState({ label: 'Absen Pagi', start: '07:00', end: '08:30', singleUse: true });
+
+  const loadSessions = () => { DatabaseHelper.getTodaySessions().then(setSessions); };
+
+  useEffect(() => { loadSessions(); }, []);
+
+  const active = sessions.find(s => sessionStatus(s) === 'open');
+
+  const handleOpen = async () => {
+    const toIso = (hhmm: string) => {
+      const [h, m] = hhmm.split(':').map(Number);
+      const d = new Date();
+      d.setHours(h, m, 0, 0);
+      return d.toISOString();
     };
-    
-    const updatedComments = [...record.comments, newComment];
+    const startsAt = toIso(form.start), endsAt = toIso(form.end);
+    if (!form.label || endsAt <= startsAt) return alert('Isi nama sesi dan pastikan jam selesai setelah jam mulai!');
+
+    let code: string;
+    do { code = Math.floor(1000 + Math.random() * 9000).toString(); } while (sessions.some(s => s.code === code));
+
+    try {
+      await DatabaseHelper.openSession({ label: form.label, code, startsAt, endsAt, singleUse: form.singleUse });
+      setAddMode(false);
+      loadSessions();
+    } catch { alert('Gagal membuka sesi.'); }
+  };
+
+  const handleClose = async (id: string) => {
+    if (!window.confirm('Tutup sesi ini? Token tidak bisa dipakai lagi.')) return;
+    try {
+      await DatabaseHelper.closeSession(id);
+      loadSessions();
+    } catch { alert('Gagal menutup sesi.'); }
+  };
+
+  const statusLabel = { open: 'Dibuka', scheduled: 'Belum Mulai', expired: 'Berakhir', closed: 'Ditutup' };
+
+  return (
+    <div className="bg-gradient-to-r from-blue-600 to-indigo-700 rounded-2xl p-6 mb-8 text-white shadow-lg">
+       <div className="flex flex-col md:flex-row items-center justify-between">
+          <div>
+             <h2 className="text-xl font-bold opacity-90 flex items-center gap-2"><Key className="w-5 h-5"/> Token Sesi Absensi</h2>
+             <p className="text-blue-100 text-sm mt-1">{active ? `${active.label} • ${formatClock(active.startsAt)}–${formatClock(active.endsAt)}${active.singleUse ? ' • sekali pakai' : ''}` : 'Tidak ada sesi yang sedang dibuka.'}</p>
+             <div className="flex gap-2 mt-3">
+                <button onClick={() => setAddMode(!addMode)} className="bg-white text-blue-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-50">Buka Sesi</button>
+                <button onClick={() => setShowQr(true)} className="bg-white/20 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-white/30"><QrCode size={16}/> Tampilkan QR</button>
+             </div>
+          </div>
+          <div className="mt-4 md:mt-0 bg-white/20 backdrop-blur-md px-8 py-4 rounded-xl border border-white/30">
+             <span className="text-5xl font-mono font-bold tracking-[0.5rem]">{active ? active.code : '----'}</span>
+          </div>
+       </div>
+
+       {addMode && (
+          <div className="bg-white/10 rounded-xl p-4 mt-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end animate-fade-in">
+             <div className="md:col-span-2"><label className="text-xs font-bold text-blue-100">Nama Sesi</label><input value={form.label} onChange={e=>setForm({...form, label: e.target.value})} className="w-full p-2 rounded text-gray-800"/></div>
+             <div><label className="text-xs font-bold text-blue-100">Mulai</label><input type="time" value={form.start} onChange={e=>setForm({...form, start: e.target.value})} className="w-full p-2 rounded text-gray-800"/></div>
+             <div><label className="text-xs font-bold text-blue-100">Selesai</label><input type="time" value={form.end} onChange={e=>setForm({...form, end: e.target.value})} className="w-full p-2 rounded text-gray-800"/></div>
+             <label className="flex items-center gap-2 text-sm font-semibold pb-2"><input type="checkbox" checked={form.singleUse} onChange={e=>setForm({...form, singleUse: e.target.checked})}/> Sekali pakai per anggota</label>
+             <button onClick={handleOpen} className="bg-white text-blue-700 py-2 rounded font-bold hover:bg-blue-50 md:col-span-5">Buat Token Sesi</button>
+          </div>
+       )}
+
+       {sessions.length > 0 && (
+          <div className="mt-6 space-y-2">
+             {sessions.map(s => {
+                const status = sessionStatus(s);
+                return (
+                   <div key={s.id} className="bg-white/10 rounded-lg px-4 py-2 flex items-center justify-between text-sm">
+                      <div><span className="font-bold">{s.label}</span> <span className="text-blue-100">{formatClock(s.startsAt)}–{formatClock(s.endsAt)} • kode {s.code}</span></div>
+                      <div className="flex items-center gap-3">
+                         <span className={`text-xs px-2 py-0.5 rounded-full font-bold ${status === 'open' ? 'bg-green-400 text-green-900' : 'bg-white/20'}`}>{statusLabel[status]}</span>
+                         {(status === 'open' || status === 'scheduled') && <button onClick={() => handleClose(s.id)} className="text-xs underline hover:text-red-200">Tutup</button>}
+                      </div>
+                   </div>
+                );
+             })}
+          </div>
+       )}
+
+       {showQr && <QrDisplayMode onClose={() => setShowQr(false)} />}
+    </div>
+  );
+};
+
+const QrDisplayMode: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [qrImage, setQrImage] = useState('');
+  const [issuedAt, setIssuedAt] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const payload = await DatabaseHelper.issueQrToken();
+        setQrImage(await QRCode.toDataURL(payload, { width: 480, margin: 1 }));
+        setIssuedAt(Date.now());
+        setError('');
+      } catch {
+        setError('Gagal membuat QR. Cek koneksi internet.');
+      }
+    };
+    refresh();
+    const rotate = setInterval(refresh, QR_ROTATE_SECONDS * 1000);
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => { clearInterval(rotate); clearInterval(tick); };
+  }, []);
+
+  const remaining = Math.max(0, QR_ROTATE_SECONDS - Math.floor((now - issuedAt) / 1000));
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 z-40 flex flex-col items-center justify-center p-6 animate-fade-in">
+       <button onClick={onClose} className="absolute top-6 right-6 bg-white/10 text-white p-3 rounded-full hover:bg-white/20"><X size={24}/></button>
+       <h2 className="text-white text-2xl md:text-3xl font-bold mb-2">Scan untuk Absen</h2>
+       <p className="text-gray-400 mb-6">Buka menu Absen Masuk → Scan QR</p>
+       <div className="bg-white p-4 rounded-2xl shadow-2xl">
+          {qrImage ? <img src={qrImage} alt="QR Absensi" className="w-72 h-72 md:w-96 md:h-96"/> : <div className="w-72 h-72 md:w-96 md:h-96 flex items-center justify-center text-gray-400">Memuat...</div>}
+       </div>
+       {error ? <p className="text-red-400 mt-6 font-medium">{error}</p> : <p className="text-gray-300 mt-6 font-mono">QR berganti dalam {remaining} detik</p>}
+    </div>
+  );
+};
+
+const RecordDetailView: React.FC<{
+  record: AttendanceRecord;
+  catalog: OrgCatalog;
+  adminUser: UserT;
+  onBack: () => void;
+  onRefresh: () => void;
+}> = ({ record, catalog, adminUser, onBack, onRefresh }) => {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({ time: '', checkOutTime: '', position: '', description: '', reason: '' });
+  const [validityReason, setValidityReason] = useState('');
+
+  const openEditor = () => {
+    setForm({ time: toTimeInput(record.time), checkOutTime: toTimeInput(record.checkOut?.time), position: record.position, description: record.description, reason: '' });
+    setEditing(true);
+  };
 
+  const handleCorrect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.time || !form.position || !form.description) return alert('Mohon lengkapi data!');
+    if (!form.reason.trim()) return alert('Alasan koreksi wajib diisi.');
+    const time = fromTimeInput(form.time, record.time);
+    const checkOutTime = form.checkOutTime ? fromTimeInput(form.checkOutTime, record.checkOut?.time) : undefined;
+    setSaving(true);
     try {
-      await DatabaseHelper.addComment(recordId, updatedComments);
-      alert('Komentar terkirim.');
+      await DatabaseHelper.correctAttendance(record.id, {
+        time, checkOutTime, position: form.position, description: form.description,
+        ...await recalcAttendance(record.userId, record.date, time, checkOutTime, record)
+      }, form.reason.trim());
+      setEditing(false);
       onRefresh();
-      setSelectedRecord(null);
-    } catch (e) {
-      alert('Gagal mengirim komentar.');
+    } catch (err) {
+      alert(`Gagal menyimpan koreksi: ${(err as Error).message}`);
+    } finally {
+      setSaving(false);
     }
   };
 
-  const handleDownloadCSV = (date: string, data: AttendanceRecord[]) => {
-     const headers = ['NIP,Nama,Tanggal,Jam,Jabatan,Keterangan,Lokasi'];
-     const rows = data.map(d => `${d.userId},"${d.userName}",${d.date},${d.time},"${d.position}","${d.description}","${d.location.lat}, ${d.location.lng}"`);
-     const csvContent = "data:text/csv;charset=utf-8," + [headers, ...rows].join("\n");
-     const encodedUri = encodeURI(csvContent);
-     const link = document.createElement("a");
-     link.setAttribute("href", encodedUri);
-     link.setAttribute("download", `Absensi_${date.replace(/\//g, '-')}.csv`);
-     document.body.appendChild(link);
-     link.click();
-     document.body.removeChild(link);
+  const handleValidity = async () => {
+    if (!validityReason.trim()) return alert('Alasan wajib diisi.');
+    try {
+      await DatabaseHelper.setAttendanceValidity(record.id, !record.invalidReason, validityReason.trim());
+      setValidityReason('');
+      onRefresh();
+    } catch (err) {
+      alert(`Gagal mengubah status absen: ${(err as Error).message}`);
+    }
   };
 
-  if (selectedRecord) {
-     return (
-       <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
-          <button onClick={()=>setSelectedRecord(null)} className="mb-4 text-gray-500 hover:text-blue-600 font-bold flex items-center"><Home size={16} className="mr-2"/> Kembali ke Daftar</button>
+  const [comments, setComments] = useState<Comment[]>([]);
+
+  // Membuka detail berarti membaca semua balasan anggota pada absen ini
+  useEffect(() => {
+    DatabaseHelper.getComments([record.id]).then(setComments);
+    DatabaseHelper.markCommentsRead(record.id).catch(e => console.error("Error Tandai Komentar:", e));
+  }, [record]);
+
+  const handleComment = async (text: string) => {
+    await DatabaseHelper.addComment(record.id, text);
+    setComments(await DatabaseHelper.getComments([record.id]));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
+       <button onClick={onBack} className="mb-4 text-gray-500 hover:text-blue-600 font-bold flex items-center"><Home size={16} className="mr-2"/> Kembali</button>
+       
+       <div className="flex flex-col md:flex-row gap-8">
+          <div className="md:w-1/3">
+             {record.manual ? (
+                <div className="w-full aspect-square rounded-xl bg-gray-100 border flex flex-col items-center justify-center text-gray-400 mb-4"><User size={48}/><p className="text-sm mt-2">Input manual oleh admin, tanpa foto & GPS</p></div>
+             ) : <img src={record.photo} alt="Bukti" className="w-full rounded-xl shadow-md mb-4"/>}
+             {!record.manual && <div className="bg-gray-50 p-4 rounded-xl border"><h3 className="font-bold text-gray-800">Lokasi GPS</h3><p className="text-sm font-mono text-gray-600 mb-2">{record.location.lat}, {record.location.lng}</p>{record.geofence && <p className={`text-xs font-bold mb-2 ${record.geofence.inside ? 'text-green-700' : 'text-red-700'}`}>{record.geofence.inside ? 'Di dalam' : 'Di luar'} area {record.geofence.siteName} ({record.geofence.distance} m)</p>}<a href={`https://www.google.com/maps?q=${record.location.lat},${record.location.lng}`} target="_blank" rel="noreferrer" className="text-blue-600 text-sm hover:underline flex items-center"><MapPin size={12} className="mr-1"/> Buka di Maps</a></div>}
+          </div>
           
-          <div className="flex flex-col md:flex-row gap-8">
-             <div className="md:w-1/3">
-                <img src={selectedRecord.photo} alt="Bukti" className="w-full rounded-xl shadow-md mb-4"/>
-                <div className="bg-gray-50 p-4 rounded-xl border"><h3 className="font-bold text-gray-800">Lokasi GPS</h3><p className="text-sm font-mono text-gray-600 mb-2">{selectedRecord.location.lat}, {selectedRecord.location.lng}</p><a href={`https://www.google.com/maps?q=${selectedRecord.location.lat},${selectedRecord.location.lng}`} target="_blank" rel="noreferrer" className="text-blue-600 text-sm hover:underline flex items-center"><MapPin size={12} className="mr-1"/> Buka di Maps</a></div>
+          <div className="md:w-2/3 space-y-6">
+             <div><h2 className="text-3xl font-bold text-gray-800">{record.userName}</h2><p className="text-gray-500 text-lg">{record.userId} • {record.position}</p>
+                <div className="flex gap-2 mt-2">
+                   <span className={`text-xs px-2 py-1 rounded-full font-bold ${SCHEDULE_BADGE[record.schedule?.status ?? 'none']}`}>{scheduleLabel(record.schedule)}{record.schedule?.shiftName ? ` • ${record.schedule.shiftName}` : ''}</span>
+                   {!!record.checkOut?.earlyLeaveMinutes && <span className="text-xs px-2 py-1 rounded-full font-bold bg-orange-100 text-orange-700">Pulang Cepat {record.checkOut.earlyLeaveMinutes} mnt</span>}
+                   {record.manual && <span className="text-xs px-2 py-1 rounded-full font-bold bg-purple-100 text-purple-700">Input Manual</span>}
+                   {record.invalidReason && <span className="text-xs px-2 py-1 rounded-full font-bold bg-red-600 text-white">Tidak Sah</span>}
+                </div>
+                {record.invalidReason && <p className="mt-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">Dinyatakan tidak sah: {record.invalidReason}. Absen ini tidak dihitung hadir di rekap.</p>}
              </div>
              
-             <div className="md:w-2/3 space-y-6">
-                <div><h2 className="text-3xl font-bold text-gray-800">{selectedRecord.userName}</h2><p className="text-gray-500 text-lg">{selectedRecord.userId} • {selectedRecord.position}</p></div>
-                
-                <div className="grid grid-cols-2 gap-4">
-                   <div className="bg-blue-50 p-3 rounded-lg"><p className="text-xs text-blue-600 font-bold uppercase">Tanggal</p><p className="font-semibold">{selectedRecord.date}</p></div>
-                   <div className="bg-blue-50 p-3 rounded-lg"><p className="text-xs text-blue-600 font-bold uppercase">Jam Masuk</p><p className="font-semibold">{selectedRecord.time}</p></div>
+             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-blue-50 p-3 rounded-lg"><p className="text-xs text-blue-600 font-bold uppercase">Tanggal</p><p className="font-semibold">{record.date}</p></div>
+                <div className="bg-blue-50 p-3 rounded-lg"><p className="text-xs text-blue-600 font-bold uppercase">Jam Masuk</p><p className="font-semibold">{record.time}</p></div>
+                <div className="bg-orange-50 p-3 rounded-lg"><p className="text-xs text-orange-600 font-bold uppercase">Jam Pulang</p><p className="font-semibold">{record.checkOut?.time ?? '-'}</p></div>
+                <div className="bg-green-50 p-3 rounded-lg"><p className="text-xs text-green-600 font-bold uppercase">Total Jam</p><p className="font-semibold">{formatDuration(record.workMinutes)}</p></div>
+                {record.capturedAt && record.receivedAt && (
+                   <p className="col-span-full text-xs text-gray-500">Diambil di perangkat {new Date(record.capturedAt).toLocaleString('id-ID')} • diterima server {new Date(record.receivedAt).toLocaleString('id-ID')}</p>
+                )}
+             </div>
+
+             {record.checkOut && !record.manual && (
+                <div className="bg-gray-50 p-4 rounded-xl border flex gap-4 items-center">
+                   {record.checkOut.photo && <img src={record.checkOut.photo} alt="Bukti Pulang" className="w-20 h-20 object-cover rounded-lg"/>}
+                   <div><h3 className="font-bold text-gray-800">Lokasi Pulang</h3><p className="text-sm font-mono text-gray-600 mb-2">{record.checkOut.location.lat}, {record.checkOut.location.lng}</p><a href={`https://www.google.com/maps?q=${record.checkOut.location.lat},${record.checkOut.location.lng}`} target="_blank" rel="noreferrer" className="text-blue-600 text-sm hover:underline flex items-center"><MapPin size={12} className="mr-1"/> Buka di Maps</a></div>
                 </div>
+             )}
 
-                <div><h4 className="font-bold text-gray-700 mb-2">Keterangan Kegiatan</h4><p className="bg-gray-50 p-4 rounded-xl border text-gray-700">{selectedRecord.description}</p></div>
+             <div><h4 className="font-bold text-gray-700 mb-2">Keterangan Kegiatan</h4><p className="bg-gray-50 p-4 rounded-xl border text-gray-700">{record.description}</p></div>
 
+             {canManage(adminUser) && (
                 <div className="border-t pt-6">
-                   <h4 className="font-bold text-gray-800 mb-4 flex items-center"><ShieldPlus className="mr-2"/> Audit Log & Komentar</h4>
-                   <div className="mb-4 space-y-3 max-h-48 overflow-y-auto">
-                      {selectedRecord.comments.length === 0 && <p className="text-gray-400 text-sm italic">Belum ada komentar.</p>}
-                      {selectedRecord.comments.map(c => (
-                         <div key={c.id} className="bg-yellow-50 p-3 rounded-lg border border-yellow-100"><div className="flex justify-between items-start"><p className="font-bold text-xs text-yellow-800">{c.adminName} (Admin)</p><p className="text-xs text-gray-400">{c.timestamp}</p></div><p className="text-sm text-gray-800 mt-1">{c.text}</p></div>
-                      ))}
+                   <div className="flex justify-between items-center mb-4">
+                      <h4 className="font-bold text-gray-800 flex items-center"><Edit2 size={18} className="mr-2"/> Koreksi Data</h4>
+                      {!editing && <button onClick={openEditor} className="text-sm font-bold text-blue-600 hover:underline">Koreksi</button>}
                    </div>
+                   {editing && (
+                      <form onSubmit={handleCorrect} className="bg-blue-50 p-4 rounded-xl border border-blue-100 space-y-3 mb-4">
+                         <div className="grid grid-cols-2 gap-3">
+                            <div><label className="text-xs font-bold text-gray-500 uppercase">Jam Masuk</label><input type="time" value={form.time} onChange={e => setForm({ ...form, time: e.target.value })} className="w-full border p-2 rounded bg-white"/></div>
+                            <div><label className="text-xs font-bold text-gray-500 uppercase">Jam Pulang</label><input type="time" value={form.checkOutTime} onChange={e => setForm({ ...form, checkOutTime: e.target.value })} className="w-full border p-2 rounded bg-white"/><p className="text-[10px] text-gray-400 mt-1">Kosongkan jika belum absen pulang</p></div>
+                         </div>
+                         <div><label className="text-xs font-bold text-gray-500 uppercase">Jabatan</label>{catalog.positions.length > 0
+                           ? <CatalogSelect options={catalog.positions} value={form.position} onChange={position => setForm({ ...form, position })} empty="-- Pilih Jabatan --"/>
+                           : <input value={form.position} onChange={e => setForm({ ...form, position: e.target.value })} className="w-full border p-2 rounded bg-white"/>}</div>
+                         <div><label className="text-xs font-bold text-gray-500 uppercase">Keterangan</label><textarea value={form.description} onChange={e => setForm({ ...form, description: e.target.value })} rows={2} className="w-full border p-2 rounded bg-white"/></div>
+                         <div><label className="text-xs font-bold text-gray-500 uppercase">Alasan Koreksi</label><input value={form.reason} onChange={e => setForm({ ...form, reason: e.target.value })} placeholder="Contoh: jam di HP anggota salah" className="w-full border p-2 rounded bg-white"/></div>
+                         <div className="flex gap-2 justify-end">
+                            <button type="button" onClick={() => setEditing(false)} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg">Batal</button>
+                            <button type="submit" disabled={saving} className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 disabled:bg-gray-400">{saving ? 'Menyimpan...' : 'Simpan Koreksi'}</button>
+                         </div>
+                      </form>
+                   )}
                    <div className="flex gap-2">
-                      <input id="commentInput" type="text" className="flex-1 border border-gray-300 rounded-lg px-4 py-2 text-sm" placeholder="Tulis komentar audit..." />
-                      <button onClick={() => { const input = document.getElementById('commentInput') as HTMLInputElement; if(input.value) { handleAudit(selectedRecord.id, input.value); input.value = ''; }}} className="bg-gray-800 text-white px-4 py-2 rounded-lg text-sm hover:bg-gray-900">Kirim</button>
+                      <input value={validityReason} onChange={e => setValidityReason(e.target.value)} className="flex-1 border border-gray-300 rounded-lg px-4 py-2 text-sm" placeholder={record.invalidReason ? 'Alasan memulihkan absen...' : 'Alasan absen tidak sah...'} />
+                      {record.invalidReason ? (
+                         <button onClick={handleValidity} className="flex items-center gap-1 bg-green-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-green-700"><RotateCcw size={14}/> Pulihkan</button>
+                      ) : (
+                         <button onClick={handleValidity} className="flex items-center gap-1 bg-red-600 text-white px-4 py-2 rounded-lg text-sm hover:bg-red-700"><Ban size={14}/> Tidak Sah</button>
+                      )}
                    </div>
                 </div>
+             )}
+
+             <div className="border-t pt-6">
+                <h4 className="font-bold text-gray-800 mb-4 flex items-center"><History className="mr-2"/> Riwayat Perubahan</h4>
+                <div className="space-y-3 max-h-64 overflow-y-auto">
+                   {record.editHistory.length === 0 && <p className="text-gray-400 text-sm italic">Belum ada perubahan.</p>}
+                   {[...record.editHistory].reverse().map(h => (
+                      <div key={h.id} className="bg-blue-50 p-3 rounded-lg border border-blue-100">
+                         <div className="flex justify-between items-start"><p className="font-bold text-xs text-blue-800">{EDIT_ACTIONS[h.action]} • {h.editorName} ({h.editorId})</p><p className="text-xs text-gray-400">{new Date(h.timestamp).toLocaleString('id-ID')}</p></div>
+                         <p className="text-sm text-gray-700 mt-1 italic">"{h.reason}"</p>
+                         <ul className="mt-2 space-y-1">
+                            {h.changes.map(c => (
+                               <li key={c.field} className="text-xs text-gray-600"><span className="font-semibold">{EDIT_FIELDS[c.field] ?? c.field}:</span> <span className="line-through text-gray-400">{c.before || '-'}</span> → <span className="text-gray-800">{c.after || '-'}</span></li>
+                            ))}
+                         </ul>
+                      </div>
+                   ))}
+                </div>
+             </div>
+
+             <div className="border-t pt-6">
+                <h4 className="font-bold text-gray-800 mb-4 flex items-center"><ShieldPlus className="mr-2"/> Audit Log & Komentar</h4>
+                <CommentThread comments={comments} viewer={adminUser} onSend={handleComment} />
              </div>
           </div>
        </div>
-     );
+    </div>
+  );
+};
+
+// Detail dimuat dari server berdasarkan id di URL, jadi link /admin/records/:id bisa dibagikan ke admin lain
+const RecordDetailRoute: React.FC<{ catalog: OrgCatalog; refreshKey: number; live: LiveVersions; adminUser: UserT; onRefresh: () => void }> = ({ catalog, refreshKey, live, adminUser, onRefresh }) => {
+  const { id = '' } = useParams();
+  const recordLive = live.all + (live.ids[id] ?? 0);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [record, setRecord] = useState<AttendanceRecord | null>();
+
+  useEffect(() => {
+    DatabaseHelper.getAttendance(id).then(setRecord);
+  }, [id, refreshKey, recordLive]);
+
+  if (record === undefined) return <p className="text-center py-10 text-gray-400">Memuat data...</p>;
+  if (!record) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-10 text-center animate-fade-in">
+         <p className="text-gray-500 mb-4">Data absensi tidak ditemukan.</p>
+         <Link to="/admin/daily" className="text-blue-600 font-bold text-sm hover:underline">Kembali ke Laporan Harian</Link>
+      </div>
+    );
   }
 
-  if (selectedDate) {
-     const dayRecords = attendances.filter(a => a.date === selectedDate);
-     return (
-       <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
-          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
-             <div><button onClick={()=>setSelectedDate(null)} className="text-gray-500 hover:text-blue-600 font-bold text-sm mb-1 flex items-center"><Home size={14} className="mr-1"/> Kembali</button><h2 className="text-2xl font-bold text-gray-800">Laporan Tanggal: {selectedDate}</h2><p className="text-gray-500 text-sm">{dayRecords.length} Anggota Hadir</p></div>
-             <div className="flex gap-2">
-                <button onClick={() => handleDownloadCSV(selectedDate, dayRecords)} className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-semibold"><FileSpreadsheet size={16}/> Excel/CSV</button>
-                <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 text-sm font-semibold"><Printer size={16}/> Print / PDF</button>
-             </div>
+  // Link yang dibuka langsung tidak punya riwayat sebelumnya, jadi kembali ke laporan tanggal absen tersebut
+  const back = () => location.key === 'default' ? navigate(`/admin/daily/${idDateToIso(record.date)}`) : navigate(-1);
+  return <RecordDetailView record={record} catalog={catalog} adminUser={adminUser} onBack={back} onRefresh={onRefresh} />;
+};
+
+const Pager: React.FC<{ page: number; total: number; pageSize?: number; onChange: (page: number) => void }> = ({ page, total, pageSize = ATTENDANCE_PAGE_SIZE, onChange }) => {
+  const pages = Math.max(1, Math.ceil(total / pageSize));
+  if (pages <= 1) return null;
+  return (
+    <div className="flex justify-between items-center pt-4 text-sm">
+       <button onClick={() => onChange(page - 1)} disabled={page === 0} className="px-3 py-1 rounded border text-gray-600 hover:bg-gray-50 disabled:opacity-40">Sebelumnya</button>
+       <span className="text-gray-500">Halaman {page + 1} dari {pages}</span>
+       <button onClick={() => onChange(page + 1)} disabled={page + 1 >= pages} className="px-3 py-1 rounded border text-gray-600 hover:bg-gray-50 disabled:opacity-40">Berikutnya</button>
+    </div>
+  );
+};
+
+// Anggota yang sudah absen hari ini dibanding yang dijadwalkan masuk (hari kerja sesuai jadwal, tidak izin).
+// Tanpa jadwal kerja, Senin-Jumat dianggap hari kerja seperti di Rekap Bulanan.
+const TodayPresence: React.FC<{ users: UserT[]; leaves: LeaveRequest[]; refreshKey: number; live: LiveVersions }> = ({ users, leaves, refreshKey, live }) => {
+  const today = new Date();
+  const todayIso = idDateToIso(today.toLocaleDateString('id-ID'));
+  const todayLive = liveVersion(live, day => day === todayIso);
+  const [present, setPresent] = useState<Set<string>>(new Set());
+  const [schedules, setSchedules] = useState<{ schedules: WorkSchedule[]; assignments: ScheduleAssignment[] }>({ schedules: [], assignments: [] });
+
+  useEffect(() => {
+    Promise.all([DatabaseHelper.getSchedules(), DatabaseHelper.getScheduleAssignments()])
+      .then(([schedules, assignments]) => setSchedules({ schedules, assignments }));
+  }, [refreshKey]);
+
+  useEffect(() => {
+    DatabaseHelper.getAttendances({ from: todayIso, to: todayIso })
+      .then(rows => setPresent(new Set(rows.filter(r => !r.invalidReason).map(r => r.userId))));
+  }, [todayIso, refreshKey, todayLive]);
+
+  const members = users.filter(u => u.role === 'member' && !u.deactivatedAt);
+  const expected = members.filter(u => {
+    const schedule = pickSchedule(schedules.schedules, schedules.assignments, u.nip);
+    const workDay = schedule ? schedule.workDays.includes(today.getDay()) : today.getDay() !== 0 && today.getDay() !== 6;
+    return workDay && !approvedLeaveOn(leaves, u.nip, todayIso);
+  });
+  const presentCount = members.filter(u => present.has(u.nip)).length;
+  const percent = expected.length ? Math.min(100, Math.round((presentCount / expected.length) * 100)) : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 mb-6 flex flex-col sm:flex-row sm:items-center gap-4">
+       <div><p className="text-xs font-bold text-gray-500 uppercase">Hadir Hari Ini</p><p className="text-3xl font-bold text-gray-800">{presentCount} <span className="text-lg text-gray-400">/ {expected.length}</span></p></div>
+       <div className="flex-1">
+          <div className="h-3 bg-gray-100 rounded-full overflow-hidden"><div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }}/></div>
+          <p className="text-xs text-gray-500 mt-1">{expected.filter(u => !present.has(u.nip)).length} anggota terjadwal belum absen</p>
+       </div>
+       <Link to={`/admin/daily/${todayIso}`} className="text-sm font-bold text-blue-600 hover:underline">Lihat daftar</Link>
+    </div>
+  );
+};
+
+const DailyReportView: React.FC<{
+  users: UserT[];
+  leaves: LeaveRequest[];
+  catalog: OrgCatalog;
+  refreshKey: number;
+  live: LiveVersions;
+  adminUser: UserT;
+}> = ({ users, leaves, catalog, refreshKey, live, adminUser }) => {
+  const [params, setParams] = useSearchParams();
+  const month = monthFromParams(params);
+  const monthLive = liveVersion(live, day => day.startsWith(month));
+  const [dayCounts, setDayCounts] = useState<{ day: string; total: number }[]>([]);
+  const [unread, setUnread] = useState<UnreadComments[]>([]);
+
+  useEffect(() => {
+    const [year, mon] = month.split('-').map(Number);
+    DatabaseHelper.getDailyCounts(`${month}-01`, `${month}-${new Date(year, mon, 0).getDate()}`).then(setDayCounts);
+  }, [month, refreshKey, monthLive]);
+
+  useEffect(() => {
+    DatabaseHelper.getUnreadComments().then(setUnread);
+  }, [refreshKey, monthLive]);
+
+  // Balasan anggota yang belum dibaca, dijumlahkan per tanggal absen
+  const unreadOn = (day: string) => unread.filter(u => idDateToIso(u.date) === day).reduce((sum, u) => sum + u.count, 0);
+
+  return (
+    <div className="animate-fade-in">
+    <TodayPresence users={users} leaves={leaves} refreshKey={refreshKey} live={live} />
+    <ReportPanel users={users} leaves={leaves} catalog={catalog} adminUser={adminUser} />
+    <div className="flex justify-end mb-4"><input type="month" value={month} onChange={e => e.target.value && setParams({ month: e.target.value })} className="border p-2 rounded bg-white"/></div>
+    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+       {dayCounts.length === 0 ? (
+          <div className="col-span-full text-center py-20 bg-white rounded-xl shadow-sm"><Calendar size={48} className="mx-auto text-gray-300 mb-4"/><p className="text-gray-500">Belum ada data absensi masuk.</p></div>
+       ) : dayCounts.map(({ day, total }) => (
+           <Link key={day} to={`/admin/daily/${day}`} className="bg-white p-6 rounded-xl shadow-sm hover:shadow-md border border-transparent hover:border-blue-500 transition-all text-left group">
+              <div className="flex justify-between items-start mb-4"><div className="bg-blue-100 p-3 rounded-lg group-hover:bg-blue-600 transition-colors"><Calendar className="w-6 h-6 text-blue-600 group-hover:text-white"/></div><div className="flex flex-col items-end gap-1"><span className="bg-gray-100 text-gray-600 text-xs px-2 py-1 rounded-full font-bold">{total} Orang</span>{unreadOn(day) > 0 && <span className="bg-red-600 text-white text-xs px-2 py-1 rounded-full font-bold flex items-center gap-1"><MessageSquare size={12}/> {unreadOn(day)} balasan baru</span>}</div></div>
+              <h3 className="text-xl font-bold text-gray-800">{isoToIdDate(day)}</h3><p className="text-sm text-gray-500 mt-1">Klik untuk detail</p>
+           </Link>
+       ))}
+    </div>
+    </div>
+  );
+};
+
+// Tanggal ISO di URL (/admin/daily/2026-10-19); format lain dikembalikan ke daftar tanggal
+const DayReportRoute: React.FC<{ users: UserT[]; leaves: LeaveRequest[]; catalog: OrgCatalog; refreshKey: number; live: LiveVersions; adminUser: UserT; onRefresh: () => void }> = (props) => {
+  const { date = '' } = useParams();
+  const navigate = useNavigate();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return <Navigate to="/admin/daily" replace />;
+  return <DayReportView {...props} dayIso={date} onBack={() => navigate(`/admin/daily?month=${date.slice(0, 7)}`)} />;
+};
+
+const EMPTY_MANUAL = { nip: '', time: '', checkOutTime: '', position: '', description: '', reason: '' };
+
+const DayReportView: React.FC<{
+  dayIso: string;
+  users: UserT[];
+  leaves: LeaveRequest[];
+  catalog: OrgCatalog;
+  refreshKey: number;
+  live: LiveVersions;
+  adminUser: UserT;
+  onBack: () => void;
+  onRefresh: () => void;
+}> = ({ dayIso, users, leaves, catalog, refreshKey, live, adminUser, onBack, onRefresh }) => {
+  // Pencarian & halaman disimpan di URL (?q=&unit=&position=&page=) supaya tetap sama setelah kembali dari detail
+  const [params, setParams] = useSearchParams();
+  const search = params.get('q') ?? '';
+  const department = params.get('unit') ?? '';
+  const position = params.get('position') ?? '';
+  const page = Math.max(0, (Number(params.get('page')) || 1) - 1);
+  const [input, setInput] = useState({ search, department, position });
+  const [result, setResult] = useState<{ rows: AttendanceRecord[]; total: number }>({ rows: [], total: 0 });
+  const [manual, setManual] = useState<typeof EMPTY_MANUAL | null>(null);
+  const [unread, setUnread] = useState<UnreadComments[]>([]);
+
+  const dayFilter: AttendanceFilter = { from: dayIso, to: dayIso, search, department, position };
+  const date = isoToIdDate(dayIso);
+  const dayLeaves = leavesInRange(leaves, dayIso, dayIso)
+    .filter(l => !department || users.find(u => u.nip === l.userId)?.department === department);
+  // Halaman dimuat ulang dari server saat ada event untuk tanggal ini, jadi baris tidak pernah dobel
+  const dayLive = liveVersion(live, day => day === dayIso);
+
+  useEffect(() => {
+    DatabaseHelper.queryAttendances({ from: dayIso, to: dayIso, search, department, position }, page).then(setResult);
+  }, [dayIso, search, department, position, page, refreshKey, dayLive]);
+
+  useEffect(() => {
+    DatabaseHelper.getUnreadComments().then(setUnread);
+  }, [refreshKey, dayLive]);
+
+  const setQuery = (next: { search: string; department: string; position: string; page: number }) => {
+    const query: Record<string, string> = {};
+    if (next.search) query.q = next.search;
+    if (next.department) query.unit = next.department;
+    if (next.position) query.position = next.position;
+    if (next.page > 0) query.page = String(next.page + 1);
+    setParams(query);
+  };
+
+  const applyFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery({ ...input, page: 0 });
+  };
+
+  // Untuk anggota yang perangkatnya bermasalah; tercatat di riwayat perubahan dengan alasannya
+  const handleManual = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manual) return;
+    const member = users.find(u => u.nip === manual.nip);
+    if (!member || !manual.time || !manual.position || !manual.description) return alert('Mohon lengkapi data!');
+    if (!manual.reason.trim()) return alert('Alasan input manual wajib diisi.');
+    const time = fromTimeInput(manual.time);
+    const checkOutTime = manual.checkOutTime ? fromTimeInput(manual.checkOutTime) : undefined;
+    try {
+      await DatabaseHelper.addManualAttendance({
+        userId: member.nip, userName: member.name, date, time, checkOutTime,
+        position: manual.position, description: manual.description,
+        ...await recalcAttendance(member.nip, date, time, checkOutTime)
+      }, manual.reason.trim());
+      setManual(null);
+      onRefresh();
+    } catch (err) {
+      alert(`Gagal menyimpan absen manual: ${(err as Error).message}`);
+    }
+  };
+
+  // Ekspor memuat semua baris yang cocok dengan filter, bukan hanya halaman yang tampil
+  const handleXlsx = async () => generateXlsxReport(`Absensi_${dayIso}`, await DatabaseHelper.getAttendances(dayFilter), dayLeaves);
+  const handlePdf = async () => generatePdfReport('Laporan Absensi Harian', `Tanggal ${date}${department ? ` • ${department}` : ''}`, await DatabaseHelper.getAttendances(dayFilter), adminUser, dayLeaves);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
+       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+          <div><button onClick={onBack} className="text-gray-500 hover:text-blue-600 font-bold text-sm mb-1 flex items-center"><Home size={14} className="mr-1"/> Kembali</button><h2 className="text-2xl font-bold text-gray-800">Laporan Tanggal: {date}</h2><p className="text-gray-500 text-sm">{result.total} Anggota Hadir{dayLeaves.length > 0 && ` • ${dayLeaves.length} Izin`}</p></div>
+          <div className="flex gap-2">
+             {canManage(adminUser) && <button onClick={() => setManual(manual ? null : EMPTY_MANUAL)} className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 text-sm font-semibold"><Plus size={16}/> Absen Manual</button>}
+             <button onClick={handleXlsx} className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-semibold"><FileSpreadsheet size={16}/> Excel</button>
+             <button onClick={handlePdf} className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 text-sm font-semibold"><Printer size={16}/> PDF</button>
           </div>
-          <div className="space-y-0 divider-y divide-gray-100 border-t border-gray-100">
-             {dayRecords.length === 0 ? <p className="text-center py-10 text-gray-400">Tidak ada data.</p> : dayRecords.map(record => (
-                <div key={record.id} className="group flex items-center gap-4 py-4 border-b border-gray-100 hover:bg-gray-50 transition-colors px-2">
-                   <img src={record.photo} alt={record.userName} className="w-12 h-12 rounded-full object-cover border-2 border-white shadow-sm" />
-                   <div className="flex-1"><div className="flex items-center gap-2"><h4 className="font-bold text-gray-900">{record.userName}</h4><span className="text-xs bg-gray-200 text-gray-600 px-2 py-0.5 rounded-full">{record.userId}</span></div><p className="text-sm text-gray-500">{record.time} • {record.position}</p><p className="text-sm text-gray-600 mt-1 line-clamp-1 italic">"{record.description}"</p></div>
-                   <div className="flex flex-col items-end gap-1"><button onClick={() => setSelectedRecord(record)} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-all" title="Audit / Detail"><Edit2 size={18}/></button>{record.comments.length > 0 && (<span className="text-[10px] bg-yellow-100 text-yellow-700 px-1.5 rounded border border-yellow-200">{record.comments.length} notes</span>)}</div>
+       </div>
+       {manual && (
+          <form onSubmit={handleManual} className="bg-purple-50 p-4 rounded-xl border border-purple-100 grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+             <h3 className="md:col-span-2 font-bold text-purple-800">Absen Manual {date}</h3>
+             <select value={manual.nip} onChange={e => setManual({ ...manual, nip: e.target.value, position: users.find(u => u.nip === e.target.value)?.position ?? manual.position })} className="border p-2 rounded bg-white md:col-span-2">
+                <option value="">-- Pilih Anggota --</option>
+                {users.filter(u => u.role === 'member' && !u.deactivatedAt).map(u => <option key={u.nip} value={u.nip}>{u.name} ({u.nip})</option>)}
+             </select>
+             <div><label className="text-xs font-bold text-gray-500 uppercase">Jam Masuk</label><input type="time" value={manual.time} onChange={e => setManual({ ...manual, time: e.target.value })} className="w-full border p-2 rounded bg-white"/></div>
+             <div><label className="text-xs font-bold text-gray-500 uppercase">Jam Pulang (Opsional)</label><input type="time" value={manual.checkOutTime} onChange={e => setManual({ ...manual, checkOutTime: e.target.value })} className="w-full border p-2 rounded bg-white"/></div>
+             {catalog.positions.length > 0
+               ? <CatalogSelect options={catalog.positions} value={manual.position} onChange={position => setManual({ ...manual, position })} empty="-- Pilih Jabatan --" className="border p-2 rounded bg-white"/>
+               : <input value={manual.position} onChange={e => setManual({ ...manual, position: e.target.value })} placeholder="Jabatan" className="border p-2 rounded bg-white"/>}
+             <input value={manual.description} onChange={e => setManual({ ...manual, description: e.target.value })} placeholder="Keterangan kegiatan" className="border p-2 rounded bg-white"/>
+             <input value={manual.reason} onChange={e => setManual({ ...manual, reason: e.target.value })} placeholder="Alasan input manual (contoh: HP anggota rusak)" className="border p-2 rounded bg-white md:col-span-2"/>
+             <div className="md:col-span-2 flex justify-end gap-2">
+                <button type="button" onClick={() => setManual(null)} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg">Batal</button>
+                <button type="submit" className="px-4 py-2 text-sm bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700">Simpan</button>
+             </div>
+          </form>
+       )}
+       <form onSubmit={applyFilter} className="flex flex-col sm:flex-row gap-2 mb-4">
+          <input value={input.search} onChange={e => setInput({ ...input, search: e.target.value })} placeholder="Cari nama, NIP atau keterangan" className="flex-1 border p-2 rounded text-sm"/>
+          <CatalogSelect options={catalog.departments} value={input.department} onChange={department => setInput({ ...input, department })} empty="Semua Unit" className="sm:w-48 border p-2 rounded text-sm bg-white"/>
+          {catalog.positions.length > 0
+            ? <CatalogSelect options={catalog.positions} value={input.position} onChange={position => setInput({ ...input, position })} empty="Semua Jabatan" className="sm:w-48 border p-2 rounded text-sm bg-white"/>
+            : <input value={input.position} onChange={e => setInput({ ...input, position: e.target.value })} placeholder="Jabatan" className="sm:w-48 border p-2 rounded text-sm"/>}
+          <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded text-sm font-semibold hover:bg-blue-700">Cari</button>
+       </form>
+       <div className="space-y-0 divider-y divide-gray-100 border-t border-gray-100">
+          {result.rows.length === 0 ? <p className="text-center py-10 text-gray-400">Tidak ada data.</p> : result.rows.map((record, i) => (
+             <React.Fragment key={record.id}>
+                {/* Baris dari server sudah diurutkan per unit; judul unit muncul setiap kali unit berganti */}
+                {(i === 0 || record.department !== result.rows[i - 1].department) && <h3 className="bg-gray-50 px-2 py-1 text-xs font-bold text-gray-500 uppercase border-b border-gray-100">{record.department ?? NO_DEPARTMENT}</h3>}
+                <div className="group flex items-center gap-4 py-4 border-b border-gray-100 hover:bg-gray-50 transition-colors px-2">
+                   {record.manual ? <div className="w-12 h-12 rounded-full bg-gray-100 flex items-center justify-center text-gray-400"><User size={20}/></div> : <img src={record.thumbnail ?? record.photo} alt={record.userName} className="w-12 h-12 rounded-full object-cover border-2 border-white shadow-sm" />}
+                   <div className="flex-1"><div className="flex items-center gap-2"><h4 className="font-bold text-gray-900">{record.userName}</h4><span className="text-xs bg-gray-200 text-gray-600 px-2 py-0.5 rounded-full">{record.userId}</span>{record.invalidReason && <span className="text-[10px] bg-red-600 text-white px-2 py-0.5 rounded-full font-bold">Tidak Sah</span>}{record.manual && <span className="text-[10px] bg-purple-100 text-purple-700 px-2 py-0.5 rounded-full font-bold">Manual</span>}{record.schedule && <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${SCHEDULE_BADGE[record.schedule.status]}`}>{scheduleLabel(record.schedule)}</span>}{!!record.checkOut?.earlyLeaveMinutes && <span className="text-[10px] bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full font-bold">Pulang Cepat {record.checkOut.earlyLeaveMinutes} mnt</span>}{record.geofence && !record.geofence.inside && <span className="text-[10px] bg-red-100 text-red-700 px-2 py-0.5 rounded-full font-bold flex items-center"><MapPin size={10} className="mr-1"/> Di luar area ({record.geofence.distance} m)</span>}</div><p className="text-sm text-gray-500">{record.time} - {record.checkOut?.time ?? '...'} ({formatDuration(record.workMinutes)}) • {record.position}</p><p className="text-sm text-gray-600 mt-1 line-clamp-1 italic">"{record.description}"</p></div>
+                   <div className="flex flex-col items-end gap-1"><Link to={`/admin/records/${record.id}`} className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full transition-all" title="Audit / Detail"><Edit2 size={18}/></Link>{unread.some(u => u.attendanceId === record.id) && (<span className="text-[10px] bg-red-600 text-white px-1.5 rounded-full flex items-center gap-1" title="Balasan anggota belum dibaca"><MessageSquare size={10}/> {unread.find(u => u.attendanceId === record.id)!.count}</span>)}</div>
+                </div>
+             </React.Fragment>
+          ))}
+       </div>
+       <Pager page={page} total={result.total} onChange={(p) => setQuery({ search, department, position, page: p })} />
+       {dayLeaves.length > 0 && (
+          <div className="mt-6">
+             <h3 className="font-bold text-gray-700 mb-2">Izin / Sakit / Cuti</h3>
+             {dayLeaves.map(l => (
+                <div key={l.id} className="flex items-center gap-4 py-3 border-b border-gray-100 px-2">
+                   <div className="flex-1"><div className="flex items-center gap-2"><h4 className="font-bold text-gray-900">{l.userName}</h4><span className="text-xs bg-gray-200 text-gray-600 px-2 py-0.5 rounded-full">{l.userId}</span><span className="text-[10px] bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-bold">{LEAVE_TYPES[l.type]}</span></div><p className="text-sm text-gray-600 mt-1 line-clamp-1 italic">"{l.reason}"</p></div>
                 </div>
              ))}
           </div>
-          <style>{`@media print { body * { visibility: hidden; } .animate-fade-in, .animate-fade-in * { visibility: visible; } .animate-fade-in { position: absolute; left: 0; top: 0; width: 100%; } button { display: none !important; } }`}</style>
+       )}
+    </div>
+  );
+};
+
+const RECAP_STYLES: Record<RecapStatus, { label: string; short: string; className: string }> = {
+  present: { label: 'Hadir', short: 'H', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  late: { label: 'Terlambat', short: 'T', className: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200' },
+  leave: { label: 'Izin / Sakit / Cuti', short: 'I', className: 'bg-blue-100 text-blue-700' },
+  absent: { label: 'Alpa', short: 'A', className: 'bg-red-100 text-red-700' },
+  off: { label: 'Libur / belum lewat', short: '', className: 'bg-gray-50' }
+};
+
+const MonthlyRecapView: React.FC<{
+  users: UserT[];
+  leaves: LeaveRequest[];
+  catalog: OrgCatalog;
+  refreshKey: number;
+}> = ({ users, leaves, catalog, refreshKey }) => {
+  const navigate = useNavigate();
+  const [params, setParams] = useSearchParams();
+  const todayIso = idDateToIso(new Date().toLocaleDateString('id-ID'));
+  const month = monthFromParams(params);
+  const department = params.get('unit') ?? '';
+  const [attendances, setAttendances] = useState<AttendanceRecord[]>([]);
+
+  const [year, mon] = month.split('-').map(Number);
+  const days = Array.from({ length: new Date(year, mon, 0).getDate() }, (_, i) => i + 1);
+  const dayIso = (day: number) => `${month}-${String(day).padStart(2, '0')}`;
+
+  useEffect(() => {
+    const [y, m] = month.split('-').map(Number);
+    DatabaseHelper.getAttendances({ from: `${month}-01`, to: `${month}-${new Date(y, m, 0).getDate()}` }).then(setAttendances);
+  }, [month, refreshKey]);
+
+  const byUserDay = new Map<string, AttendanceRecord>();
+  attendances.filter(a => !a.invalidReason).forEach(a => byUserDay.set(`${a.userId}|${idDateToIso(a.date)}`, a));
+
+  // Sabtu/Minggu, hari yang belum lewat dan hari setelah user dinonaktifkan tidak dihitung alpa;
+  // izin yang disetujui dihitung terpisah
+  const statusOf = (record: AttendanceRecord | undefined, leave: LeaveRequest | undefined, day: number, inactiveFrom: string): RecapStatus => {
+    if (record) return record.schedule?.status === 'late' ? 'late' : 'present';
+    const weekday = new Date(year, mon - 1, day).getDay();
+    if (weekday === 0 || weekday === 6) return 'off';
+    if (leave) return 'leave';
+    if (dayIso(day) > todayIso || (inactiveFrom && dayIso(day) >= inactiveFrom)) return 'off';
+    return 'absent';
+  };
+
+  const inactiveFrom = (u: UserT) => u.deactivatedAt ? idDateToIso(new Date(u.deactivatedAt).toLocaleDateString('id-ID')) : '';
+  // User yang sudah nonaktif sebelum bulan ini tidak ditampilkan; baris dikelompokkan menurut unit user saat ini
+  const employees = users
+    .filter(u => u.role === 'member' && (!u.deactivatedAt || inactiveFrom(u) > `${month}-01`) && (!department || u.department === department))
+    .sort((a, b) => byDepartment(a.department, b.department) || a.name.localeCompare(b.name));
+  const setFilter = (next: { month: string; department: string }) =>
+    setParams(next.department ? { month: next.month, unit: next.department } : { month: next.month });
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
+       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+          <h2 className="text-xl font-bold text-gray-800">Rekap Bulanan</h2>
+          <div className="flex gap-2">
+             <CatalogSelect options={catalog.departments} value={department} onChange={d => setFilter({ month, department: d })} empty="Semua Unit" className="border p-2 rounded bg-white"/>
+             <input type="month" value={month} onChange={e => e.target.value && setFilter({ month: e.target.value, department })} className="border p-2 rounded"/>
+          </div>
        </div>
-     );
-  }
+
+       <div className="flex flex-wrap gap-4 mb-4 text-xs">
+          {(Object.keys(RECAP_STYLES) as RecapStatus[]).map(k => (
+             <span key={k} className="flex items-center gap-1"><span className={`w-5 h-5 rounded flex items-center justify-center font-bold ${RECAP_STYLES[k].className}`}>{RECAP_STYLES[k].short}</span> {RECAP_STYLES[k].label}</span>
+          ))}
+       </div>
+
+       <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+             <thead>
+                <tr className="bg-gray-100 text-gray-600">
+                   <th className="p-2 text-left sticky left-0 bg-gray-100 min-w-[160px]">Pegawai</th>
+                   {days.map(d => <th key={d} className="p-1 w-7 text-center">{d}</th>)}
+                   <th className="p-2 text-center">Hadir</th><th className="p-2 text-center">Telat</th><th className="p-2 text-center">Izin</th><th className="p-2 text-center">Alpa</th>
+                </tr>
+             </thead>
+             <tbody>
+                {employees.length === 0 && <tr><td colSpan={days.length + 5} className="p-6 text-center text-gray-400">Belum ada anggota.</td></tr>}
+                {employees.map((u, i) => {
+                   const cells = days.map(d => {
+                      const record = byUserDay.get(`${u.nip}|${dayIso(d)}`);
+                      const leave = approvedLeaveOn(leaves, u.nip, dayIso(d));
+                      return { day: d, record, leave, status: statusOf(record, leave, d, inactiveFrom(u)) };
+                   });
+                   const count = (st: RecapStatus) => cells.filter(c => c.status === st).length;
+                   return (
+                      <React.Fragment key={u.nip}>
+                         {(i === 0 || u.department !== employees[i - 1].department) && (
+                            <tr className="bg-gray-50"><td colSpan={days.length + 5} className="p-2 sticky left-0 font-bold text-gray-500 uppercase">{u.department ?? NO_DEPARTMENT}</td></tr>
+                         )}
+                         <tr className="border-b hover:bg-gray-50">
+                            <td className="p-2 sticky left-0 bg-white"><p className="font-bold text-gray-700">{u.name}</p><p className="font-mono text-gray-400">{u.nip}</p></td>
+                            {cells.map(c => (
+                               <td key={c.day} className="p-0.5">
+                                  <button
+                                    disabled={!c.record}
+                                    onClick={() => c.record && navigate(`/admin/records/${c.record.id}`)}
+                                    title={c.record ? `${c.record.date} • ${c.record.time}` : c.status === 'leave' && c.leave ? `${LEAVE_TYPES[c.leave.type]}: ${c.leave.reason}` : RECAP_STYLES[c.status].label}
+                                    className={`w-6 h-6 rounded font-bold ${RECAP_STYLES[c.status].className}`}
+                                  >{RECAP_STYLES[c.status].short}</button>
+                               </td>
+                            ))}
+                            <td className="p-2 text-center font-bold text-green-700">{count('present') + count('late')}</td>
+                            <td className="p-2 text-center font-bold text-yellow-700">{count('late')}</td>
+                            <td className="p-2 text-center font-bold text-blue-700">{count('leave')}</td>
+                            <td className="p-2 text-center font-bold text-red-700">{count('absent')}</td>
+                         </tr>
+                      </React.Fragment>
+                   );
+                })}
+             </tbody>
+          </table>
+       </div>
+    </div>
+  );
+};
+
+const LeaveApprovalView: React.FC<{ leaves: LeaveRequest[]; adminUser: UserT; onRefresh: () => void }> = ({ leaves, adminUser, onRefresh }) => {
+  const [filter, setFilter] = useState<LeaveRequest['status'] | ''>('pending');
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<string | null>(null);
+
+  const handleReview = async (leave: LeaveRequest, status: Exclude<LeaveRequest['status'], 'pending'>) => {
+    const note = notes[leave.id]?.trim() ?? '';
+    if (status === 'rejected' && !note) return alert('Isi catatan alasan penolakan!');
+    try {
+      await DatabaseHelper.reviewLeaveRequest(leave.id, status, adminUser, note);
+      onRefresh();
+    } catch (e) {
+      alert('Gagal menyimpan keputusan: ' + (e as Error).message);
+    }
+  };
+
+  const shown = leaves.filter(l => !filter || l.status === filter);
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 animate-fade-in">
-       {uniqueDates.length === 0 ? (
-          <div className="col-span-full text-center py-20 bg-white rounded-xl shadow-sm"><Calendar size={48} className="mx-auto text-gray-300 mb-4"/><p className="text-gray-500">Belum ada data absensi masuk.</p></div>
-       ) : uniqueDates.map(date => {
-         const count = attendances.filter(a => a.date === date).length;
-         return (
-           <button key={date} onClick={() => setSelectedDate(date)} className="bg-white p-6 rounded-xl shadow-sm hover:shadow-md border border-transparent hover:border-blue-500 transition-all text-left group">
-              <div className="flex justify-between items-start mb-4"><div className="bg-blue-100 p-3 rounded-lg group-hover:bg-blue-600 transition-colors"><Calendar className="w-6 h-6 text-blue-600 group-hover:text-white"/></div><span className="bg-gray-100 text-gray-600 text-xs px-2 py-1 rounded-full font-bold">{count} Orang</span></div>
-              <h3 className="text-xl font-bold text-gray-800">{date}</h3><p className="text-sm text-gray-500 mt-1">Klik untuk detail</p>
-           </button>
-         );
+    <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
+       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+          <h2 className="text-xl font-bold text-gray-800">Pengajuan Izin / Sakit / Cuti</h2>
+          <select value={filter} onChange={e => setFilter(e.target.value as LeaveRequest['status'] | '')} className="border p-2 rounded bg-white">
+             <option value="">Semua</option>
+             {(Object.keys(LEAVE_STATUS) as LeaveRequest['status'][]).map(st => <option key={st} value={st}>{LEAVE_STATUS[st].label}</option>)}
+          </select>
+       </div>
+       <div className="space-y-3">
+          {shown.length === 0 && <p className="text-center py-10 text-gray-400">Tidak ada pengajuan.</p>}
+          {shown.map(l => (
+             <div key={l.id} className="border border-gray-100 rounded-xl p-4 flex flex-col md:flex-row gap-4">
+                <div className="flex-1">
+                   <div className="flex items-center gap-2 flex-wrap"><h4 className="font-bold text-gray-900">{l.userName}</h4><span className="text-xs bg-gray-200 text-gray-600 px-2 py-0.5 rounded-full">{l.userId}</span><span className="text-[10px] bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-bold">{LEAVE_TYPES[l.type]}</span><span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${LEAVE_STATUS[l.status].className}`}>{LEAVE_STATUS[l.status].label}</span></div>
+                   <p className="text-sm text-gray-500 mt-1">{isoToIdDate(l.startDate)}{l.endDate !== l.startDate && ` s/d ${isoToIdDate(l.endDate)}`} ({leaveDays(l)} hari) • diajukan {new Date(l.createdAt).toLocaleString('id-ID')}</p>
+                   <p className="text-sm text-gray-700 mt-1 italic">"{l.reason}"</p>
+                   {l.reviewedBy && <p className="text-xs text-gray-500 mt-1">Diputuskan oleh <span className="font-bold">{l.reviewedBy}</span>{l.reviewNote && `: ${l.reviewNote}`}</p>}
+                </div>
+                {l.attachment && <button onClick={() => setPreview(l.attachment!)}><img src={l.attachment} alt="Lampiran" className="w-20 h-20 object-cover rounded-lg border"/></button>}
+                {l.status === 'pending' && canManage(adminUser) && (
+                   <div className="flex flex-col gap-2 md:w-64">
+                      <input value={notes[l.id] ?? ''} onChange={e => setNotes({ ...notes, [l.id]: e.target.value })} placeholder="Catatan (wajib jika ditolak)" className="border p-2 rounded text-sm"/>
+                      <div className="flex gap-2">
+                         <button onClick={() => handleReview(l, 'approved')} className="flex-1 bg-green-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-green-700">Setujui</button>
+                         <button onClick={() => handleReview(l, 'rejected')} className="flex-1 bg-red-600 text-white py-2 rounded-lg text-sm font-bold hover:bg-red-700">Tolak</button>
+                      </div>
+                   </div>
+                )}
+             </div>
+          ))}
+       </div>
+       {preview && (
+          <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center p-4" onClick={() => setPreview(null)}>
+             <img src={preview} alt="Lampiran" className="max-w-full max-h-full rounded-lg"/>
+          </div>
+       )}
+    </div>
+  );
+};
+
+const ReportPanel: React.FC<{ users: UserT[]; leaves: LeaveRequest[]; catalog: OrgCatalog; adminUser: UserT }> = ({ users, leaves, catalog, adminUser }) => {
+  const todayIso = idDateToIso(new Date().toLocaleDateString('id-ID'));
+  const [from, setFrom] = useState(todayIso);
+  const [to, setTo] = useState(todayIso);
+  const [department, setDepartment] = useState('');
+  const [nip, setNip] = useState('');
+
+  const employees = users.filter(u => u.role === 'member' && (!department || u.department === department)).map(u => [u.nip, u.name] as const);
+
+  // Absensi difilter menurut unit saat absen dibuat; izin tidak menyimpan unit, jadi memakai unit user saat ini
+  const selectRecords = async () => {
+    if (from > to) { alert('Tanggal awal harus sebelum tanggal akhir!'); return null; }
+    const records = (await DatabaseHelper.getAttendances({ from, to, userId: nip || undefined, department: department || undefined }))
+      .sort((a, b) => byDepartment(a.department, b.department) || idDateToIso(a.date).localeCompare(idDateToIso(b.date)) || a.userName.localeCompare(b.userName));
+    const periodLeaves = leavesInRange(leaves, from, to, nip)
+      .filter(l => !department || employees.some(([id]) => id === l.userId));
+    if (records.length === 0 && periodLeaves.length === 0) { alert('Tidak ada data pada rentang tersebut.'); return null; }
+    return { records, periodLeaves };
+  };
+
+  const handleXlsx = async () => {
+    const selected = await selectRecords();
+    if (selected) generateXlsxReport(`Absensi_${from}_${to}${department ? `_${department.replace(/[^\w-]+/g, '_')}` : ''}${nip ? `_${nip}` : ''}`, selected.records, selected.periodLeaves);
+  };
+
+  const handleGenerate = async () => {
+    const selected = await selectRecords();
+    if (!selected) return;
+
+    const period = from === to ? `Tanggal ${isoToIdDate(from)}` : `Periode ${isoToIdDate(from)} s/d ${isoToIdDate(to)}`;
+    const employee = employees.find(([id]) => id === nip);
+    generatePdfReport(
+      employee ? 'Laporan Absensi Pegawai' : 'Laporan Absensi',
+      employee ? `${employee[1]} (${employee[0]}) • ${period}` : department ? `${department} • ${period}` : period,
+      selected.records, adminUser, selected.periodLeaves
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 mb-6 grid grid-cols-1 md:grid-cols-7 gap-4 items-end">
+       <div><label className="text-xs font-bold text-gray-500">Dari Tanggal</label><input type="date" value={from} onChange={e=>setFrom(e.target.value)} className="w-full border p-2 rounded"/></div>
+       <div><label className="text-xs font-bold text-gray-500">Sampai Tanggal</label><input type="date" value={to} onChange={e=>setTo(e.target.value)} className="w-full border p-2 rounded"/></div>
+       <div><label className="text-xs font-bold text-gray-500">Unit Kerja</label><CatalogSelect options={catalog.departments} value={department} onChange={d => { setDepartment(d); setNip(''); }} empty="Semua Unit"/></div>
+       <div><label className="text-xs font-bold text-gray-500">Pegawai</label><select value={nip} onChange={e=>setNip(e.target.value)} className="w-full border p-2 rounded bg-white"><option value="">Semua Pegawai</option>{employees.map(([id, name]) => <option key={id} value={id}>{name} ({id})</option>)}</select></div>
+       <button onClick={handleGenerate} className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 text-sm font-semibold"><Printer size={16}/> Laporan PDF</button>
+       <button onClick={handleXlsx} className="flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-semibold"><FileSpreadsheet size={16}/> Export Excel</button>
+    </div>
+  );
+};
+
+const DAY_NAMES = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+const ScheduleView: React.FC<{ users: UserT[] }> = ({ users }) => {
+  const emptyForm = { name: '', type: 'fixed' as WorkSchedule['type'], shifts: [{ name: 'Reguler', start: '08:00', end: '16:00' }], workDays: [1, 2, 3, 4, 5], graceMinutes: '0' };
+  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
+  const [assignments, setAssignments] = useState<ScheduleAssignment[]>([]);
+  const [addMode, setAddMode] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  const load = () => {
+    DatabaseHelper.getSchedules().then(setSchedules);
+    DatabaseHelper.getScheduleAssignments().then(setAssignments);
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const updateShift = (index: number, patch: Partial<Shift>) =>
+    setForm({ ...form, shifts: form.shifts.map((sh, i) => i === index ? { ...sh, ...patch } : sh) });
+
+  const toggleDay = (day: number) =>
+    setForm({ ...form, workDays: form.workDays.includes(day) ? form.workDays.filter(d => d !== day) : [...form.workDays, day].sort() });
+
+  const handleAdd = async () => {
+    const shifts = form.type === 'fixed' ? form.shifts.slice(0, 1) : form.shifts;
+    if (!form.name || shifts.some(sh => !sh.name || !sh.start || !sh.end) || form.workDays.length === 0) return alert('Lengkapi nama jadwal, jam shift dan hari kerja!');
+    try {
+      await DatabaseHelper.addSchedule({ name: form.name, type: form.type, shifts, workDays: form.workDays, graceMinutes: parseInt(form.graceMinutes) || 0 });
+      setForm(emptyForm);
+      setAddMode(false);
+      load();
+    } catch { alert('Gagal menyimpan jadwal.'); }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Hapus jadwal ini? Penugasannya ikut terhapus.')) return;
+    try {
+      await DatabaseHelper.deleteSchedule(id);
+      load();
+    } catch { alert('Gagal hapus jadwal.'); }
+  };
+
+  const handleAssign = async (targetType: ScheduleAssignment['targetType'], target: string, scheduleId: string) => {
+    try {
+      await DatabaseHelper.assignSchedule(targetType, target, scheduleId);
+      load();
+    } catch { alert('Gagal menyimpan penugasan jadwal.'); }
+  };
+
+  const assignedTo = (targetType: ScheduleAssignment['targetType'], target: string) =>
+    assignments.find(a => a.targetType === targetType && a.target === target)?.scheduleId || '';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in space-y-8">
+       <div>
+          <div className="flex justify-between items-center mb-4">
+             <h2 className="text-xl font-bold text-gray-800">Jadwal Kerja</h2>
+             <button onClick={()=>setAddMode(!addMode)} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-bold">Tambah Jadwal</button>
+          </div>
+
+          {addMode && (
+             <div className="bg-gray-50 p-4 rounded-xl border mb-6 space-y-4 animate-fade-in">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                   <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Nama Jadwal</label><input value={form.name} onChange={e=>setForm({...form, name: e.target.value})} className="w-full border p-2 rounded" placeholder="Contoh: Jam Kantor"/></div>
+                   <div><label className="text-xs font-bold text-gray-500">Jenis</label><select value={form.type} onChange={e=>setForm({...form, type: e.target.value as WorkSchedule['type']})} className="w-full border p-2 rounded bg-white"><option value="fixed">Jam Tetap</option><option value="shift">Shift Bergilir</option></select></div>
+                   <div><label className="text-xs font-bold text-gray-500">Toleransi (menit)</label><input type="number" value={form.graceMinutes} onChange={e=>setForm({...form, graceMinutes: e.target.value})} className="w-full border p-2 rounded"/></div>
+                </div>
+                <div>
+                   <label className="text-xs font-bold text-gray-500">Hari Kerja</label>
+                   <div className="flex gap-2 mt-1">{DAY_NAMES.map((d, i) => <button key={d} onClick={() => toggleDay(i)} className={`px-3 py-1 rounded text-sm font-bold ${form.workDays.includes(i) ? 'bg-blue-600 text-white' : 'bg-white border text-gray-500'}`}>{d}</button>)}</div>
+                </div>
+                <div className="space-y-2">
+                   <label className="text-xs font-bold text-gray-500">{form.type === 'fixed' ? 'Jam Kerja' : 'Daftar Shift'}</label>
+                   {(form.type === 'fixed' ? form.shifts.slice(0, 1) : form.shifts).map((sh, i) => (
+                      <div key={i} className="flex gap-2 items-center">
+                         <input value={sh.name} onChange={e=>updateShift(i, { name: e.target.value })} className="border p-2 rounded flex-1" placeholder="Nama shift"/>
+                         <input type="time" value={sh.start} onChange={e=>updateShift(i, { start: e.target.value })} className="border p-2 rounded"/>
+                         <span className="text-gray-400">–</span>
+                         <input type="time" value={sh.end} onChange={e=>updateShift(i, { end: e.target.value })} className="border p-2 rounded"/>
+                         {form.type === 'shift' && form.shifts.length > 1 && <button onClick={() => setForm({ ...form, shifts: form.shifts.filter((_, j) => j !== i) })} className="text-red-500 hover:bg-red-50 p-2 rounded"><Trash2 size={16}/></button>}
+                      </div>
+                   ))}
+                   {form.type === 'shift' && <button onClick={() => setForm({ ...form, shifts: [...form.shifts, { name: '', start: '', end: '' }] })} className="text-blue-600 text-sm font-bold hover:underline">+ Tambah Shift</button>}
+                </div>
+                <button onClick={handleAdd} className="w-full bg-blue-600 text-white py-2 rounded font-bold hover:bg-blue-700">Simpan Jadwal</button>
+             </div>
+          )}
+
+          <div className="overflow-x-auto">
+             <table className="w-full text-left border-collapse">
+                <thead><tr className="bg-gray-100 text-gray-600 text-sm"><th className="p-3 rounded-tl-lg">Nama</th><th className="p-3">Jenis</th><th className="p-3">Shift</th><th className="p-3">Hari Kerja</th><th className="p-3">Toleransi</th><th className="p-3 rounded-tr-lg text-right">Aksi</th></tr></thead>
+                <tbody>
+                   {schedules.length === 0 && <tr><td colSpan={6} className="p-6 text-center text-gray-400">Belum ada jadwal. Absensi tidak diperiksa keterlambatannya.</td></tr>}
+                   {schedules.map(sc => (
+                      <tr key={sc.id} className="border-b hover:bg-gray-50 text-sm">
+                         <td className="p-3 font-bold text-gray-700">{sc.name}</td>
+                         <td className="p-3">{sc.type === 'fixed' ? 'Jam Tetap' : 'Shift Bergilir'}</td>
+                         <td className="p-3">{sc.shifts.map(sh => `${sh.name} ${sh.start}–${sh.end}`).join(', ')}</td>
+                         <td className="p-3">{sc.workDays.map(d => DAY_NAMES[d]).join(', ')}</td>
+                         <td className="p-3">{sc.graceMinutes} mnt</td>
+                         <td className="p-3 text-right"><button onClick={()=>handleDelete(sc.id)} className="text-red-500 hover:bg-red-50 p-2 rounded"><Trash2 size={16}/></button></td>
+                      </tr>
+                   ))}
+                </tbody>
+             </table>
+          </div>
+       </div>
+
+       <div>
+          <h3 className="text-lg font-bold text-gray-800 mb-4">Penugasan Jadwal</h3>
+          <div className="bg-blue-50 p-4 rounded-xl mb-4 flex flex-col md:flex-row md:items-center gap-2">
+             <span className="font-bold text-gray-700 flex-1">Default untuk semua anggota</span>
+             <select value={assignedTo('all', '')} onChange={e => handleAssign('all', '', e.target.value)} className="border p-2 rounded bg-white md:w-64"><option value="">— Tidak ada —</option>{schedules.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}</select>
+          </div>
+          <div className="overflow-x-auto">
+             <table className="w-full text-left border-collapse">
+                <thead><tr className="bg-gray-100 text-gray-600 text-sm"><th className="p-3 rounded-tl-lg">NIP</th><th className="p-3">Nama</th><th className="p-3 rounded-tr-lg">Jadwal Khusus</th></tr></thead>
+                <tbody>
+                   {users.filter(u => u.role === 'member' && !u.deactivatedAt).map(u => (
+                      <tr key={u.nip} className="border-b hover:bg-gray-50 text-sm">
+                         <td className="p-3 font-mono">{u.nip}</td>
+                         <td className="p-3 font-bold text-gray-700">{u.name}</td>
+                         <td className="p-3"><select value={assignedTo('user', u.nip)} onChange={e => handleAssign('user', u.nip, e.target.value)} className="border p-2 rounded bg-white w-full md:w-64"><option value="">Ikuti default</option>{schedules.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}</select></td>
+                      </tr>
+                   ))}
+                </tbody>
+             </table>
+          </div>
+       </div>
+    </div>
+  );
+};
+
+const OfficeLocationView: React.FC = () => {
+  const [sites, setSites] = useState<OfficeLocation[]>([]);
+  const [form, setForm] = useState({ name: '', lat: '', lng: '', radius: '100', policy: 'flag' as OfficeLocation['policy'] });
+
+  const loadSites = () => {
+    DatabaseHelper.getOfficeLocations().then(setSites).catch(e => alert(`Gagal memuat lokasi kantor: ${(e as Error).message}`));
+  };
+
+  useEffect(() => { loadSites(); }, []);
+
+  const fillMyLocation = () => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setForm(f => ({ ...f, lat: pos.coords.latitude.toString(), lng: pos.coords.longitude.toString() })),
+      () => alert('Gagal mendapatkan lokasi GPS.')
+    );
+  };
+
+  const handleAdd = async () => {
+    const lat = parseFloat(form.lat), lng = parseFloat(form.lng), radius = parseInt(form.radius);
+    if (!form.name || isNaN(lat) || isNaN(lng) || !(radius > 0)) return alert('Isi nama, koordinat dan radius dengan benar!');
+    try {
+      await DatabaseHelper.addOfficeLocation({ name: form.name, lat, lng, radius, policy: form.policy });
+      setForm({ name: '', lat: '', lng: '', radius: '100', policy: 'flag' });
+      loadSites();
+    } catch { alert('Gagal menyimpan lokasi.'); }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Hapus lokasi ini?')) return;
+    try {
+      await DatabaseHelper.deleteOfficeLocation(id);
+      loadSites();
+    } catch { alert('Gagal hapus lokasi.'); }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
+       <h2 className="text-xl font-bold text-gray-800 mb-6">Lokasi Kantor</h2>
+
+       <div className="bg-gray-50 p-4 rounded-xl border mb-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Nama Lokasi</label><input value={form.name} onChange={e=>setForm({...form, name: e.target.value})} className="w-full border p-2 rounded" placeholder="Contoh: Kantor Pusat"/></div>
+          <div><label className="text-xs font-bold text-gray-500">Latitude</label><input value={form.lat} onChange={e=>setForm({...form, lat: e.target.value})} className="w-full border p-2 rounded font-mono text-sm"/></div>
+          <div><label className="text-xs font-bold text-gray-500">Longitude</label><input value={form.lng} onChange={e=>setForm({...form, lng: e.target.value})} className="w-full border p-2 rounded font-mono text-sm"/></div>
+          <div><label className="text-xs font-bold text-gray-500">Radius (m)</label><input type="number" value={form.radius} onChange={e=>setForm({...form, radius: e.target.value})} className="w-full border p-2 rounded"/></div>
+          <div><label className="text-xs font-bold text-gray-500">Di Luar Radius</label><select value={form.policy} onChange={e=>setForm({...form, policy: e.target.value as OfficeLocation['policy']})} className="w-full border p-2 rounded bg-white"><option value="flag">Tandai</option><option value="reject">Tolak</option></select></div>
+          <button onClick={fillMyLocation} className="border border-blue-600 text-blue-600 py-2 rounded font-bold hover:bg-blue-50 md:col-span-2 flex items-center justify-center gap-2"><MapPin size={16}/> Gunakan Lokasi Saya</button>
+          <button onClick={handleAdd} className="bg-blue-600 text-white py-2 rounded font-bold hover:bg-blue-700 md:col-span-4">Simpan Lokasi</button>
+       </div>
+
+       <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+             <thead><tr className="bg-gray-100 text-gray-600 text-sm"><th className="p-3 rounded-tl-lg">Nama</th><th className="p-3">Koordinat</th><th className="p-3">Radius</th><th className="p-3">Kebijakan</th><th className="p-3 rounded-tr-lg text-right">Aksi</th></tr></thead>
+             <tbody>
+                {sites.length === 0 && <tr><td colSpan={5} className="p-6 text-center text-gray-400">Belum ada lokasi. Absensi tidak diperiksa radiusnya.</td></tr>}
+                {sites.map(site => (
+                   <tr key={site.id} className="border-b hover:bg-gray-50">
+                      <td className="p-3 font-bold text-gray-700">{site.name}</td>
+                      <td className="p-3 font-mono text-sm"><a href={`https://www.google.com/maps?q=${site.lat},${site.lng}`} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">{site.lat}, {site.lng}</a></td>
+                      <td className="p-3 text-sm">{site.radius} m</td>
+                      <td className="p-3"><span className={`text-xs px-2 py-1 rounded-full ${site.policy==='reject'?'bg-red-100 text-red-700':'bg-yellow-100 text-yellow-700'}`}>{site.policy === 'reject' ? 'Tolak' : 'Tandai'}</span></td>
+                      <td className="p-3 text-right"><button onClick={()=>handleDelete(site.id)} className="text-red-500 hover:bg-red-50 p-2 rounded"><Trash2 size={16}/></button></td>
+                   </tr>
+                ))}
+             </tbody>
+          </table>
+       </div>
+    </div>
+  );
+};
+
+// Pilihan dari katalog; nilai lama yang sudah tidak ada di katalog tetap ditampilkan agar tidak hilang diam-diam
+const CatalogSelect: React.FC<{ options: string[]; value: string; onChange: (value: string) => void; empty?: string; className?: string }> = ({ options, value, onChange, empty = '— Belum diatur —', className = 'w-full border p-2 rounded bg-white' }) => (
+  <select value={value} onChange={e => onChange(e.target.value)} className={className}>
+     <option value="">{empty}</option>
+     {(value && !options.includes(value) ? [value, ...options] : options).map(o => <option key={o} value={o}>{o}</option>)}
+  </select>
+);
+
+const RoleSelect: React.FC<{ value: Pick<UserT, 'role' | 'adminRole'>; onChange: (value: Pick<UserT, 'role' | 'adminRole'>) => void; disabled?: boolean }> = ({ value, onChange, disabled }) => (
+  <select value={roleKey(value)} onChange={e => onChange(e.target.value === 'member' ? { role: 'member', adminRole: undefined } : { role: 'admin', adminRole: e.target.value as AdminRole })} disabled={disabled} className="w-full border p-2 rounded bg-white disabled:bg-gray-100">
+     {(Object.keys(ROLE_LABELS) as (keyof typeof ROLE_LABELS)[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+  </select>
+);
+
+const CATALOG_LABELS: Record<keyof OrgCatalog, { title: string; placeholder: string; field: 'department' | 'position' }> = {
+  departments: { title: 'Unit Kerja', placeholder: 'Contoh: Keamanan Gedung A', field: 'department' },
+  positions: { title: 'Jabatan', placeholder: 'Contoh: Komandan Regu', field: 'position' }
+};
+
+// Katalog unit & jabatan. Absensi lama menyimpan salinan nama, jadi menghapus entri tidak mengubah laporan lama.
+const CatalogView: React.FC<{ users: UserT[]; catalog: OrgCatalog; onRefresh: () => void }> = ({ users, catalog, onRefresh }) => {
+  const [names, setNames] = useState({ departments: '', positions: '' });
+  const [search, setSearch] = useState({ departments: '', positions: '' });
+
+  const handleAdd = async (kind: keyof OrgCatalog) => {
+    if (!names[kind].trim()) return alert(`Isi nama ${CATALOG_LABELS[kind].title.toLowerCase()}!`);
+    try {
+      await DatabaseHelper.addCatalogEntry(kind, names[kind]);
+      setNames({ ...names, [kind]: '' });
+      onRefresh();
+    } catch (e) { alert('Gagal menyimpan: ' + (e as Error).message); }
+  };
+
+  const handleDelete = async (kind: keyof OrgCatalog, name: string) => {
+    const used = users.filter(u => u[CATALOG_LABELS[kind].field] === name).length;
+    if (!window.confirm(used > 0 ? `${name} dipakai ${used} user dan akan dikosongkan pada user tersebut. Hapus?` : `Hapus ${name}?`)) return;
+    try {
+      await DatabaseHelper.deleteCatalogEntry(kind, name);
+      onRefresh();
+    } catch (e) { alert('Gagal hapus: ' + (e as Error).message); }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-fade-in">
+       {(Object.keys(CATALOG_LABELS) as (keyof OrgCatalog)[]).map(kind => {
+          const shown = catalog[kind].filter(n => n.toLowerCase().includes(search[kind].trim().toLowerCase()));
+          return (
+             <div key={kind} className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">{CATALOG_LABELS[kind].title}</h2>
+                <div className="flex gap-2 mb-4">
+                   <input value={names[kind]} onChange={e => setNames({ ...names, [kind]: e.target.value })} onKeyDown={e => e.key === 'Enter' && handleAdd(kind)} placeholder={CATALOG_LABELS[kind].placeholder} className="flex-1 border p-2 rounded"/>
+                   <button onClick={() => handleAdd(kind)} className="bg-blue-600 text-white px-4 rounded font-bold hover:bg-blue-700 flex items-center gap-1"><Plus size={16}/> Tambah</button>
+                </div>
+                {catalog[kind].length > 8 && <input value={search[kind]} onChange={e => setSearch({ ...search, [kind]: e.target.value })} placeholder="Cari..." className="w-full border p-2 rounded text-sm mb-2"/>}
+                <ul className="divide-y border-t">
+                   {shown.length === 0 && <li className="p-4 text-center text-gray-400 text-sm">Belum ada data.</li>}
+                   {shown.map(name => (
+                      <li key={name} className="flex items-center justify-between py-2 px-1">
+                         <span className="font-bold text-gray-700">{name}</span>
+                         <span className="flex items-center gap-2"><span className="text-xs text-gray-400">{users.filter(u => u[CATALOG_LABELS[kind].field] === name && !u.deactivatedAt).length} user</span><button onClick={() => handleDelete(kind, name)} className="text-red-500 hover:bg-red-50 p-2 rounded"><Trash2 size={16}/></button></span>
+                      </li>
+                   ))}
+                </ul>
+             </div>
+          );
        })}
     </div>
   );
 };
 
 // ERROR TS2304 FIXED: Fungsi generatePassword sudah didefinisikan di atas dan bisa diakses
+// -------------------- Import User --------------------
+
+interface ImportPreviewRow {
+  line: number; // nomor baris di file, untuk pesan error
+  nip: string;
+  name: string;
+  role: UserT['role'];
+  adminRole?: AdminRole;
+  department?: string;
+  position?: string;
+  errors: string[];
+}
+
+const IMPORT_NAME_HEADERS = ['nama', 'name', 'nama lengkap'];
+const IMPORT_ROLE_HEADERS = ['role', 'peran'];
+const IMPORT_DEPARTMENT_HEADERS = ['unit', 'unit kerja', 'departemen', 'department'];
+const IMPORT_POSITION_HEADERS = ['jabatan', 'position'];
+// "admin" tanpa tingkat = superadmin, sama dengan admin sebelum ada tingkat admin
+const IMPORT_ROLES: Record<string, Pick<UserT, 'role' | 'adminRole'>> = {
+  '': { role: 'member' }, member: { role: 'member' }, anggota: { role: 'member' },
+  admin: { role: 'admin', adminRole: 'superadmin' }, superadmin: { role: 'admin', adminRole: 'superadmin' },
+  supervisor: { role: 'admin', adminRole: 'supervisor' }, auditor: { role: 'admin', adminRole: 'auditor' }
+};
+
+const IMPORT_STATUS_ERRORS: Record<'invalid' | 'duplicate' | 'skipped', string> = {
+  invalid: 'Ditolak server: data tidak lengkap atau unit/jabatan tidak ada di katalog',
+  duplicate: 'NIP sudah terdaftar',
+  skipped: 'Tidak dibuat karena import dibatalkan'
+};
+
+// CSV (termasuk nilai berkutip dan koma di dalam nama) maupun XLSX dibaca lewat SheetJS. Semua sel
+// dibaca sebagai teks agar NIP berawalan 0 tidak berubah jadi angka. Baris judul dikenali dari kolom "NIP";
+// tanpa judul, urutan kolom dianggap NIP, Nama, Role, Unit, Jabatan. Unit & jabatan dicocokkan ke katalog
+// tanpa membedakan huruf besar/kecil dan disimpan dengan ejaan katalog.
+const parseUserImport = async (file: File, existing: UserT[], catalog: OrgCatalog): Promise<ImportPreviewRow[]> => {
+  const wb = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: true });
+  const table = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets[wb.SheetNames[0]], { header: 1, raw: false, defval: '', blankrows: false });
+  const header = (table[0] ?? []).map(h => String(h).trim().toLowerCase());
+  const hasHeader = header.includes('nip');
+  const col = hasHeader
+    ? {
+        nip: header.indexOf('nip'),
+        name: header.findIndex(h => IMPORT_NAME_HEADERS.includes(h)),
+        role: header.findIndex(h => IMPORT_ROLE_HEADERS.includes(h)),
+        department: header.findIndex(h => IMPORT_DEPARTMENT_HEADERS.includes(h)),
+        position: header.findIndex(h => IMPORT_POSITION_HEADERS.includes(h))
+      }
+    : { nip: 0, name: 1, role: 2, department: 3, position: 4 };
+  const fromCatalog = (options: string[], text: string) => options.find(o => o.toLowerCase() === text.toLowerCase());
+
+  const firstLine = new Map<string, number>();
+  return table.slice(hasHeader ? 1 : 0).map((row, i) => {
+    const line = i + (hasHeader ? 2 : 1);
+    const cell = (index: number) => index < 0 ? '' : String(row[index] ?? '').trim();
+    const nip = cell(col.nip);
+    const name = cell(col.name);
+    const roleText = cell(col.role);
+    const role = IMPORT_ROLES[roleText.toLowerCase()];
+    const departmentText = cell(col.department);
+    const positionText = cell(col.position);
+    const department = fromCatalog(catalog.departments, departmentText);
+    const position = fromCatalog(catalog.positions, positionText);
+    const errors: string[] = [];
+    if (!nip) errors.push('NIP kosong');
+    if (!name) errors.push('Nama kosong');
+    if (!role) errors.push(`Role "${roleText}" tidak dikenal (member / admin / supervisor / auditor)`);
+    if (role?.adminRole === 'supervisor' && !department) errors.push('Supervisor wajib punya unit');
+    if (departmentText && !department) errors.push(`Unit "${departmentText}" tidak ada di katalog`);
+    if (positionText && !position) errors.push(`Jabatan "${positionText}" tidak ada di katalog`);
+    if (nip && existing.some(u => u.nip === nip)) errors.push('NIP sudah terdaftar');
+    else if (firstLine.has(nip)) errors.push(`NIP sama dengan baris ${firstLine.get(nip)}`);
+    else if (nip) firstLine.set(nip, line);
+    return { line, nip, name, role: role?.role ?? 'member', adminRole: role?.adminRole, department, position, errors };
+  });
+};
+
+// Password sementara hanya ada di browser admin; file ini satu-satunya salinan untuk dibagikan
+const downloadCredentials = (users: UserImport[]) => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['NIP', 'Nama', 'Role', 'Password Sementara'],
+    ...users.map(u => [u.nip, u.name, ROLE_LABELS[roleKey(u)], u.password])
+  ]);
+  sheet['!cols'] = [{ wch: 14 }, { wch: 28 }, { wch: 10 }, { wch: 20 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, sheet, 'Kredensial');
+  XLSX.writeFile(wb, `Kredensial_User_${idDateToIso(new Date().toLocaleDateString('id-ID'))}.xlsx`);
+};
+
 const UserManagementView: React.FC<{
   users: UserT[];
+  catalog: OrgCatalog;
+  adminUser: UserT;
   onRefresh: () => void;
-}> = ({ users, onRefresh }) => {
+}> = ({ users, catalog, adminUser, onRefresh }) => {
   const [addMode, setAddMode] = useState(false);
-  const [newUser, setNewUser] = useState({ nip: '', name: '', role: 'member' });
-  const [genPass, setGenPass] = useState('');
+  const [newUser, setNewUser] = useState({ nip: '', name: '', role: 'member' as UserT['role'], adminRole: undefined as AdminRole | undefined, department: '', position: '' });
+  const [genPass, setGenPass] = useState<{ title: string; nip: string; password: string } | null>(null);
+  const [locks, setLocks] = useState<AccountLock[]>([]);
+  const [attempts, setAttempts] = useState<AuthAttempt[]>([]);
+  const [showAttempts, setShowAttempts] = useState(false);
+  const [importRows, setImportRows] = useState<ImportPreviewRow[] | null>(null);
+  const [allOrNothing, setAllOrNothing] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [credentials, setCredentials] = useState<UserImport[] | null>(null);
+  const [editing, setEditing] = useState<{ nip: string; form: UserT } | null>(null);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserT['role'] | ''>('');
+  const [statusFilter, setStatusFilter] = useState<'active' | 'inactive' | ''>('active');
+  const [departmentFilter, setDepartmentFilter] = useState('');
+
+  const loadSecurity = () => {
+    DatabaseHelper.getLockedAccounts().then(setLocks);
+    DatabaseHelper.getFailedAttempts().then(setAttempts);
+  };
+
+  useEffect(() => { loadSecurity(); }, []);
+
+  const handleUnlock = async (nip: string) => {
+    try {
+      await DatabaseHelper.unlockAccount(nip);
+      loadSecurity();
+    } catch { alert('Gagal membuka kunci akun.'); }
+  };
   
   const handleAdd = async () => {
     if(!newUser.nip || !newUser.name) return alert('Isi NIP dan Nama!');
+    if (newUser.adminRole === 'supervisor' && !newUser.department) return alert('Supervisor wajib punya unit kerja.');
     try {
         const password = generatePassword();
         await DatabaseHelper.addUser({ 
             nip: newUser.nip, name: newUser.name, 
-            role: newUser.role as 'member'|'admin', 
-            password: password 
-        });
+            role: newUser.role, adminRole: newUser.adminRole,
+            department: newUser.department || undefined, position: newUser.position || undefined
+        }, password);
         alert('User berhasil ditambah!');
-        setGenPass(password); // Tampilkan password ke admin
+        setGenPass({ title: 'User Berhasil Ditambahkan!', nip: newUser.nip, password }); // Tampilkan password ke admin
         setAddMode(false);
         onRefresh();
-    } catch (e) { alert('Gagal tambah user (mungkin NIP duplikat).'); }
+    } catch { alert('Gagal tambah user (mungkin NIP duplikat).'); }
   };
 
-  const handleDelete = async (nip: string) => {
-     if(window.confirm('Hapus user ini?')) {
-        try {
-            await DatabaseHelper.deleteUser(nip);
-            onRefresh();
-        } catch(e) { alert('Gagal hapus user.'); }
-     }
+  const handleReset = async (nip: string) => {
+     if(!window.confirm(`Reset password ${nip}? User wajib mengganti password saat login berikutnya.`)) return;
+     try {
+         const password = generatePassword();
+         await DatabaseHelper.resetPassword(nip, password);
+         setGenPass({ title: 'Password Berhasil Direset!', nip, password });
+     } catch { alert('Gagal reset password.'); }
+  };
+
+  const handleEdit = async () => {
+    if (!editing) return;
+    const { nip, form } = editing;
+    if (!form.nip.trim() || !form.name.trim()) return alert('Isi NIP dan Nama!');
+    if (form.adminRole === 'supervisor' && !form.department) return alert('Supervisor wajib punya unit kerja.');
+    if (form.nip.trim() !== nip && !window.confirm(`Ubah NIP ${nip} menjadi ${form.nip.trim()}? Semua absensi, izin dan jadwal user ikut dipindahkan, dan user harus login ulang dengan NIP baru.`)) return;
+    try {
+      await DatabaseHelper.updateUser(nip, form);
+      setEditing(null);
+      onRefresh();
+    } catch (e) { alert('Gagal menyimpan user: ' + (e as Error).message); }
   };
 
-  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleActive = async (u: UserT, active: boolean) => {
+    if (!active && !window.confirm(`Nonaktifkan ${u.name}? User tidak bisa login lagi, riwayat absensinya tetap tersimpan.`)) return;
+    try {
+      await DatabaseHelper.setUserActive(u.nip, active);
+      onRefresh();
+    } catch (e) { alert('Gagal mengubah status user: ' + (e as Error).message); }
+  };
+
+  const query = search.trim().toLowerCase();
+  const shownUsers = users.filter(u =>
+    (!query || u.nip.toLowerCase().includes(query) || u.name.toLowerCase().includes(query))
+    && (!roleFilter || u.role === roleFilter)
+    && (!departmentFilter || (u.department ?? NO_DEPARTMENT) === departmentFilter)
+    && (!statusFilter || (statusFilter === 'active') === !u.deactivatedAt));
+  const inactiveCount = users.filter(u => u.deactivatedAt).length;
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if(!file) return;
-    const reader = new FileReader();
-    reader.onload = async (evt) => {
-        const text = evt.target?.result as string;
-        const lines = text.split('\n');
-        let count = 0;
-        for(let i=1; i<lines.length; i++) {
-            const row = lines[i].split(',');
-            if(row.length >= 2) {
-                try {
-                    await DatabaseHelper.addUser({ 
-                        nip: row[0].trim(), name: row[1].trim(), 
-                        role: (row[2]?.trim().toLowerCase() === 'admin') ? 'admin' : 'member', 
-                        password: generatePassword() 
-                    });
-                    count++;
-                } catch {}
-            }
-        }
-        alert(`Berhasil import ${count} user.`);
+    e.target.value = ''; // agar file yang sama bisa dipilih lagi setelah diperbaiki
+    if (!file) return;
+    try {
+      const rows = await parseUserImport(file, users, catalog);
+      if (rows.length === 0) return alert('File tidak berisi data user.');
+      setImportRows(rows);
+      setCredentials(null);
+    } catch (err) {
+      console.error("Error Import:", err);
+      alert('File tidak bisa dibaca. Gunakan CSV atau XLSX dengan kolom NIP, Nama, Role (opsional Unit, Jabatan).');
+    }
+  };
+
+  // Server memeriksa ulang setiap baris; baris yang ditolak di sana ditampilkan kembali di pratinjau
+  const handleImport = async () => {
+    if (!importRows) return;
+    const rows = allOrNothing ? importRows : importRows.filter(r => r.errors.length === 0);
+    const payload: UserImport[] = rows.map(r => ({
+      nip: r.nip, name: r.name, role: r.role, adminRole: r.adminRole, department: r.department, position: r.position, password: generatePassword()
+    }));
+    setImporting(true);
+    try {
+      const results = await DatabaseHelper.importUsers(payload, allOrNothing);
+      const created = payload.filter((_, i) => results[i]?.status === 'created');
+      const rejected = rows
+        .map((row, i) => ({ row, status: results[i]?.status }))
+        .filter(({ status }) => status && status !== 'created')
+        .map(({ row, status }) => ({ ...row, errors: [IMPORT_STATUS_ERRORS[status as keyof typeof IMPORT_STATUS_ERRORS]] }));
+      setImportRows(rejected.length > 0 ? rejected : null);
+      if (created.length > 0) {
+        setCredentials(created);
         onRefresh();
-    };
-    reader.readAsText(file);
+      }
+      alert(created.length > 0
+        ? `${created.length} user berhasil dibuat.${rejected.length > 0 ? ` ${rejected.length} baris gagal.` : ''}`
+        : 'Import dibatalkan, tidak ada user yang dibuat.');
+    } catch (err) {
+      alert(`Gagal import user: ${(err as Error).message}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const closeCredentials = () => {
+    if (window.confirm('Password sementara tidak bisa dilihat lagi setelah ditutup. Sudah diunduh?')) setCredentials(null);
   };
 
+  const invalidCount = importRows?.filter(r => r.errors.length > 0).length ?? 0;
+  const importCount = allOrNothing ? (invalidCount > 0 ? 0 : importRows?.length ?? 0) : (importRows?.length ?? 0) - invalidCount;
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6 animate-fade-in">
        <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
           <h2 className="text-xl font-bold text-gray-800">Daftar Pengguna</h2>
           <div className="flex gap-2">
              <button onClick={()=>setAddMode(!addMode)} className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2"><UserPlus size={16}/> Tambah Manual</button>
-             <label className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 cursor-pointer"><Upload size={16}/> Import CSV<input type="file" accept=".csv" className="hidden" onChange={handleImport} /></label>
+             <label className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 cursor-pointer"><Upload size={16}/> Import CSV / Excel<input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleImportFile} /></label>
+             <button onClick={()=>setShowAttempts(!showAttempts)} className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2"><ShieldAlert size={16}/> Log Gagal ({attempts.length})</button>
           </div>
        </div>
 
        {genPass && (
           <div className="bg-green-100 border border-green-200 text-green-800 p-4 rounded-xl mb-6 flex justify-between items-center">
-             <div><p className="font-bold">User Berhasil Ditambahkan!</p><p className="text-sm">Password Generated: <span className="font-mono text-lg font-bold bg-white px-2 rounded">{genPass}</span></p></div>
-             <button onClick={()=>setGenPass('')} className="text-green-600 hover:text-green-800 font-bold">X</button>
+             <div><p className="font-bold">{genPass.title}</p><p className="text-sm">NIP {genPass.nip} • Password Sementara: <span className="font-mono text-lg font-bold bg-white px-2 rounded">{genPass.password}</span></p></div>
+             <button onClick={()=>setGenPass(null)} className="text-green-600 hover:text-green-800 font-bold">X</button>
+          </div>
+       )}
+
+       {credentials && (
+          <div className="bg-green-50 border border-green-200 p-4 rounded-xl mb-6 animate-fade-in">
+             <div className="flex flex-col md:flex-row justify-between md:items-center gap-3 mb-3">
+                <div><p className="font-bold text-green-800">{credentials.length} User Berhasil Diimport</p><p className="text-sm text-green-700">Unduh dan bagikan password sementara sekarang. User wajib menggantinya saat login pertama.</p></div>
+                <div className="flex gap-2">
+                   <button onClick={() => downloadCredentials(credentials)} className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm font-semibold"><FileSpreadsheet size={16}/> Unduh Kredensial</button>
+                   <button onClick={closeCredentials} className="text-green-700 hover:bg-green-100 px-3 rounded-lg"><X size={16}/></button>
+                </div>
+             </div>
+             <div className="max-h-48 overflow-y-auto bg-white rounded-lg border">
+                <table className="w-full text-left text-sm">
+                   <tbody>
+                      {credentials.map(c => <tr key={c.nip} className="border-t first:border-t-0"><td className="p-2 font-mono">{c.nip}</td><td className="p-2">{c.name}</td><td className="p-2 font-mono font-bold">{c.password}</td></tr>)}
+                   </tbody>
+                </table>
+             </div>
+          </div>
+       )}
+
+       {importRows && (
+          <div className="bg-gray-50 p-4 rounded-xl border mb-6 animate-fade-in">
+             <div className="flex flex-col md:flex-row justify-between md:items-center gap-3 mb-3">
+                <div><h3 className="font-bold text-gray-800">Pratinjau Import</h3><p className="text-sm text-gray-500">{importRows.length} baris • {invalidCount > 0 ? <span className="text-red-600 font-bold">{invalidCount} bermasalah</span> : 'semua valid'}</p></div>
+                <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                   <label className="text-sm flex items-center gap-2"><input type="radio" checked={allOrNothing} onChange={() => setAllOrNothing(true)}/> Semua atau tidak sama sekali</label>
+                   <label className="text-sm flex items-center gap-2"><input type="radio" checked={!allOrNothing} onChange={() => setAllOrNothing(false)}/> Lewati baris bermasalah</label>
+                   <button onClick={handleImport} disabled={importing || importCount === 0} className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-green-700 disabled:bg-gray-400">{importing ? 'Mengimport...' : `Import ${importCount} User`}</button>
+                   <button onClick={() => setImportRows(null)} className="px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg">Batal</button>
+                </div>
+             </div>
+             {allOrNothing && invalidCount > 0 && <p className="text-sm text-red-600 mb-3">Perbaiki baris bermasalah di file lalu pilih ulang, atau pilih "Lewati baris bermasalah".</p>}
+             <div className="max-h-72 overflow-y-auto bg-white rounded-lg border">
+                <table className="w-full text-left text-sm">
+                   <thead><tr className="text-gray-500 bg-gray-100"><th className="p-2">Baris</th><th className="p-2">NIP</th><th className="p-2">Nama</th><th className="p-2">Role</th><th className="p-2">Unit / Jabatan</th><th className="p-2">Status</th></tr></thead>
+                   <tbody>
+                      {importRows.map(r => (
+                         <tr key={r.line} className={`border-t ${r.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                            <td className="p-2 text-gray-400">{r.line}</td><td className="p-2 font-mono">{r.nip || '-'}</td><td className="p-2">{r.name || '-'}</td><td className="p-2">{ROLE_LABELS[roleKey(r)]}</td><td className="p-2">{[r.department, r.position].filter(Boolean).join(' • ') || '-'}</td>
+                            <td className="p-2">{r.errors.length > 0 ? <span className="text-red-700 text-xs font-bold">{r.errors.join(', ')}</span> : <span className="text-green-700 text-xs font-bold">OK</span>}</td>
+                         </tr>
+                      ))}
+                   </tbody>
+                </table>
+             </div>
           </div>
        )}
 
@@ -805,23 +3096,79 @@ const UserManagementView: React.FC<{
           <div className="bg-gray-50 p-4 rounded-xl border mb-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end animate-fade-in">
              <div><label className="text-xs font-bold text-gray-500">NIP</label><input value={newUser.nip} onChange={e=>setNewUser({...newUser, nip: e.target.value})} className="w-full border p-2 rounded" placeholder="Contoh: 2024005"/></div>
              <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Nama Lengkap</label><input value={newUser.name} onChange={e=>setNewUser({...newUser, name: e.target.value})} className="w-full border p-2 rounded" placeholder="Contoh: Budi Santoso"/></div>
-             <div><label className="text-xs font-bold text-gray-500">Role</label><select value={newUser.role} onChange={e=>setNewUser({...newUser, role: e.target.value as any})} className="w-full border p-2 rounded bg-white"><option value="member">Member</option><option value="admin">Admin</option></select></div>
+             <div><label className="text-xs font-bold text-gray-500">Role</label><RoleSelect value={newUser} onChange={role => setNewUser({...newUser, ...role})}/></div>
+             <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Unit Kerja</label><CatalogSelect options={catalog.departments} value={newUser.department} onChange={department => setNewUser({...newUser, department})}/></div>
+             <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Jabatan</label><CatalogSelect options={catalog.positions} value={newUser.position} onChange={position => setNewUser({...newUser, position})}/></div>
              <button onClick={handleAdd} className="bg-blue-600 text-white py-2 rounded font-bold hover:bg-blue-700 md:col-span-4">Simpan User</button>
           </div>
        )}
 
+       {editing && (
+          <div className="bg-yellow-50 p-4 rounded-xl border border-yellow-200 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end animate-fade-in">
+             <p className="md:col-span-4 font-bold text-gray-800">Edit User {editing.nip}</p>
+             <div><label className="text-xs font-bold text-gray-500">NIP</label><input value={editing.form.nip} onChange={e=>setEditing({...editing, form: {...editing.form, nip: e.target.value}})} disabled={editing.nip === adminUser.nip} className="w-full border p-2 rounded disabled:bg-gray-100"/></div>
+             <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Nama Lengkap</label><input value={editing.form.name} onChange={e=>setEditing({...editing, form: {...editing.form, name: e.target.value}})} className="w-full border p-2 rounded"/></div>
+             <div><label className="text-xs font-bold text-gray-500">Role</label><RoleSelect value={editing.form} onChange={role => setEditing({...editing, form: {...editing.form, ...role}})} disabled={editing.nip === adminUser.nip}/></div>
+             <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Unit Kerja</label><CatalogSelect options={catalog.departments} value={editing.form.department ?? ''} onChange={department => setEditing({...editing, form: {...editing.form, department}})}/></div>
+             <div className="md:col-span-2"><label className="text-xs font-bold text-gray-500">Jabatan</label><CatalogSelect options={catalog.positions} value={editing.form.position ?? ''} onChange={position => setEditing({...editing, form: {...editing.form, position}})}/></div>
+             {editing.nip === adminUser.nip && <p className="md:col-span-4 text-xs text-gray-500">NIP dan role akun yang sedang dipakai tidak bisa diubah.</p>}
+             <div className="md:col-span-4 flex gap-2">
+                <button onClick={handleEdit} className="flex-1 bg-blue-600 text-white py-2 rounded font-bold hover:bg-blue-700">Simpan Perubahan</button>
+                <button onClick={() => setEditing(null)} className="px-4 py-2 rounded text-gray-600 hover:bg-gray-100">Batal</button>
+             </div>
+          </div>
+       )}
+
+       {showAttempts && (
+          <div className="bg-gray-50 p-4 rounded-xl border mb-6 animate-fade-in">
+             <h3 className="font-bold text-gray-800 mb-3">Percobaan Login / Token Gagal (100 terakhir)</h3>
+             <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-left text-sm">
+                   <thead><tr className="text-gray-500"><th className="p-2">Waktu</th><th className="p-2">NIP</th><th className="p-2">Jenis</th><th className="p-2">Perangkat</th></tr></thead>
+                   <tbody>
+                      {attempts.length === 0 && <tr><td colSpan={4} className="p-4 text-center text-gray-400">Belum ada percobaan gagal.</td></tr>}
+                      {attempts.map(a => (
+                         <tr key={a.id} className="border-t"><td className="p-2">{new Date(a.timestamp).toLocaleString('id-ID')}</td><td className="p-2 font-mono">{a.nip}</td><td className="p-2">{a.kind === 'login' ? 'Login' : 'Token'}</td><td className="p-2 font-mono text-xs text-gray-500">{a.deviceId?.slice(0, 8)}</td></tr>
+                      ))}
+                   </tbody>
+                </table>
+             </div>
+          </div>
+       )}
+
+       <div className="flex flex-col md:flex-row gap-2 mb-4">
+          <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Cari NIP atau nama..." className="border p-2 rounded flex-1"/>
+          <select value={departmentFilter} onChange={e => setDepartmentFilter(e.target.value)} className="border p-2 rounded bg-white"><option value="">Semua Unit</option>{[...catalog.departments, NO_DEPARTMENT].map(d => <option key={d} value={d}>{d}</option>)}</select>
+          <select value={roleFilter} onChange={e => setRoleFilter(e.target.value as UserT['role'] | '')} className="border p-2 rounded bg-white"><option value="">Semua Role</option><option value="member">Member</option><option value="admin">Admin</option></select>
+          <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as 'active' | 'inactive' | '')} className="border p-2 rounded bg-white"><option value="active">Aktif</option><option value="inactive">Nonaktif ({inactiveCount})</option><option value="">Semua Status</option></select>
+       </div>
+
        <div className="overflow-x-auto">
           <table className="w-full text-left border-collapse">
-             <thead><tr className="bg-gray-100 text-gray-600 text-sm"><th className="p-3 rounded-tl-lg">NIP</th><th className="p-3">Nama</th><th className="p-3">Role</th><th className="p-3">Password</th><th className="p-3 rounded-tr-lg text-right">Aksi</th></tr></thead>
+             <thead><tr className="bg-gray-100 text-gray-600 text-sm"><th className="p-3 rounded-tl-lg">NIP</th><th className="p-3">Nama</th><th className="p-3">Unit / Jabatan</th><th className="p-3">Role</th><th className="p-3">Status</th><th className="p-3 rounded-tr-lg text-right">Aksi</th></tr></thead>
              <tbody>
-                {users.map(u => (
-                   <tr key={u.nip} className="border-b hover:bg-gray-50">
-                      <td className="p-3 font-mono text-sm">{u.nip}</td><td className="p-3 font-bold text-gray-700">{u.name}</td>
-                      <td className="p-3"><span className={`text-xs px-2 py-1 rounded-full ${u.role==='admin'?'bg-purple-100 text-purple-700':'bg-blue-100 text-blue-700'}`}>{u.role}</span></td>
-                      <td className="p-3 font-mono text-sm text-gray-500">{u.password}</td>
-                      <td className="p-3 text-right"><button onClick={()=>handleDelete(u.nip)} className="text-red-500 hover:bg-red-50 p-2 rounded"><Trash2 size={16}/></button></td>
+                {shownUsers.length === 0 && <tr><td colSpan={6} className="p-6 text-center text-gray-400">Tidak ada user yang cocok.</td></tr>}
+                {shownUsers.map(u => {
+                   const lock = locks.find(l => l.nip === u.nip);
+                   return (
+                   <tr key={u.nip} className={`border-b hover:bg-gray-50 ${u.deactivatedAt ? 'text-gray-400' : ''}`}>
+                      <td className="p-3 font-mono text-sm">{u.nip}</td><td className={`p-3 font-bold ${u.deactivatedAt ? '' : 'text-gray-700'}`}>{u.name}</td>
+                      <td className="p-3 text-sm">{u.department ?? <span className="text-gray-400">-</span>}<p className="text-xs text-gray-500">{u.position}</p></td>
+                      <td className="p-3"><span className={`text-xs px-2 py-1 rounded-full ${u.role==='admin'?'bg-purple-100 text-purple-700':'bg-blue-100 text-blue-700'}`}>{ROLE_LABELS[roleKey(u)]}</span></td>
+                      <td className="p-3">{u.deactivatedAt
+                        ? <span className="text-xs px-2 py-1 rounded-full bg-gray-200 text-gray-600 font-bold">Nonaktif sejak {new Date(u.deactivatedAt).toLocaleDateString('id-ID')}</span>
+                        : lock ? <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-700 font-bold flex items-center w-fit"><Lock size={10} className="mr-1"/> Terkunci s/d {formatClock(lock.lockedUntil)}</span> : <span className="text-xs text-gray-400">Aktif</span>}</td>
+                      <td className="p-3 text-right whitespace-nowrap">
+                         {lock && !u.deactivatedAt && <button onClick={()=>handleUnlock(u.nip)} className="text-blue-600 hover:bg-blue-50 p-2 rounded" title="Buka Kunci"><LockOpen size={16}/></button>}
+                         <button onClick={()=>setEditing({ nip: u.nip, form: { nip: u.nip, name: u.name, role: u.role, adminRole: u.adminRole, department: u.department, position: u.position } })} className="text-gray-500 hover:bg-gray-100 p-2 rounded" title="Edit User"><Edit2 size={16}/></button>
+                         {!u.deactivatedAt && <button onClick={()=>handleReset(u.nip)} className="text-gray-500 hover:bg-gray-100 p-2 rounded" title="Reset Password"><Key size={16}/></button>}
+                         {u.nip !== adminUser.nip && (u.deactivatedAt
+                           ? <button onClick={()=>handleActive(u, true)} className="text-green-600 hover:bg-green-50 p-2 rounded" title="Aktifkan Kembali"><RotateCcw size={16}/></button>
+                           : <button onClick={()=>handleActive(u, false)} className="text-red-500 hover:bg-red-50 p-2 rounded" title="Nonaktifkan"><Ban size={16}/></button>)}
+                      </td>
                    </tr>
-                ))}
+                   );
+                })}
              </tbody>
           </table>
        </div>
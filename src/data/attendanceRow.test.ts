@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { type AttendanceRow, mapAttendance } from './attendanceRow';
+
+const row = (overrides: Partial<AttendanceRow> = {}): AttendanceRow => ({
+  id: 'a1', user_id: '2001', user_name: 'Budi', department: 'Keamanan', date: '19/10/2026', time: '07.45.00',
+  position: 'Staff IT', photo: null, photo_path: '2001/foto.jpg', photo_thumb_url: 'https://cdn/thumb.jpg',
+  description: 'Piket pagi', location_lat: -6.2, location_lng: 106.8,
+  check_out_time: null, check_out_photo: null, check_out_photo_path: null, check_out_lat: null, check_out_lng: null,
+  early_leave_minutes: null, work_minutes: null, site_id: null, site_name: null, distance_m: null, inside_geofence: null,
+  session_id: null, schedule_status: null, late_minutes: null, shift_name: null, shift_end: null,
+  client_id: null, captured_at: null, created_at: '2026-10-19T00:45:00Z', invalid_reason: null, manual: false, edit_history: [],
+  ...overrides
+});
+
+describe('mapAttendance', () => {
+  it('memakai URL storage untuk foto yang sudah diunggah', () => {
+    const mapped = mapAttendance(row());
+    expect(mapped.photo).toContain('2001/foto.jpg');
+    expect(mapped.thumbnail).toBe('https://cdn/thumb.jpg');
+    expect(mapped.checkOut).toBeUndefined();
+  });
+
+  // Laporan PDF memanggil photo.startsWith untuk setiap baris
+  it('memetakan absen manual tanpa foto dan GPS seperti backend memori', () => {
+    const mapped = mapAttendance(row({
+      photo_path: null, photo_thumb_url: null, location_lat: null, location_lng: null, manual: true, check_out_time: '16.00.00'
+    }));
+    expect(mapped.photo).toBe('');
+    expect(mapped.thumbnail).toBeUndefined();
+    expect(mapped.location).toEqual({ lat: 0, lng: 0 });
+    expect(mapped.checkOut).toEqual({ time: '16.00.00', photo: undefined, location: { lat: 0, lng: 0 }, earlyLeaveMinutes: undefined });
+    expect(mapped.manual).toBe(true);
+  });
+});
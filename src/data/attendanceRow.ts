@@ -0,0 +1,84 @@
+import type { AttendanceRecord, EditHistory, ScheduleResult } from '../types';
+import { photoStore } from './photoStorage';
+
+// Baris tabel attendances. Kolom yang boleh kosong bernilai null dari PostgREST;
+// absen manual (014) tidak punya foto maupun GPS.
+export interface AttendanceRow {
+  id: string;
+  user_id: string;
+  user_name: string;
+  department: string | null;
+  date: string;
+  time: string;
+  position: string;
+  photo: string | null; // data URL lama, dikosongkan setelah dimigrasi ke storage
+  photo_url?: string | null; // kolom versi awal
+  photo_path: string | null;
+  photo_thumb_url: string | null;
+  description: string;
+  location_lat: number | null;
+  location_lng: number | null;
+  check_out_time: string | null;
+  check_out_photo: string | null;
+  check_out_photo_path: string | null;
+  check_out_lat: number | null;
+  check_out_lng: number | null;
+  early_leave_minutes: number | null;
+  work_minutes: number | null;
+  site_id: string | null;
+  site_name: string | null;
+  distance_m: number | null;
+  inside_geofence: boolean | null;
+  session_id: string | null;
+  schedule_status: ScheduleResult['status'] | null;
+  late_minutes: number | null;
+  shift_name: string | null;
+  shift_end: string | null;
+  client_id: string | null;
+  captured_at: string | null;
+  created_at: string;
+  invalid_reason: string | null;
+  manual: boolean | null;
+  edit_history: EditHistory[] | null;
+}
+
+// Baris tanpa foto/GPS dipetakan sama dengan absen manual di memoryRepository: foto '' dan lokasi 0
+export const mapAttendance = (item: AttendanceRow): AttendanceRecord => ({
+  id: item.id,
+  userId: item.user_id,
+  userName: item.user_name,
+  department: item.department ?? undefined,
+  date: item.date,
+  time: item.time,
+  position: item.position,
+  photo: item.photo_path ? photoStore.publicUrl(item.photo_path) : item.photo_url || item.photo || '',
+  thumbnail: item.photo_thumb_url || undefined,
+  description: item.description,
+  location: { lat: item.location_lat ?? 0, lng: item.location_lng ?? 0 },
+  checkOut: item.check_out_time ? {
+    time: item.check_out_time,
+    photo: item.check_out_photo_path ? photoStore.publicUrl(item.check_out_photo_path) : item.check_out_photo || undefined,
+    location: { lat: item.check_out_lat ?? 0, lng: item.check_out_lng ?? 0 },
+    earlyLeaveMinutes: item.early_leave_minutes ?? undefined
+  } : undefined,
+  workMinutes: item.work_minutes ?? undefined,
+  geofence: item.site_id ? {
+    siteId: item.site_id,
+    siteName: item.site_name ?? '',
+    distance: item.distance_m ?? 0,
+    inside: !!item.inside_geofence
+  } : undefined,
+  sessionId: item.session_id ?? undefined,
+  schedule: item.schedule_status ? {
+    status: item.schedule_status,
+    lateMinutes: item.late_minutes ?? 0,
+    shiftName: item.shift_name || undefined,
+    shiftEnd: item.shift_end || undefined
+  } : undefined,
+  clientId: item.client_id ?? undefined,
+  capturedAt: item.captured_at ?? undefined,
+  receivedAt: item.created_at,
+  invalidReason: item.invalid_reason ?? undefined,
+  manual: item.manual || undefined,
+  editHistory: item.edit_history || []
+});
@@ -0,0 +1,21 @@
+import type { AttendanceRepository } from './repository';
+import { supabaseRepository } from './supabaseRepository';
+import { createMemoryRepository } from './memoryRepository';
+
+export {
+  ATTENDANCE_PAGE_SIZE, canComment, canManage, classifyCheckIn, classifyLocation, minutesBetween, NetworkError, pickSchedule, timeToMinutes,
+  unitScope
+} from './repository';
+export type { UserImport } from './repository';
+export { PHOTO_MAX_SIZE } from './photoStorage';
+
+// VITE_DATA_BACKEND: 'supabase' (default) | 'memory' (hilang saat reload) | 'local' (disimpan di localStorage).
+// Backend lokal dimulai dengan satu admin (NIP "admin", password "admin") yang wajib ganti password.
+const backend = import.meta.env.VITE_DATA_BACKEND;
+
+export const DatabaseHelper: AttendanceRepository = backend === 'memory' || backend === 'local'
+  ? createMemoryRepository({
+      storage: backend === 'local' ? localStorage : undefined,
+      seedUsers: [{ nip: 'admin', name: 'Administrator', role: 'admin', adminRole: 'superadmin', password: 'admin', mustChangePassword: true }]
+    })
+  : supabaseRepository;
@@ -0,0 +1,686 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { AttendanceRecord } from '../types';
+import { createMemoryRepository } from './memoryRepository';
+import type { AttendanceRepository } from './repository';
+
+const ADMIN = { nip: '1001', name: 'Admin Satu', role: 'admin' as const, password: 'Admin123' };
+const MEMBER = { nip: '2001', name: 'Budi', role: 'member' as const, password: 'Budi1234' };
+const SARI = { nip: '2002', name: 'Sari', role: 'member' as const, password: 'Sari1234' };
+
+let clock: Date;
+let repo: AttendanceRepository;
+
+const advance = (seconds: number) => { clock = new Date(clock.getTime() + seconds * 1000); };
+
+const record = (overrides: Partial<AttendanceRecord> = {}): AttendanceRecord => ({
+  id: '',
+  userId: MEMBER.nip,
+  userName: MEMBER.name,
+  date: '19/10/2026',
+  time: '07.45.00',
+  position: 'Staff IT',
+  photo: 'data:image/jpeg;base64,AAAA',
+  description: 'Piket pagi',
+  location: { lat: -6.2, lng: 106.8 },
+  editHistory: [],
+  ...overrides
+});
+
+// Anggota login lalu memindai QR dari superadmin; izin absennya tercatat dan anggota tetap login
+const passQr = async (user: { nip: string; password: string } = MEMBER, target = repo) => {
+  await target.login(ADMIN.nip, ADMIN.password, 'admin');
+  const qr = await target.issueQrToken();
+  await target.login(user.nip, user.password, 'member');
+  expect(await target.verifyQrToken(qr)).toBe('ok');
+};
+
+// Absen masuk lewat alur lengkap, lalu keluar lagi
+const checkIn = async (user: { nip: string; password: string } = MEMBER, overrides: Partial<AttendanceRecord> = {}, target = repo) => {
+  await passQr(user, target);
+  await target.addAttendance(record(overrides));
+  await target.logout();
+};
+
+beforeEach(() => {
+  clock = new Date(2026, 9, 19, 8, 0, 0);
+  repo = createMemoryRepository({ seedUsers: [ADMIN, MEMBER, SARI], now: () => new Date(clock) });
+});
+
+describe('login', () => {
+  it('menerima password yang benar dan mengembalikan data user', async () => {
+    const res = await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(res.status).toBe('ok');
+    expect(res.user).toEqual({ nip: MEMBER.nip, name: MEMBER.name, role: 'member', mustChangePassword: false });
+  });
+
+  it('menolak password salah dan role yang tidak cocok', async () => {
+    expect((await repo.login(MEMBER.nip, 'salah', 'member')).status).toBe('invalid');
+    expect((await repo.login(MEMBER.nip, MEMBER.password, 'admin')).status).toBe('invalid');
+  });
+
+  it('memberi jeda setelah 3 kali gagal dan mengunci setelah 5 kali gagal', async () => {
+    for (let i = 0; i < 3; i++) await repo.login(MEMBER.nip, 'salah', 'member');
+    expect(await repo.login(MEMBER.nip, MEMBER.password, 'member')).toEqual({ status: 'delay', waitSeconds: 1 });
+
+    advance(2);
+    await repo.login(MEMBER.nip, 'salah', 'member');
+    advance(3);
+    await repo.login(MEMBER.nip, 'salah', 'member');
+    const locked = await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(locked.status).toBe('locked');
+    // Tanpa sesi admin kunci tidak bisa dibuka dan daftarnya tidak terlihat
+    expect(await repo.getLockedAccounts()).toEqual([]);
+    await expect(repo.unlockAccount(MEMBER.nip)).rejects.toThrow('Akses ditolak');
+
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    expect(await repo.getLockedAccounts()).toEqual([expect.objectContaining({ nip: MEMBER.nip, kind: 'login' })]);
+
+    await repo.unlockAccount(MEMBER.nip);
+    expect((await repo.login(MEMBER.nip, MEMBER.password, 'member')).status).toBe('ok');
+  });
+
+  it('hanya admin yang bisa melihat dan menambah user', async () => {
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(await repo.getUsers()).toEqual([]);
+    await expect(repo.addUser({ nip: '3001', name: 'Citra', role: 'member' }, 'Rahasia1')).rejects.toThrow('Akses ditolak');
+
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addUser({ nip: '3001', name: 'Citra', role: 'member' }, 'Rahasia1');
+    expect((await repo.getUsers()).map(u => u.nip)).toEqual([ADMIN.nip, MEMBER.nip, '3001', SARI.nip]);
+    await expect(repo.addUser({ nip: '3001', name: 'Citra', role: 'member' }, 'Rahasia1')).rejects.toThrow();
+  });
+
+  it('user baru wajib mengganti password sebelum bisa memakai fitur admin', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addUser({ nip: '1002', name: 'Admin Dua', role: 'admin' }, 'Sementara1');
+
+    const res = await repo.login('1002', 'Sementara1', 'admin');
+    expect(res.user?.mustChangePassword).toBe(true);
+    await expect(repo.issueQrToken()).rejects.toThrow('Akses ditolak');
+
+    expect(await repo.changePassword('Sementara1', 'lemah')).toBe('weak');
+    expect(await repo.changePassword('keliru', 'Baru12345')).toBe('wrong_password');
+    expect(await repo.changePassword('Sementara1', 'Baru12345')).toBe('ok');
+    await expect(repo.issueQrToken()).resolves.toMatch(/^absen\.v1\./);
+  });
+
+  it('sesi berakhir setelah logout', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.logout();
+    expect(await repo.getUsers()).toEqual([]);
+  });
+});
+
+// Sesi absensi hanya bisa dibuka, dilihat dan ditutup superadmin; setelahnya anggota login kembali
+const asAdmin = async <T>(action: () => Promise<T>) => {
+  await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+  const result = await action();
+  await repo.login(MEMBER.nip, MEMBER.password, 'member');
+  return result;
+};
+
+const openSession = (overrides: { startsAt?: Date; endsAt?: Date; singleUse?: boolean } = {}) => asAdmin(async () => {
+  await repo.openSession({
+    label: 'Apel Pagi',
+    code: 'ABC123',
+    startsAt: (overrides.startsAt ?? new Date(2026, 9, 19, 7, 0)).toISOString(),
+    endsAt: (overrides.endsAt ?? new Date(2026, 9, 19, 9, 0)).toISOString(),
+    singleUse: overrides.singleUse ?? true
+  });
+  const sessions = await repo.getTodaySessions();
+  return sessions[sessions.length - 1];
+});
+
+describe('validasi token', () => {
+  beforeEach(async () => {
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+  });
+
+  it('hanya bisa dipakai setelah login', async () => {
+    await repo.logout();
+    await expect(repo.redeemToken('ABC123')).rejects.toThrow('Akses ditolak');
+  });
+
+  it('menerima kode sesi yang sedang buka', async () => {
+    const session = await openSession();
+    expect(await repo.redeemToken('ABC123')).toEqual({ status: 'ok', sessionId: session.id, waitSeconds: 0 });
+  });
+
+  it('membedakan kode salah, belum buka, kedaluwarsa dan ditutup', async () => {
+    expect((await repo.redeemToken('ZZZ999')).status).toBe('invalid');
+
+    const session = await openSession({ startsAt: new Date(2026, 9, 19, 10, 0), endsAt: new Date(2026, 9, 19, 11, 0) });
+    expect((await repo.redeemToken('ABC123')).status).toBe('not_open');
+
+    advance(4 * 3600);
+    expect((await repo.redeemToken('ABC123')).status).toBe('expired');
+
+    await asAdmin(() => repo.closeSession(session.id));
+    expect((await repo.redeemToken('ABC123')).status).toBe('closed');
+  });
+
+  it('kode sekali pakai tidak bisa dipakai lagi setelah absen', async () => {
+    await openSession();
+    const { sessionId } = await repo.redeemToken('ABC123');
+    await repo.addAttendance(record({ sessionId }));
+    expect((await repo.redeemToken('ABC123')).status).toBe('used');
+  });
+
+  it('hanya superadmin yang bisa membuka, melihat dan menutup sesi', async () => {
+    const session = await openSession();
+    await expect(repo.openSession({ ...session, code: 'XYZ789' })).rejects.toThrow('Akses ditolak');
+    await expect(repo.closeSession(session.id)).rejects.toThrow('Akses ditolak');
+    expect(await repo.getTodaySessions()).toEqual([]);
+  });
+
+  it('menjeda tebakan kode yang salah berturut-turut', async () => {
+    for (let i = 0; i < 3; i++) await repo.redeemToken('SALAH1');
+    expect((await repo.redeemToken('SALAH1')).status).toBe('delay');
+  });
+
+  it('QR hanya berlaku 30 detik dan tidak bisa dipalsukan', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    const qr = await repo.issueQrToken();
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(await repo.verifyQrToken(qr)).toBe('ok');
+    expect(await repo.verifyQrToken(qr.replace(/.$/, c => (c === '0' ? '1' : '0')))).toBe('invalid');
+    expect(await repo.verifyQrToken('bukan-qr')).toBe('invalid');
+    advance(31);
+    expect(await repo.verifyQrToken(qr)).toBe('expired');
+  });
+});
+
+describe('penanda lolos token', () => {
+  beforeEach(async () => {
+    await openSession();
+  });
+
+  it('dicatat per sesi login setelah token diterima', async () => {
+    expect(await repo.getTokenPass()).toBeNull();
+    const { sessionId } = await repo.redeemToken('ABC123');
+    expect(await repo.getTokenPass()).toEqual({ sessionId });
+  });
+
+  it('berakhir setelah 15 menit atau setelah dihapus', async () => {
+    await repo.redeemToken('ABC123');
+    advance(16 * 60);
+    expect(await repo.getTokenPass()).toBeNull();
+
+    await repo.redeemToken('ABC123');
+    await repo.clearTokenPass();
+    expect(await repo.getTokenPass()).toBeNull();
+  });
+
+  it('tidak berlaku untuk sesi login lain', async () => {
+    await repo.redeemToken('ABC123');
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(await repo.getTokenPass()).toBeNull();
+  });
+});
+
+describe('pengiriman absensi', () => {
+  it('menyimpan absen dengan waktu diterima dan bisa difilter per tanggal, anggota dan teks', async () => {
+    clock = new Date(2026, 9, 18, 8, 0, 0);
+    await checkIn();
+    clock = new Date(2026, 9, 19, 8, 0, 0);
+    await checkIn();
+    await checkIn(SARI, { position: 'Keuangan', description: 'Rapat anggaran' });
+
+    const today = await repo.getAttendances({ from: '2026-10-19', to: '2026-10-19' });
+    expect(today).toHaveLength(2);
+    expect(today[0].id).not.toBe('');
+    expect(today[0].receivedAt).toBe(clock.toISOString());
+
+    expect(await repo.getAttendances({ userId: MEMBER.nip })).toHaveLength(2);
+    expect((await repo.getAttendances({ search: 'anggaran' })).map(a => a.userName)).toEqual(['Sari']);
+    expect((await repo.getAttendances({ position: 'keu' })).map(a => a.userName)).toEqual(['Sari']);
+    expect(await repo.getDailyCounts('2026-10-01', '2026-10-31')).toEqual([{ day: '2026-10-19', total: 2 }, { day: '2026-10-18', total: 1 }]);
+  });
+
+  it('menolak absen tanpa login atau tanpa izin dari token/QR, dan memakai NIP dari sesi login', async () => {
+    await expect(repo.addAttendance(record())).rejects.toThrow('Akses ditolak');
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await expect(repo.addAttendance(record())).rejects.toThrow('Token absen belum divalidasi');
+
+    await passQr();
+    await expect(repo.addAttendance(record({ sessionId: 'sesi-lain' }))).rejects.toThrow('Token absen belum divalidasi');
+    await repo.addAttendance(record({ userId: SARI.nip, userName: SARI.name }));
+    // Satu izin untuk satu absen
+    await expect(repo.addAttendance(record())).rejects.toThrow('Token absen belum divalidasi');
+    expect((await repo.getAttendances()).map(a => [a.userId, a.userName])).toEqual([[MEMBER.nip, MEMBER.name]]);
+  });
+
+  it('izin absen berlaku 1 hari, jadi antrean offline yang lebih lama ditolak', async () => {
+    await passQr();
+    advance(25 * 3600);
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await expect(repo.addAttendance(record({ clientId: 'c-1' }))).rejects.toThrow('Token absen belum divalidasi');
+  });
+
+  it('mengabaikan kiriman ulang dari antrean offline dengan client ID yang sama', async () => {
+    await passQr();
+    advance(60);
+    await repo.addAttendance(record({ clientId: 'c-1', capturedAt: new Date(2026, 9, 19, 8, 0, 30).toISOString() }));
+    await repo.addAttendance(record({ clientId: 'c-1', capturedAt: new Date(2026, 9, 19, 8, 0, 30).toISOString() }));
+    const rows = await repo.getAttendances();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].capturedAt).toBe(new Date(2026, 9, 19, 8, 0, 30).toISOString());
+  });
+
+  it('menentukan tanggal, jam dan status jadwal dari jam pengambilan yang dibatasi', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addSchedule({ name: 'Kantor', type: 'fixed', shifts: [{ name: 'Pagi', start: '07:30', end: '16:00' }], workDays: [1, 2, 3, 4, 5], graceMinutes: 5 });
+    const [schedule] = await repo.getSchedules();
+    await repo.assignSchedule('all', '', schedule.id);
+    await repo.logout();
+
+    clock = new Date(2026, 9, 19, 7, 40, 0);
+    await passQr();
+    advance(20 * 60);
+    const onTime = { status: 'on_time' as const, lateMinutes: 0 };
+    await repo.addAttendance(record({ clientId: 'c-1', date: '1/1/2026', time: '07.00.00', schedule: onTime, capturedAt: new Date(2026, 9, 19, 7, 50).toISOString() }));
+    await passQr();
+    await repo.addAttendance(record({ clientId: 'c-2', schedule: onTime, capturedAt: new Date(2026, 9, 17, 7, 30).toISOString() }));
+    await passQr();
+    await repo.addAttendance(record({ clientId: 'c-3', schedule: onTime, capturedAt: new Date(2026, 9, 20, 7, 30).toISOString() }));
+    const rows = await repo.getAttendances();
+    const byClient = (id: string) => rows.find(r => r.clientId === id);
+    expect(byClient('c-1')).toMatchObject({ date: '19/10/2026', time: '07.50.00', schedule: { status: 'late', lateMinutes: 15, shiftName: 'Pagi', shiftEnd: '16:00' } });
+    // Sebelum token/QR lolos atau di masa depan: dipotong ke batasnya
+    expect(byClient('c-2')).toMatchObject({ date: '19/10/2026', time: '08.00.00' });
+    expect(byClient('c-3')).toMatchObject({ date: '19/10/2026', time: '08.00.00', capturedAt: clock.toISOString() });
+  });
+
+  it('menghitung geofence sendiri dan menolak absen di luar lokasi berkebijakan tolak', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addOfficeLocation({ name: 'Kantor Pusat', lat: -6.2, lng: 106.8, radius: 100, policy: 'reject' });
+    await repo.logout();
+
+    const fake = { siteId: 'x', siteName: 'Palsu', distance: 0, inside: true };
+    await expect(checkIn(MEMBER, { location: { lat: -6.21, lng: 106.8 }, geofence: fake })).rejects.toThrow('Di luar area Kantor Pusat');
+    await checkIn(MEMBER, { location: { lat: -6.2005, lng: 106.8 }, geofence: fake });
+    const [saved] = await repo.getAttendances();
+    expect(saved.geofence).toMatchObject({ siteName: 'Kantor Pusat', distance: 56, inside: true });
+  });
+
+  it('membagi hasil per halaman', async () => {
+    for (let d = 1; d <= 5; d++) {
+      clock = new Date(2026, 9, d, 8, 0, 0);
+      await checkIn();
+    }
+    const page = await repo.queryAttendances({ userId: MEMBER.nip }, 1, 2);
+    expect(page.total).toBe(5);
+    expect(page.rows.map(r => r.date)).toEqual(['3/10/2026', '2/10/2026']);
+  });
+
+  it('mencatat absen pulang pada data yang sama, hanya oleh pemiliknya dan hanya sekali', async () => {
+    await checkIn();
+    const [saved] = await repo.getAttendances();
+    const checkOut = { time: '16.05.00', location: { lat: -6.2, lng: 106.8 } };
+    await expect(repo.addCheckOut(saved.id, checkOut, 500)).rejects.toThrow('Akses ditolak');
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await expect(repo.addCheckOut(saved.id, checkOut, 500)).rejects.toThrow('Akses ditolak');
+
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await repo.addCheckOut(saved.id, checkOut, 500);
+    const [updated] = await repo.getAttendances();
+    expect(updated.checkOut?.time).toBe('16.05.00');
+    expect(updated.workMinutes).toBe(500);
+    await expect(repo.addCheckOut(saved.id, { ...checkOut, time: '17.00.00' }, 560)).rejects.toThrow('Sudah absen pulang');
+  });
+});
+
+describe('pengajuan izin', () => {
+  it('hanya bisa diajukan setelah login, atas nama user yang login', async () => {
+    const leave = { type: 'izin' as const, startDate: '2026-10-20', endDate: '2026-10-20', reason: 'Keperluan keluarga', userId: SARI.nip, userName: SARI.name };
+    await expect(repo.addLeaveRequest(leave)).rejects.toThrow('Akses ditolak');
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await repo.addLeaveRequest(leave);
+    expect((await repo.getLeaveRequests()).map(l => [l.userId, l.userName])).toEqual([[MEMBER.nip, MEMBER.name]]);
+  });
+});
+
+describe('import user', () => {
+  const rows = [
+    { nip: '3001', name: 'Andi', role: 'member' as const, password: 'Andi01' },
+    { nip: MEMBER.nip, name: 'Budi Lagi', role: 'member' as const, password: 'x1' },
+    { nip: '3001', name: 'Andi Dobel', role: 'member' as const, password: 'x2' },
+    { nip: '3002', name: ' ', role: 'member' as const, password: 'x3' }
+  ];
+
+  beforeEach(async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+  });
+
+  it('sebagian: membuat baris yang valid dan melaporkan baris yang gagal', async () => {
+    expect(await repo.importUsers(rows, false)).toEqual([
+      { nip: '3001', status: 'created' },
+      { nip: MEMBER.nip, status: 'duplicate' },
+      { nip: '3001', status: 'duplicate' },
+      { nip: '3002', status: 'invalid' }
+    ]);
+    expect((await repo.getUsers()).map(u => u.nip)).toContain('3001');
+    await repo.logout();
+    expect((await repo.login('3001', 'Andi01', 'member')).user?.mustChangePassword).toBe(true);
+  });
+
+  it('semua-atau-tidak: tidak membuat user apa pun jika ada baris gagal', async () => {
+    const results = await repo.importUsers(rows, true);
+    expect(results[0]).toEqual({ nip: '3001', status: 'skipped' });
+    expect((await repo.getUsers()).map(u => u.nip)).not.toContain('3001');
+    expect(await repo.importUsers([rows[0]], true)).toEqual([{ nip: '3001', status: 'created' }]);
+  });
+});
+
+describe('siklus user', () => {
+  beforeEach(async () => {
+    await checkIn();
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+  });
+
+  it('koreksi NIP dan nama ikut mengubah absensi dan jadwal khusus', async () => {
+    await repo.assignSchedule('user', MEMBER.nip, 'sch-1');
+    await repo.updateUser(MEMBER.nip, { nip: '2003', name: 'Budi Santoso', role: 'member' });
+    expect((await repo.getUsers()).map(u => u.nip)).toEqual([ADMIN.nip, '2003', SARI.nip]);
+    const [saved] = await repo.getAttendances();
+    expect(saved).toMatchObject({ userId: '2003', userName: 'Budi Santoso' });
+    expect((await repo.getScheduleAssignments())[0]).toMatchObject({ targetType: 'user', target: '2003' });
+    await repo.logout();
+    expect((await repo.login(MEMBER.nip, MEMBER.password, 'member')).status).toBe('invalid');
+  });
+
+  it('menolak NIP yang sudah dipakai dan perubahan role akun sendiri', async () => {
+    await expect(repo.updateUser(MEMBER.nip, { ...MEMBER, nip: ADMIN.nip })).rejects.toThrow('sudah terdaftar');
+    await expect(repo.updateUser(ADMIN.nip, { ...ADMIN, role: 'member' })).rejects.toThrow();
+    await expect(repo.setUserActive(ADMIN.nip, false)).rejects.toThrow();
+  });
+
+  it('user nonaktif tidak bisa login, riwayat tetap ada', async () => {
+    await repo.setUserActive(MEMBER.nip, false);
+    expect((await repo.getUsers()).find(u => u.nip === MEMBER.nip)?.deactivatedAt).toBe(clock.toISOString());
+    expect(await repo.getAttendances()).toHaveLength(1);
+    await repo.logout();
+    expect((await repo.login(MEMBER.nip, MEMBER.password, 'member')).status).toBe('inactive');
+
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.setUserActive(MEMBER.nip, true);
+    await repo.logout();
+    expect((await repo.login(MEMBER.nip, MEMBER.password, 'member')).status).toBe('ok');
+  });
+});
+
+describe('unit & jabatan', () => {
+  beforeEach(async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addCatalogEntry('departments', 'Keamanan');
+    await repo.addCatalogEntry('positions', 'Staff IT');
+  });
+
+  it('katalog menolak nama dobel dan user hanya boleh memakai entri katalog', async () => {
+    await expect(repo.addCatalogEntry('positions', 'staff it')).rejects.toThrow('sudah ada');
+    await expect(repo.updateUser(MEMBER.nip, { ...MEMBER, department: 'Gudang' })).rejects.toThrow('tidak ada di katalog');
+    await repo.updateUser(MEMBER.nip, { ...MEMBER, department: 'Keamanan', position: 'Staff IT' });
+    await repo.logout();
+    expect((await repo.login(MEMBER.nip, MEMBER.password, 'member')).user).toMatchObject({ department: 'Keamanan', position: 'Staff IT' });
+  });
+
+  it('unit disalin ke absensi saat dibuat dan bisa dipakai sebagai filter', async () => {
+    await repo.updateUser(MEMBER.nip, { ...MEMBER, department: 'Keamanan' });
+    await checkIn();
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.deleteCatalogEntry('departments', 'Keamanan');
+    expect((await repo.getUsers()).find(u => u.nip === MEMBER.nip)?.department).toBeUndefined();
+    expect(await repo.getAttendances({ department: 'Keamanan' })).toHaveLength(1);
+    expect(await repo.getAttendances({ department: 'Gudang' })).toHaveLength(0);
+  });
+});
+
+describe('tingkat admin', () => {
+  const SUPERVISOR = { nip: '1002', name: 'Supervisor Keamanan', role: 'admin' as const, adminRole: 'supervisor' as const, department: 'Keamanan', password: 'Super123' };
+  const AUDITOR = { nip: '1003', name: 'Auditor', role: 'admin' as const, adminRole: 'auditor' as const, password: 'Audit123' };
+  let ownId: string;
+  let otherId: string;
+
+  beforeEach(async () => {
+    repo = createMemoryRepository({
+      seedUsers: [
+        ADMIN, { ...MEMBER, department: 'Keamanan' }, { ...SARI, department: 'Gudang' }, SUPERVISOR, AUDITOR
+      ],
+      now: () => new Date(clock)
+    });
+    await checkIn();
+    await checkIn(SARI);
+    ownId = (await repo.getAttendances({ userId: MEMBER.nip }))[0].id;
+    otherId = (await repo.getAttendances({ userId: SARI.nip }))[0].id;
+  });
+
+  it('supervisor hanya melihat dan mengomentari absensi anggota unitnya', async () => {
+    expect((await repo.login(SUPERVISOR.nip, SUPERVISOR.password, 'admin')).user).toMatchObject({ adminRole: 'supervisor', department: 'Keamanan' });
+    expect((await repo.getAttendances()).map(a => a.userId)).toEqual([MEMBER.nip]);
+    expect(await repo.getAttendance(otherId)).toBeNull();
+    expect((await repo.getUsers()).map(u => u.nip)).toEqual([MEMBER.nip, SUPERVISOR.nip]);
+
+    await repo.addComment(ownId, 'Seragam tidak lengkap');
+    await expect(repo.addComment(otherId, 'x')).rejects.toThrow('Akses ditolak');
+    await expect(repo.setAttendanceValidity(ownId, true, 'x')).rejects.toThrow('Akses ditolak');
+    await expect(repo.addCatalogEntry('departments', 'Gudang')).rejects.toThrow('Akses ditolak');
+  });
+
+  it('auditor melihat semua laporan tanpa bisa mengubah data atau berkomentar', async () => {
+    await repo.login(AUDITOR.nip, AUDITOR.password, 'admin');
+    expect(await repo.getAttendances()).toHaveLength(2);
+    expect(await repo.getUsers()).toHaveLength(5);
+    await expect(repo.addComment(ownId, 'x')).rejects.toThrow('Akses ditolak');
+    await expect(repo.correctAttendance(ownId, { time: '08.00.00', position: 'Staff IT', description: 'x' }, 'x')).rejects.toThrow('Akses ditolak');
+    await expect(repo.addUser({ nip: '3001', name: 'Citra', role: 'member' }, 'Rahasia1')).rejects.toThrow('Akses ditolak');
+    await expect(repo.addCheckOut(ownId, { time: '16.00.00', location: { lat: 0, lng: 0 } }, 495)).rejects.toThrow('Akses ditolak');
+  });
+
+  it('auditor tidak bisa mengelola sesi absensi atau keamanan login', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.openSession({ label: 'Apel Pagi', code: 'ABC123', startsAt: clock.toISOString(), endsAt: clock.toISOString(), singleUse: true });
+    const [session] = await repo.getTodaySessions();
+
+    await repo.login(AUDITOR.nip, AUDITOR.password, 'admin');
+    expect(await repo.getTodaySessions()).toEqual([]);
+    await expect(repo.openSession({ label: 'x', code: 'XYZ789', startsAt: clock.toISOString(), endsAt: clock.toISOString(), singleUse: false }))
+      .rejects.toThrow('Akses ditolak');
+    await expect(repo.closeSession(session.id)).rejects.toThrow('Akses ditolak');
+    expect(await repo.getFailedAttempts()).toEqual([]);
+    await expect(repo.unlockAccount(MEMBER.nip)).rejects.toThrow('Akses ditolak');
+  });
+
+  it('anggota hanya melihat absensi dan pengajuan izinnya sendiri', async () => {
+    const leave = { type: 'izin' as const, startDate: '2026-10-20', endDate: '2026-10-20', reason: 'Keperluan keluarga' };
+    await repo.login(SARI.nip, SARI.password, 'member');
+    await repo.addLeaveRequest({ ...leave, userId: SARI.nip, userName: SARI.name });
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await repo.addLeaveRequest({ ...leave, userId: MEMBER.nip, userName: MEMBER.name });
+
+    expect((await repo.getAttendances()).map(a => a.userId)).toEqual([MEMBER.nip]);
+    expect(await repo.getAttendance(otherId)).toBeNull();
+    expect((await repo.getLeaveRequests()).map(l => l.userId)).toEqual([MEMBER.nip]);
+  });
+
+  it('superadmin mengubah tingkat admin lain, tapi tidak tingkat akunnya sendiri', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.updateUser(AUDITOR.nip, { nip: AUDITOR.nip, name: AUDITOR.name, role: 'admin', adminRole: 'supervisor' });
+    expect((await repo.getUsers()).find(u => u.nip === AUDITOR.nip)?.adminRole).toBe('supervisor');
+    await expect(repo.updateUser(ADMIN.nip, { ...ADMIN, adminRole: 'auditor' })).rejects.toThrow('tidak bisa diubah');
+  });
+});
+
+describe('koreksi admin', () => {
+  beforeEach(async () => {
+    clock = new Date(2026, 9, 19, 7, 45, 0);
+    await checkIn();
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+  });
+
+  it('mencatat nilai sebelum dan sesudah untuk kolom yang berubah saja', async () => {
+    const [saved] = await repo.getAttendances();
+    await repo.correctAttendance(saved.id, { time: '07.30.00', position: 'Staff IT', description: 'Piket pagi & apel' }, 'Jam di HP salah');
+    const updated = await repo.getAttendance(saved.id);
+    expect(updated?.time).toBe('07.30.00');
+    expect(updated?.editHistory).toEqual([expect.objectContaining({
+      editorId: ADMIN.nip, editorName: ADMIN.name, action: 'correct', reason: 'Jam di HP salah',
+      changes: [
+        { field: 'time', before: '07.45.00', after: '07.30.00' },
+        { field: 'description', before: 'Piket pagi', after: 'Piket pagi & apel' }
+      ]
+    })]);
+  });
+
+  it('tidak menambah riwayat jika tidak ada yang berubah', async () => {
+    const [saved] = await repo.getAttendances();
+    await repo.correctAttendance(saved.id, { time: saved.time, position: saved.position, description: saved.description }, 'cek');
+    expect((await repo.getAttendance(saved.id))?.editHistory).toEqual([]);
+  });
+
+  it('menambah jam pulang pada absen yang belum pulang lalu mengosongkannya lagi', async () => {
+    const [saved] = await repo.getAttendances();
+    const fields = { time: saved.time, position: saved.position, description: saved.description };
+    await repo.correctAttendance(saved.id, { ...fields, checkOutTime: '16.00.00', workMinutes: 495 }, 'Lupa absen pulang');
+    const added = await repo.getAttendance(saved.id);
+    expect(added?.checkOut).toEqual(expect.objectContaining({ time: '16.00.00', location: { lat: 0, lng: 0 } }));
+    expect(added?.workMinutes).toBe(495);
+
+    await repo.correctAttendance(saved.id, fields, 'Ternyata belum pulang');
+    const cleared = await repo.getAttendance(saved.id);
+    expect(cleared?.checkOut).toBeUndefined();
+    expect(cleared?.workMinutes).toBeUndefined();
+    expect(cleared?.editHistory.map(e => e.changes)).toEqual([
+      [{ field: 'check_out_time', before: '', after: '16.00.00' }],
+      [{ field: 'check_out_time', before: '16.00.00', after: '' }]
+    ]);
+  });
+
+  it('menandai tidak sah lalu memulihkannya', async () => {
+    const [saved] = await repo.getAttendances();
+    await repo.setAttendanceValidity(saved.id, true, 'Titip absen');
+    expect((await repo.getAttendance(saved.id))?.invalidReason).toBe('Titip absen');
+    await repo.setAttendanceValidity(saved.id, false, 'Sudah dikonfirmasi atasan');
+    const restored = await repo.getAttendance(saved.id);
+    expect(restored?.invalidReason).toBeUndefined();
+    expect(restored?.editHistory.map(e => [e.action, e.changes[0].after])).toEqual([['invalidate', 'Tidak sah'], ['restore', 'Sah']]);
+  });
+
+  it('membuat absen manual dengan riwayat pembuatannya', async () => {
+    await repo.addManualAttendance({
+      userId: SARI.nip, userName: SARI.name, date: '19/10/2026', time: '08.00.00', checkOutTime: '16.00.00',
+      position: 'Keuangan', description: 'HP rusak', workMinutes: 480
+    }, 'Laporan atasan');
+    const [manual] = await repo.getAttendances({ userId: SARI.nip });
+    expect(manual.manual).toBe(true);
+    expect(manual.checkOut?.time).toBe('16.00.00');
+    expect(manual.editHistory[0].action).toBe('manual');
+    expect(manual.editHistory[0].changes.map(c => c.field)).toEqual(['time', 'check_out_time', 'position', 'description']);
+  });
+
+  it('hanya admin yang bisa mengoreksi', async () => {
+    const [saved] = await repo.getAttendances();
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await expect(repo.setAttendanceValidity(saved.id, true, 'x')).rejects.toThrow('Akses ditolak');
+  });
+});
+
+describe('komentar', () => {
+  let recordId: string;
+
+  beforeEach(async () => {
+    await checkIn();
+    await checkIn(SARI);
+    recordId = (await repo.getAttendances({ userId: MEMBER.nip }))[0].id;
+  });
+
+  it('menyimpan komentar admin dan balasan anggota sebagai thread', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addComment(recordId, 'Foto kurang jelas');
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    advance(60);
+    await repo.addComment(recordId, '  Maaf, kamera buram  ');
+    expect((await repo.getComments([recordId])).map(c => [c.authorId, c.authorRole, c.text])).toEqual([
+      [ADMIN.nip, 'admin', 'Foto kurang jelas'],
+      [MEMBER.nip, 'member', 'Maaf, kamera buram']
+    ]);
+  });
+
+  it('menghitung komentar pihak lain yang belum dibaca sampai thread dibuka', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addComment(recordId, 'Foto kurang jelas');
+    expect(await repo.getUnreadComments()).toEqual([]);
+
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(await repo.getUnreadComments()).toEqual([{ attendanceId: recordId, date: '19/10/2026', count: 1 }]);
+    advance(60);
+    await repo.addComment(recordId, 'Baik, saya perbaiki');
+    expect(await repo.getUnreadComments()).toEqual([]);
+
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    expect(await repo.getUnreadComments()).toEqual([{ attendanceId: recordId, date: '19/10/2026', count: 1 }]);
+    advance(60);
+    await repo.markCommentsRead(recordId);
+    expect(await repo.getUnreadComments()).toEqual([]);
+  });
+
+  it('anggota hanya bisa membuka diskusi absennya sendiri', async () => {
+    const [other] = await repo.getAttendances({ userId: SARI.nip });
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await repo.addComment(other.id, 'Untuk Sari');
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    expect(await repo.getComments([other.id])).toEqual([]);
+    await expect(repo.addComment(other.id, 'x')).rejects.toThrow('Akses ditolak');
+  });
+
+  it('gagal jika data absensi tidak ada', async () => {
+    await repo.login(ADMIN.nip, ADMIN.password, 'admin');
+    await expect(repo.addComment('tidak-ada', 'x')).rejects.toThrow();
+  });
+});
+
+describe('realtime', () => {
+  it('mengirim absen baru dan perubahannya ke pelanggan sampai berhenti berlangganan', async () => {
+    const received: AttendanceRecord[] = [];
+    const statuses: string[] = [];
+    const unsubscribe = repo.subscribeAttendances(r => received.push(r), s => statuses.push(s));
+    await checkIn();
+    await repo.login(MEMBER.nip, MEMBER.password, 'member');
+    await repo.addCheckOut(received[0].id, { time: '16.00.00', location: { lat: -6.2, lng: 106.8 } }, 495);
+    unsubscribe();
+    await checkIn(SARI);
+
+    expect(statuses).toEqual(['live']);
+    expect(received.map(r => [r.userId, r.checkOut?.time])).toEqual([[MEMBER.nip, undefined], [MEMBER.nip, '16.00.00']]);
+    expect(received[1].id).toBe(received[0].id);
+  });
+});
+
+describe('penyimpanan lokal', () => {
+  it('data tetap ada saat repository dibuat ulang dengan storage yang sama', async () => {
+    const data = new Map<string, string>();
+    const storage = { getItem: (k: string) => data.get(k) ?? null, setItem: (k: string, v: string) => { data.set(k, v); } };
+    const first = createMemoryRepository({ storage, seedUsers: [ADMIN, MEMBER] });
+    await checkIn(MEMBER, {}, first);
+
+    const second = createMemoryRepository({ storage, seedUsers: [] });
+    expect(await second.getAttendances()).toHaveLength(1);
+    expect((await second.login(MEMBER.nip, MEMBER.password, 'member')).status).toBe('ok');
+  });
+
+  it('sesi login dipulihkan setelah reload sampai logout atau kedaluwarsa', async () => {
+    const data = new Map<string, string>();
+    const storage = { getItem: (k: string) => data.get(k) ?? null, setItem: (k: string, v: string) => { data.set(k, v); } };
+    const first = createMemoryRepository({ storage, seedUsers: [MEMBER], now: () => new Date(clock) });
+    await first.login(MEMBER.nip, MEMBER.password, 'member');
+
+    const reloaded = createMemoryRepository({ storage, now: () => new Date(clock) });
+    expect(await reloaded.restoreSession()).toEqual({ nip: MEMBER.nip, name: MEMBER.name, role: 'member', mustChangePassword: false });
+
+    advance(13 * 3600);
+    expect(await reloaded.restoreSession()).toBeNull();
+
+    await reloaded.login(MEMBER.nip, MEMBER.password, 'member');
+    await reloaded.logout();
+    expect(await createMemoryRepository({ storage, now: () => new Date(clock) }).restoreSession()).toBeNull();
+  });
+});
@@ -0,0 +1,814 @@
+import type {
+  AttendanceFilter, AttendanceRecord, AttendanceSession, AuthAttempt, Comment, EditHistory, FieldChange, LeaveRequest, OfficeLocation, OrgCatalog,
+  ScheduleAssignment, TokenStatus, UnreadComments, UserT, WorkSchedule
+} from '../types';
+import {
+  ATTENDANCE_PAGE_SIZE, ATTENDANCE_PASS_HOURS, SESSION_HOURS, TOKEN_PASS_MINUTES, canManage, classifyCheckIn, classifyLocation, pickSchedule,
+  unitScope,
+  type AttendanceCorrection, type AttendanceRepository, type UserImport, type UserImportResult
+} from './repository';
+
+// Backend tanpa server untuk pengembangan lokal dan test. Aturan login, token sesi dan QR
+// meniru RPC di supabase/migrations; password hanya di-hash SHA-256, jangan dipakai di produksi.
+
+interface StoredUser extends UserT {
+  passwordHash: string;
+  mustChangePassword: boolean;
+}
+
+interface MemoryDb {
+  users: StoredUser[];
+  sessions: { token: string; nip: string; expiresAt: string; tokenPassedAt?: string; tokenSessionId?: string }[];
+  attendances: AttendanceRecord[];
+  schedules: WorkSchedule[];
+  assignments: ScheduleAssignment[];
+  leaves: LeaveRequest[];
+  locations: OfficeLocation[];
+  attendanceSessions: AttendanceSession[];
+  // Setara attendance_passes: satu izin absen masuk per token/QR yang lolos
+  passes: { id: string; nip: string; sessionId?: string; redeemedAt: string; usedAt?: string }[];
+  attempts: AuthAttempt[];
+  comments: Comment[];
+  commentReads: { attendanceId: string; nip: string; readAt: string }[];
+  catalog: OrgCatalog;
+  qrSecret: string;
+}
+
+export interface SeedUser extends UserT {
+  password: string;
+}
+
+export interface MemoryRepositoryOptions {
+  storage?: Pick<Storage, 'getItem' | 'setItem'>; // mis. localStorage; tanpa ini data hilang saat halaman dimuat ulang
+  seedUsers?: SeedUser[]; // hanya dipakai jika storage masih kosong
+  now?: () => Date; // bisa diganti dari test untuk memajukan waktu
+}
+
+const STORAGE_KEY = 'absensi_memory_db';
+const SESSION_KEY = 'absensi_memory_session';
+const LOCK_MINUTES = 15;
+const QR_MAX_AGE_SECONDS = 30;
+
+const toHex = (buf: ArrayBuffer) => Array.from(new Uint8Array(buf), b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPassword = async (nip: string, password: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${nip}:${password}`)));
+
+const hmacHex = async (secret: string, message: string) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+};
+
+// Sama dengan trigger attendances_set_day: "19/10/2026" -> "2026-10-19"
+const recordDay = (date: string) => {
+  const [d, m, y] = date.split('/');
+  return `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+const matchesFilter = (record: AttendanceRecord, filter: AttendanceFilter) => {
+  const day = recordDay(record.date);
+  const search = filter.search?.trim().toLowerCase();
+  return (!filter.from || day >= filter.from)
+    && (!filter.to || day <= filter.to)
+    && (!filter.userId || record.userId === filter.userId)
+    && (!filter.department || record.department === filter.department)
+    && (!filter.position || record.position.toLowerCase().includes(filter.position.toLowerCase()))
+    && (!search || [record.userName, record.userId, record.description].some(v => v.toLowerCase().includes(search)));
+};
+
+// Setara attendance_in_scope: anggota hanya absen sendiri, supervisor hanya absen unitnya
+const inScope = (user: UserT | undefined, record: AttendanceRecord) => {
+  const scope = unitScope(user);
+  return record.userId === user?.nip || (user?.role === 'admin' && (scope === undefined || record.department === scope));
+};
+
+// Admin tanpa tingkat (seed, data lokal lama, user baru tanpa pilihan) menjadi superadmin, sama dengan 027_admin_roles.sql
+const withAdminRole = <T extends UserT>(user: T): T =>
+  user.role === 'admin' ? { ...user, adminRole: user.adminRole ?? 'superadmin' } : { ...user, adminRole: undefined };
+
+// Kolom yang dicatat di riwayat koreksi, sama dengan correct_attendance
+const correctionValues = (c: Partial<AttendanceCorrection>): Record<string, string | undefined> => ({
+  time: c.time, check_out_time: c.checkOutTime, position: c.position, description: c.description
+});
+
+export const createMemoryRepository = (options: MemoryRepositoryOptions = {}): AttendanceRepository => {
+  const now = options.now ?? (() => new Date());
+  let sessionToken: string | null = options.storage?.getItem(SESSION_KEY) || null;
+
+  const setSessionToken = (token: string | null) => {
+    sessionToken = token;
+    options.storage?.setItem(SESSION_KEY, token ?? '');
+  };
+
+  const init = async (): Promise<MemoryDb> => {
+    const saved = options.storage?.getItem(STORAGE_KEY);
+    if (saved) {
+      const db: MemoryDb = JSON.parse(saved);
+      return { ...db, users: db.users.map(withAdminRole), passes: db.passes ?? [] };
+    }
+    return {
+      users: await Promise.all((options.seedUsers ?? []).map(async ({ password, ...user }) => ({
+        ...withAdminRole(user),
+        passwordHash: await hashPassword(user.nip, password),
+        mustChangePassword: user.mustChangePassword ?? false
+      }))),
+      sessions: [], attendances: [], schedules: [], assignments: [], leaves: [], locations: [], attendanceSessions: [], passes: [], attempts: [],
+      comments: [], commentReads: [], catalog: { departments: [], positions: [] },
+      qrSecret: crypto.randomUUID()
+    };
+  };
+  const ready = init();
+
+  const save = (db: MemoryDb) => options.storage?.setItem(STORAGE_KEY, JSON.stringify(db));
+
+  // Pengganti kanal realtime Supabase; hanya menjangkau pelanggan di instance yang sama, yaitu user
+  // yang sedang login, jadi supervisor hanya menerima absen unitnya
+  const listeners = new Set<(record: AttendanceRecord) => void>();
+  const notify = (db: MemoryDb, record: AttendanceRecord) => {
+    const user = sessionUser(db);
+    if (!user || inScope(user, record)) listeners.forEach(listener => listener({ ...record }));
+  };
+
+  const currentSession = (db: MemoryDb) => db.sessions.find(s => s.token === sessionToken && new Date(s.expiresAt) > now());
+
+  const sessionUser = (db: MemoryDb) => {
+    const session = currentSession(db);
+    return db.users.find(u => u.nip === session?.nip && !u.deactivatedAt);
+  };
+
+  // Setara session_user_row: token & QR hanya bisa diverifikasi oleh user yang sudah login
+  const requireMember = (db: MemoryDb) => {
+    const user = sessionUser(db);
+    if (!user || user.mustChangePassword) throw new Error('Akses ditolak');
+    return user;
+  };
+
+  // Setara require_admin: hanya superadmin, dan belum boleh selama wajib ganti password
+  const requireAdmin = (db: MemoryDb) => {
+    const user = sessionUser(db);
+    if (!canManage(user) || user!.mustChangePassword) throw new Error('Akses ditolak');
+  };
+
+  // Setara require_staff: semua tingkat admin, untuk data yang hanya dibaca
+  const requireStaff = (db: MemoryDb) => {
+    const user = sessionUser(db);
+    if (user?.role !== 'admin' || user.mustChangePassword) throw new Error('Akses ditolak');
+    return user;
+  };
+
+  // Setara trigger user_sessions_record_pass: penanda lolos token di sesi login sekaligus menjadi izin absen
+  const passToken = (db: MemoryDb, tokenSessionId?: string) => {
+    const session = currentSession(db)!;
+    const redeemedAt = now().toISOString();
+    Object.assign(session, { tokenPassedAt: redeemedAt, tokenSessionId });
+    db.passes.push({ id: crypto.randomUUID(), nip: session.nip, sessionId: tokenSessionId, redeemedAt });
+  };
+
+  const editEntry = (db: MemoryDb, action: EditHistory['action'], reason: string, changes: FieldChange[]): EditHistory => {
+    const editor = sessionUser(db)!;
+    return { id: crypto.randomUUID(), editorId: editor.nip, editorName: editor.name, action, reason, changes, timestamp: now().toISOString() };
+  };
+
+  const findAttendance = (db: MemoryDb, id: string) => {
+    const record = db.attendances.find(a => a.id === id);
+    if (!record) throw new Error('Data absensi tidak ditemukan');
+    return record;
+  };
+
+  const canAccessAttendance = (db: MemoryDb, user: StoredUser | undefined, id: string) =>
+    !!user && !user.mustChangePassword && db.attendances.some(a => a.id === id && inScope(user, a));
+
+  const markRead = (db: MemoryDb, attendanceId: string, nip: string) => {
+    db.commentReads = db.commentReads.filter(r => r.attendanceId !== attendanceId || r.nip !== nip);
+    db.commentReads.push({ attendanceId, nip, readAt: now().toISOString() });
+  };
+
+  const recordAttempt = (db: MemoryDb, kind: AuthAttempt['kind'], nip: string, success: boolean) => {
+    db.attempts.push({ id: crypto.randomUUID(), kind, nip, deviceId: 'memory', success, timestamp: now().toISOString() });
+  };
+
+  // Setara attempt_guard (tanpa batas per perangkat)
+  const attemptGuard = (db: MemoryDb, kind: 'login' | 'token', nip: string) => {
+    const t = now().getTime();
+    const resetAt = Math.max(
+      t - LOCK_MINUTES * 60000,
+      ...db.attempts.filter(a => a.nip === nip && (a.kind === 'unlock' || (a.kind === kind && a.success))).map(a => Date.parse(a.timestamp))
+    );
+    const failures = db.attempts.filter(a => a.nip === nip && a.kind === kind && !a.success && Date.parse(a.timestamp) > resetAt);
+    const last = Math.max(...failures.map(a => Date.parse(a.timestamp)));
+    if (failures.length >= 5) {
+      return { status: 'locked' as const, waitSeconds: Math.max(1, Math.ceil((last + LOCK_MINUTES * 60000 - t) / 1000)) };
+    }
+    if (failures.length >= 3) {
+      const wait = Math.min(30, 2 ** (failures.length - 3)) - Math.floor((t - last) / 1000);
+      if (wait > 0) return { status: 'delay' as const, waitSeconds: wait };
+    }
+    return { status: 'ok' as const, waitSeconds: 0 };
+  };
+
+  // Setara list_attendances, tapi tanpa sesi (mis. test) tidak dibatasi
+  const filtered = (db: MemoryDb, filter: AttendanceFilter) => {
+    const user = sessionUser(db);
+    return db.attendances
+      .filter(a => matchesFilter(a, filter) && (!user || inScope(user, a)))
+      .sort((a, b) => recordDay(b.date).localeCompare(recordDay(a.date))
+        || (!a.department ? 1 : 0) - (!b.department ? 1 : 0) || (a.department ?? '').localeCompare(b.department ?? '')
+        || (b.receivedAt ?? '').localeCompare(a.receivedAt ?? ''));
+  };
+
+  // Setara foreign key users.department / users.position ke katalog
+  const checkCatalog = (db: MemoryDb, user: Pick<UserT, 'department' | 'position'>) => {
+    if (user.department && !db.catalog.departments.includes(user.department)) throw new Error(`Unit ${user.department} tidak ada di katalog`);
+    if (user.position && !db.catalog.positions.includes(user.position)) throw new Error(`Jabatan ${user.position} tidak ada di katalog`);
+  };
+
+  const profile = (user: StoredUser): UserT => ({
+    nip: user.nip, name: user.name, role: user.role, adminRole: user.adminRole, mustChangePassword: user.mustChangePassword,
+    department: user.department, position: user.position
+  });
+
+  const repo: AttendanceRepository = {
+    login: async (nip, password, role) => {
+      const db = await ready;
+      const guard = attemptGuard(db, 'login', nip);
+      if (guard.status !== 'ok') return guard;
+      const hash = await hashPassword(nip, password);
+      const user = db.users.find(u => u.nip === nip && u.role === role && u.passwordHash === hash);
+      recordAttempt(db, 'login', nip, !!user && !user.deactivatedAt);
+      if (!user || user.deactivatedAt) {
+        save(db);
+        return { status: user ? 'inactive' : 'invalid', waitSeconds: 0 };
+      }
+      const token = crypto.randomUUID();
+      setSessionToken(token);
+      db.sessions.push({ token, nip, expiresAt: new Date(now().getTime() + SESSION_HOURS * 3600000).toISOString() });
+      save(db);
+      return { status: 'ok', waitSeconds: 0, user: profile(user) };
+    },
+
+    logout: async () => {
+      const db = await ready;
+      db.sessions = db.sessions.filter(s => s.token !== sessionToken);
+      setSessionToken(null);
+      save(db);
+    },
+
+    restoreSession: async () => {
+      const db = await ready;
+      // Tab lain bisa sudah login/logout; storage yang jadi acuan
+      if (options.storage) sessionToken = options.storage.getItem(SESSION_KEY) || null;
+      const user = sessionUser(db);
+      if (!user) {
+        setSessionToken(null);
+        return null;
+      }
+      return profile(user);
+    },
+
+    changePassword: async (oldPassword, newPassword) => {
+      const db = await ready;
+      const user = sessionUser(db);
+      if (!user || user.passwordHash !== await hashPassword(user.nip, oldPassword)) return 'wrong_password';
+      if (newPassword.length < 8 || !/[A-Z]/.test(newPassword) || !/[a-z]/.test(newPassword) || !/[0-9]/.test(newPassword) || newPassword === user.nip) {
+        return 'weak';
+      }
+      user.passwordHash = await hashPassword(user.nip, newPassword);
+      user.mustChangePassword = false;
+      save(db);
+      return 'ok';
+    },
+
+    resetPassword: async (nip, tempPassword) => {
+      const db = await ready;
+      requireAdmin(db);
+      const user = db.users.find(u => u.nip === nip);
+      if (!user) return;
+      user.passwordHash = await hashPassword(nip, tempPassword);
+      user.mustChangePassword = true;
+      db.sessions = db.sessions.filter(s => s.nip !== nip || s.token === sessionToken);
+      save(db);
+    },
+
+    // Setara list_users: supervisor hanya melihat dirinya dan anggota unitnya
+    getUsers: async () => {
+      const db = await ready;
+      let viewer: StoredUser;
+      try {
+        viewer = requireStaff(db);
+      } catch (e) {
+        console.error("Error User:", e);
+        return [];
+      }
+      const scope = unitScope(viewer);
+      return db.users
+        .filter(u => scope === undefined || u.nip === viewer.nip || (u.role === 'member' && u.department === scope))
+        .map(u => ({
+          nip: u.nip, name: u.name, role: u.role, adminRole: u.adminRole, deactivatedAt: u.deactivatedAt, department: u.department, position: u.position
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    addUser: async (user, password) => {
+      const db = await ready;
+      requireAdmin(db);
+      if (db.users.some(u => u.nip === user.nip)) throw new Error(`NIP ${user.nip} sudah terdaftar`);
+      checkCatalog(db, user);
+      db.users.push({
+        ...withAdminRole({ nip: user.nip, name: user.name, role: user.role, adminRole: user.adminRole }),
+        department: user.department || undefined, position: user.position || undefined,
+        passwordHash: await hashPassword(user.nip, password), mustChangePassword: true
+      });
+      save(db);
+    },
+
+    // Setara import_users: baris diperiksa berurutan, NIP yang muncul lebih dulu di file dianggap sudah ada
+    importUsers: async (users, allOrNothing) => {
+      const db = await ready;
+      requireAdmin(db);
+      const created: UserImport[] = [];
+      const results: UserImportResult[] = users.map(user => {
+        const nip = user.nip.trim();
+        const name = user.name.trim();
+        const department = user.department?.trim() || undefined;
+        const position = user.position?.trim() || undefined;
+        if (!nip || !name || !user.password || !['admin', 'member'].includes(user.role)) return { nip, status: 'invalid' };
+        if (user.role === 'admin' && !['superadmin', 'supervisor', 'auditor'].includes(user.adminRole ?? 'superadmin')) return { nip, status: 'invalid' };
+        if ((department && !db.catalog.departments.includes(department)) || (position && !db.catalog.positions.includes(position))) {
+          return { nip, status: 'invalid' };
+        }
+        if (db.users.some(u => u.nip === nip) || created.some(u => u.nip === nip)) return { nip, status: 'duplicate' };
+        created.push({ ...withAdminRole({ nip, name, role: user.role, adminRole: user.adminRole }), password: user.password, department, position });
+        return { nip, status: 'created' };
+      });
+      if (allOrNothing && results.some(r => r.status !== 'created')) {
+        return results.map(r => r.status === 'created' ? { ...r, status: 'skipped' } : r);
+      }
+      for (const { password, ...user } of created) {
+        db.users.push({ ...user, passwordHash: await hashPassword(user.nip, password), mustChangePassword: true });
+      }
+      save(db);
+      return results;
+    },
+
+    // Setara update_user: NIP baru diteruskan ke semua data yang menyimpan NIP, nama salinan ikut diperbarui
+    updateUser: async (nip, changes) => {
+      const db = await ready;
+      requireAdmin(db);
+      const admin = sessionUser(db);
+      const user = db.users.find(u => u.nip === nip);
+      if (!user) throw new Error('User tidak ditemukan');
+      const newNip = changes.nip.trim();
+      const name = changes.name.trim();
+      if (!newNip || !name || !['admin', 'member'].includes(changes.role)) throw new Error('NIP, nama dan role wajib diisi');
+      checkCatalog(db, changes);
+      const { adminRole } = withAdminRole(changes);
+      const roleChanged = changes.role !== user.role || adminRole !== user.adminRole;
+      if (nip === admin?.nip && (newNip !== nip || roleChanged)) throw new Error('NIP dan role akun sendiri tidak bisa diubah');
+      if (newNip !== nip && db.users.some(u => u.nip === newNip)) throw new Error(`NIP ${newNip} sudah terdaftar`);
+
+      if (newNip !== nip || roleChanged) db.sessions = db.sessions.filter(s => s.nip !== nip);
+      if (newNip !== nip) {
+        db.attendances.filter(a => a.userId === nip).forEach(a => { a.userId = newNip; });
+        db.leaves.filter(l => l.userId === nip).forEach(l => { l.userId = newNip; });
+        db.assignments.filter(a => a.targetType === 'user' && a.target === nip).forEach(a => { a.target = newNip; });
+        db.comments.filter(c => c.authorId === nip).forEach(c => { c.authorId = newNip; });
+        db.commentReads.filter(r => r.nip === nip).forEach(r => { r.nip = newNip; });
+        db.attempts.filter(a => a.nip === nip).forEach(a => { a.nip = newNip; });
+      }
+      Object.assign(user, {
+        nip: newNip, name, role: changes.role, adminRole, department: changes.department || undefined, position: changes.position || undefined
+      });
+      db.attendances.filter(a => a.userId === newNip).forEach(a => { a.userName = name; });
+      db.leaves.filter(l => l.userId === newNip).forEach(l => { l.userName = name; });
+      db.comments.filter(c => c.authorId === newNip).forEach(c => { c.authorName = name; });
+      save(db);
+    },
+
+    setUserActive: async (nip, active) => {
+      const db = await ready;
+      requireAdmin(db);
+      if (nip === sessionUser(db)?.nip) throw new Error('Akun sendiri tidak bisa dinonaktifkan');
+      const user = db.users.find(u => u.nip === nip);
+      if (!user) return;
+      user.deactivatedAt = active ? undefined : user.deactivatedAt ?? now().toISOString();
+      if (!active) db.sessions = db.sessions.filter(s => s.nip !== nip);
+      save(db);
+    },
+
+    getAttendances: async (filter = {}) => filtered(await ready, filter),
+
+    getAttendance: async (id) => filtered(await ready, {}).find(a => a.id === id) ?? null,
+
+    queryAttendances: async (filter, page, pageSize = ATTENDANCE_PAGE_SIZE) => {
+      const rows = filtered(await ready, filter);
+      return { rows: rows.slice(page * pageSize, (page + 1) * pageSize), total: rows.length };
+    },
+
+    getDailyCounts: async (from, to) => {
+      const counts = new Map<string, number>();
+      filtered(await ready, { from, to }).forEach(a => counts.set(recordDay(a.date), (counts.get(recordDay(a.date)) ?? 0) + 1));
+      return Array.from(counts, ([day, total]) => ({ day, total }));
+    },
+
+    // Setara submit_attendance. Foto tetap disimpan sebagai data URL; client_id yang sama diabaikan tanpa memakai
+    // izin baru. NIP, nama dan unit (attendances_set_department) diambil dari user yang login
+    addAttendance: async (record) => {
+      const db = await ready;
+      const user = requireMember(db);
+      if (record.clientId && db.attendances.some(a => a.clientId === record.clientId)) return;
+      // Setara nearest_office_location: geofence dihitung ulang, nilai dari klien diabaikan
+      const check = classifyLocation(record.location, db.locations);
+      if (check && !check.result.inside && check.policy === 'reject') {
+        throw new Error(`Di luar area ${check.result.siteName} (${check.result.distance} m). Absen ditolak.`);
+      }
+      const session = db.attendanceSessions.find(s => s.id === record.sessionId);
+      if (session?.singleUse && db.attendances.some(a => a.sessionId === session.id && a.userId === user.nip)) {
+        throw new Error('Token sesi sudah dipakai');
+      }
+      const received = now();
+      const pass = db.passes
+        .filter(p => p.nip === user.nip && !p.usedAt && p.sessionId === record.sessionId
+          && received.getTime() - Date.parse(p.redeemedAt) < ATTENDANCE_PASS_HOURS * 3600000)
+        .sort((a, b) => a.redeemedAt.localeCompare(b.redeemedAt))[0];
+      if (!pass) throw new Error('Token absen belum divalidasi');
+      pass.usedAt = received.toISOString();
+
+      // Setara classify_check_in: jam absen = saat selfie diambil, tetapi tidak sebelum token/QR lolos dan tidak
+      // di masa depan; tanggal, jam dan status jadwal dari klien diabaikan
+      const captured = new Date(Math.min(received.getTime(), Math.max(
+        record.capturedAt ? new Date(record.capturedAt).getTime() : received.getTime(),
+        Date.parse(pass.redeemedAt)
+      )));
+      const time = captured.toLocaleTimeString('id-ID');
+      const schedule = classifyCheckIn(time, captured, pickSchedule(db.schedules, db.assignments, user.nip));
+      const saved = {
+        ...record, id: crypto.randomUUID(), userId: user.nip, userName: user.name, date: captured.toLocaleDateString('id-ID'), time,
+        schedule, department: user.department, geofence: check?.result, capturedAt: record.capturedAt && captured.toISOString(),
+        receivedAt: received.toISOString()
+      };
+      db.attendances.push(saved);
+      save(db);
+      notify(db, saved);
+    },
+
+    // Setara check_out_attendance: hanya pemilik absen, dan hanya sekali
+    addCheckOut: async (recordId, checkOut, workMinutes) => {
+      const db = await ready;
+      const { nip } = requireMember(db);
+      const record = db.attendances.find(a => a.id === recordId);
+      if (!record || record.userId !== nip) throw new Error('Akses ditolak');
+      if (record.checkOut) throw new Error('Sudah absen pulang');
+      Object.assign(record, { checkOut, workMinutes });
+      save(db);
+      notify(db, record);
+    },
+
+    correctAttendance: async (recordId, correction, reason) => {
+      const db = await ready;
+      requireAdmin(db);
+      const record = findAttendance(db, recordId);
+      // Koreksi menggantikan semua kolom; jam pulang kosong berarti absen pulang dihapus, dan jam pulang
+      // pada absen yang belum pulang dicatat tanpa foto & GPS seperti absen manual
+      const before = correctionValues({ ...record, checkOutTime: record.checkOut?.time });
+      const changes = Object.entries(correctionValues(correction))
+        .map(([field, after]) => ({ field, before: before[field] ?? '', after: after ?? '' }))
+        .filter(c => c.after !== c.before);
+      if (changes.length === 0) return;
+      Object.assign(record, {
+        time: correction.time, position: correction.position, description: correction.description,
+        schedule: correction.schedule, workMinutes: correction.workMinutes,
+        checkOut: correction.checkOutTime ? {
+          ...(record.checkOut ?? { location: { lat: 0, lng: 0 } }),
+          time: correction.checkOutTime,
+          earlyLeaveMinutes: correction.earlyLeaveMinutes
+        } : undefined,
+        editHistory: [...record.editHistory, editEntry(db, 'correct', reason, changes)]
+      });
+      save(db);
+      notify(db, record);
+    },
+
+    setAttendanceValidity: async (recordId, invalid, reason) => {
+      const db = await ready;
+      requireAdmin(db);
+      const record = findAttendance(db, recordId);
+      const change = { field: 'status', before: record.invalidReason ? 'Tidak sah' : 'Sah', after: invalid ? 'Tidak sah' : 'Sah' };
+      record.invalidReason = invalid ? reason : undefined;
+      record.editHistory = [...record.editHistory, editEntry(db, invalid ? 'invalidate' : 'restore', reason, [change])];
+      save(db);
+      notify(db, record);
+    },
+
+    addManualAttendance: async (manual, reason) => {
+      const db = await ready;
+      requireAdmin(db);
+      const changes = Object.entries(correctionValues(manual))
+        .filter(([, after]) => after !== undefined)
+        .map(([field, after]) => ({ field, before: '', after: after! }));
+      const record: AttendanceRecord = {
+        id: crypto.randomUUID(),
+        userId: manual.userId, userName: manual.userName, date: manual.date, time: manual.time,
+        department: db.users.find(u => u.nip === manual.userId)?.department,
+        position: manual.position, description: manual.description, photo: '',
+        location: { lat: 0, lng: 0 },
+        checkOut: manual.checkOutTime ? { time: manual.checkOutTime, location: { lat: 0, lng: 0 }, earlyLeaveMinutes: manual.earlyLeaveMinutes } : undefined,
+        workMinutes: manual.workMinutes,
+        schedule: manual.schedule,
+        receivedAt: now().toISOString(),
+        manual: true,
+        editHistory: [editEntry(db, 'manual', reason, changes)]
+      };
+      db.attendances.push(record);
+      save(db);
+      notify(db, record);
+    },
+
+    subscribeAttendances: (onChange, onStatus) => {
+      listeners.add(onChange);
+      onStatus('live');
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+
+    countLegacyPhotos: async () => 0,
+    migrateLegacyPhotos: async () => 0,
+
+    getComments: async (attendanceIds) => {
+      const db = await ready;
+      const user = sessionUser(db);
+      return db.comments.filter(c => attendanceIds.includes(c.attendanceId) && canAccessAttendance(db, user, c.attendanceId));
+    },
+
+    addComment: async (attendanceId, text) => {
+      const db = await ready;
+      const user = sessionUser(db);
+      if (!canAccessAttendance(db, user, attendanceId) || user!.adminRole === 'auditor') throw new Error('Akses ditolak');
+      db.comments.push({
+        id: crypto.randomUUID(), attendanceId, authorId: user!.nip, authorName: user!.name, authorRole: user!.role,
+        text: text.trim(), timestamp: now().toISOString()
+      });
+      markRead(db, attendanceId, user!.nip);
+      save(db);
+      notify(db, findAttendance(db, attendanceId));
+    },
+
+    markCommentsRead: async (attendanceId) => {
+      const db = await ready;
+      const user = sessionUser(db);
+      if (!canAccessAttendance(db, user, attendanceId)) throw new Error('Akses ditolak');
+      markRead(db, attendanceId, user!.nip);
+      save(db);
+    },
+
+    // Setara unread_comments: admin menghitung balasan anggota di absen yang bisa dilihatnya, anggota menghitung komentar admin
+    getUnreadComments: async () => {
+      const db = await ready;
+      const user = sessionUser(db);
+      if (!user) return [];
+      const counts = new Map<string, UnreadComments>();
+      db.comments.forEach(c => {
+        const record = db.attendances.find(a => a.id === c.attendanceId);
+        if (!record || c.authorRole === user.role || !inScope(user, record)) return;
+        const readAt = db.commentReads.find(r => r.attendanceId === c.attendanceId && r.nip === user.nip)?.readAt ?? '';
+        if (c.timestamp <= readAt) return;
+        const entry = counts.get(c.attendanceId) ?? { attendanceId: c.attendanceId, date: record.date, count: 0 };
+        counts.set(c.attendanceId, { ...entry, count: entry.count + 1 });
+      });
+      return [...counts.values()];
+    },
+
+    getSchedules: async () => [...(await ready).schedules].sort((a, b) => a.name.localeCompare(b.name)),
+
+    addSchedule: async (schedule) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.schedules.push({ ...schedule, id: crypto.randomUUID() });
+      save(db);
+    },
+
+    deleteSchedule: async (id) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.schedules = db.schedules.filter(s => s.id !== id);
+      db.assignments = db.assignments.filter(a => a.scheduleId !== id);
+      save(db);
+    },
+
+    getScheduleAssignments: async () => [...(await ready).assignments],
+
+    assignSchedule: async (targetType, target, scheduleId) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.assignments = db.assignments.filter(a => a.targetType !== targetType || a.target !== target);
+      if (scheduleId) db.assignments.push({ scheduleId, targetType, target });
+      save(db);
+    },
+
+    getScheduleForUser: async (nip) => {
+      const db = await ready;
+      return pickSchedule(db.schedules, db.assignments, nip);
+    },
+
+    // Setara list_leave_requests: anggota hanya pengajuan sendiri, supervisor pengajuan anggota unitnya
+    getLeaveRequests: async (nip) => {
+      const db = await ready;
+      const user = sessionUser(db);
+      const scope = unitScope(user);
+      return db.leaves
+        .filter(l => (!nip || l.userId === nip) && (!user || user.role === 'admin' || l.userId === user.nip)
+          && (scope === undefined || db.users.some(u => u.nip === l.userId && u.department === scope)))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    // Setara submit_leave_request: NIP dan nama diambil dari sesi login
+    addLeaveRequest: async (leave) => {
+      const db = await ready;
+      const user = requireMember(db);
+      db.leaves.push({
+        ...leave, id: crypto.randomUUID(), userId: user.nip, userName: user.name, status: 'pending', createdAt: now().toISOString()
+      });
+      save(db);
+    },
+
+    reviewLeaveRequest: async (id, status, admin, note) => {
+      const db = await ready;
+      requireAdmin(db);
+      const leave = db.leaves.find(l => l.id === id && l.status === 'pending');
+      if (!leave) return;
+      Object.assign(leave, { status, reviewedBy: admin.name, reviewNote: note || undefined });
+      save(db);
+    },
+
+    getOfficeLocations: async () => [...(await ready).locations].sort((a, b) => a.name.localeCompare(b.name)),
+
+    addOfficeLocation: async (site) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.locations.push({ ...site, id: crypto.randomUUID() });
+      save(db);
+    },
+
+    deleteOfficeLocation: async (id) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.locations = db.locations.filter(l => l.id !== id);
+      save(db);
+    },
+
+    getCatalog: async () => {
+      const { catalog } = await ready;
+      return { departments: [...catalog.departments].sort(), positions: [...catalog.positions].sort() };
+    },
+
+    // Nama unik tanpa membedakan huruf besar/kecil, sama dengan index departments_name_ci
+    addCatalogEntry: async (kind, name) => {
+      const db = await ready;
+      requireAdmin(db);
+      const entry = name.trim();
+      if (!entry) throw new Error('Nama wajib diisi');
+      if (db.catalog[kind].some(n => n.toLowerCase() === entry.toLowerCase())) throw new Error(`${entry} sudah ada`);
+      db.catalog[kind].push(entry);
+      save(db);
+    },
+
+    deleteCatalogEntry: async (kind, name) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.catalog[kind] = db.catalog[kind].filter(n => n !== name);
+      const field = kind === 'departments' ? 'department' : 'position';
+      db.users.filter(u => u[field] === name).forEach(u => { u[field] = undefined; });
+      save(db);
+    },
+
+    issueQrToken: async () => {
+      const db = await ready;
+      requireAdmin(db);
+      const t = String(Math.floor(now().getTime() / 1000));
+      return `absen.v1.${t}.${await hmacHex(db.qrSecret, t)}`;
+    },
+
+    verifyQrToken: async (payload) => {
+      const db = await ready;
+      requireMember(db);
+      const parts = payload.split('.');
+      if (parts.length !== 4 || parts[0] !== 'absen' || parts[1] !== 'v1' || !/^[0-9]+$/.test(parts[2])) return 'invalid';
+      if (await hmacHex(db.qrSecret, parts[2]) !== parts[3]) return 'invalid';
+      const age = Math.floor(now().getTime() / 1000) - Number(parts[2]);
+      if (age > QR_MAX_AGE_SECONDS || age < -5) return 'expired';
+      passToken(db);
+      save(db);
+      return 'ok';
+    },
+
+    // Setara list/open/close_attendance_session: kode sesi hanya terlihat oleh superadmin
+    getTodaySessions: async () => {
+      const db = await ready;
+      try {
+        requireAdmin(db);
+      } catch (e) {
+        console.error("Error Sesi:", e);
+        return [];
+      }
+      const dayStart = now();
+      dayStart.setHours(0, 0, 0, 0);
+      return db.attendanceSessions
+        .filter(s => new Date(s.startsAt) >= dayStart)
+        .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+    },
+
+    openSession: async (session) => {
+      const db = await ready;
+      requireAdmin(db);
+      db.attendanceSessions.push({ ...session, id: crypto.randomUUID() });
+      save(db);
+    },
+
+    closeSession: async (id) => {
+      const db = await ready;
+      requireAdmin(db);
+      const session = db.attendanceSessions.find(s => s.id === id);
+      if (session) session.closedAt = now().toISOString();
+      save(db);
+    },
+
+    // Setara redeem_attendance_token: sesi yang sedang buka diutamakan jika kodenya sama
+    redeemToken: async (code) => {
+      const db = await ready;
+      const { nip } = requireMember(db);
+      const guard = attemptGuard(db, 'token', nip);
+      if (guard.status !== 'ok') return guard;
+      const t = now();
+      const isOpen = (s: AttendanceSession) => !s.closedAt && t >= new Date(s.startsAt) && t <= new Date(s.endsAt);
+      const session = db.attendanceSessions
+        .filter(s => s.code === code && new Date(s.startsAt).getTime() > t.getTime() - 86400000)
+        .sort((a, b) => Number(isOpen(b)) - Number(isOpen(a)) || b.startsAt.localeCompare(a.startsAt))[0];
+
+      let status: TokenStatus;
+      if (!session) status = 'invalid';
+      else if (session.closedAt) status = 'closed';
+      else if (t < new Date(session.startsAt)) status = 'not_open';
+      else if (t > new Date(session.endsAt)) status = 'expired';
+      else if (session.singleUse && db.attendances.some(a => a.sessionId === session.id && a.userId === nip)) status = 'used';
+      else status = 'ok';
+
+      if (status === 'ok') passToken(db, session!.id);
+      if (status === 'invalid' || status === 'ok') {
+        recordAttempt(db, 'token', nip, status === 'ok');
+        save(db);
+      }
+      return { status, sessionId: session?.id, waitSeconds: 0 };
+    },
+
+    getTokenPass: async () => {
+      const session = currentSession(await ready);
+      if (!session?.tokenPassedAt || now().getTime() - Date.parse(session.tokenPassedAt) > TOKEN_PASS_MINUTES * 60000) return null;
+      return { sessionId: session.tokenSessionId };
+    },
+
+    clearTokenPass: async () => {
+      const db = await ready;
+      const session = currentSession(db);
+      if (!session) return;
+      Object.assign(session, { tokenPassedAt: undefined, tokenSessionId: undefined });
+      save(db);
+    },
+
+    // Setara list_failed_attempts / locked_accounts: khusus superadmin, selain itu kosong seperti RPC yang gagal
+    getFailedAttempts: async () => {
+      const db = await ready;
+      try {
+        requireAdmin(db);
+      } catch (e) {
+        console.error("Error Log Percobaan:", e);
+        return [];
+      }
+      return db.attempts.filter(a => !a.success).sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, 100);
+    },
+
+    getLockedAccounts: async () => {
+      const db = await ready;
+      try {
+        requireAdmin(db);
+      } catch (e) {
+        console.error("Error Akun Terkunci:", e);
+        return [];
+      }
+      const pairs = new Set(db.attempts.filter(a => a.kind !== 'unlock').map(a => `${a.nip}|${a.kind}`));
+      return Array.from(pairs).flatMap(pair => {
+        const [nip, kind] = pair.split('|') as [string, 'login' | 'token'];
+        const guard = attemptGuard(db, kind, nip);
+        return guard.status === 'locked' ? [{ nip, kind, lockedUntil: new Date(now().getTime() + guard.waitSeconds * 1000).toISOString() }] : [];
+      });
+    },
+
+    unlockAccount: async (nip) => {
+      const db = await ready;
+      requireAdmin(db);
+      recordAttempt(db, 'unlock', nip, true);
+      save(db);
+    }
+  };
+
+  return repo;
+};
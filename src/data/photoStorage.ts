@@ -0,0 +1,66 @@
+import { supabase, supabaseUrl } from '../supabaseClient';
+import { NetworkError } from './repository';
+
+// Sisi terpanjang foto (piksel) setelah dikompres di perangkat
+export const PHOTO_MAX_SIZE = 960;
+const THUMB_SIZE = 160;
+
+// Kontrak penyimpanan foto; implementasi Supabase Storage bisa diganti (mis. S3) tanpa mengubah form absensi.
+// File yang sudah ada tidak pernah ditimpa; unggah ulang ke path yang sama dianggap berhasil.
+export interface BlobStore {
+  upload: (path: string, blob: Blob) => Promise<void>;
+  publicUrl: (path: string) => string;
+}
+
+const PHOTO_BUCKET = 'attendance-photos';
+// Bucket privat; lampiran hanya dibuka lewat URL bertanda tangan dari list_leave_requests
+const ATTACHMENT_BUCKET = 'leave-attachments';
+
+const supabaseBlobStore = (bucket: string): BlobStore => ({
+  upload: async (path, blob) => {
+    const { error } = await supabase.storage.from(bucket).upload(path, blob, { contentType: blob.type, upsert: false });
+    // 409 = path sudah berisi file dari percobaan sebelumnya (path hanya bisa dipakai pemilik sesi).
+    // Error tanpa status HTTP berarti storage tidak terjangkau
+    if (error && (error as { statusCode?: string }).statusCode !== '409') {
+      throw 'status' in error ? new Error(error.message) : new NetworkError(error.message);
+    }
+  },
+  publicUrl: (path) => supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+});
+
+export const photoStore: BlobStore = supabaseBlobStore(PHOTO_BUCKET);
+const attachmentStore: BlobStore = supabaseBlobStore(ATTACHMENT_BUCKET);
+
+// URL dari RPC (mis. attachment_url) relatif terhadap endpoint storage
+export const storageUrl = (path: string) => `${supabaseUrl}/storage/v1${path}`;
+
+// Gambar diperkecil sampai sisi terpanjang maxSize piksel lalu dikompres ke JPEG
+const resizeImage = (src: string, maxSize: number, quality: number) => new Promise<Blob>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    const cvs = document.createElement('canvas');
+    cvs.width = Math.round(img.width * scale);
+    cvs.height = Math.round(img.height * scale);
+    cvs.getContext('2d')?.drawImage(img, 0, 0, cvs.width, cvs.height);
+    cvs.toBlob(blob => blob ? resolve(blob) : reject(new Error('Gagal mengompres foto')), 'image/jpeg', quality);
+  };
+  img.onerror = () => reject(new Error('Foto tidak dapat dibaca'));
+  img.src = src;
+});
+
+// prefix diterbitkan server (issue_photo_upload) dari ID yang stabil, jadi kirim ulang memakai file yang sama
+export const uploadPhoto = async (dataUrl: string, prefix: string) => {
+  const path = `${prefix}.jpg`;
+  const thumbPath = `${prefix}_thumb.jpg`;
+  await photoStore.upload(path, await resizeImage(dataUrl, PHOTO_MAX_SIZE, 0.8));
+  await photoStore.upload(thumbPath, await resizeImage(dataUrl, THUMB_SIZE, 0.7));
+  return { path, thumbUrl: photoStore.publicUrl(thumbPath) };
+};
+
+// Lampiran izin tanpa thumbnail, disimpan di bucket privat
+export const uploadAttachment = async (dataUrl: string, prefix: string) => {
+  const path = `${prefix}.jpg`;
+  await attachmentStore.upload(path, await resizeImage(dataUrl, PHOTO_MAX_SIZE, 0.8));
+  return path;
+};
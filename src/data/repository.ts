@@ -0,0 +1,185 @@
+import type {
+  AccountLock, AttendanceFilter, AttendanceRecord, AttendanceSession, AuthAttempt, CheckOut, Comment, GeofenceResult,
+  LeaveRequest, LoginStatus, OfficeLocation, OrgCatalog, PasswordChangeStatus, RealtimeStatus, ScheduleAssignment, ScheduleResult, TokenStatus,
+  UnreadComments, UserT, WorkSchedule
+} from '../types';
+
+export const ATTENDANCE_PAGE_SIZE = 20;
+export const SESSION_HOURS = 12; // sama dengan masa berlaku user_sessions di RPC login
+export const TOKEN_PASS_MINUTES = 15; // sama dengan token_pass()
+export const ATTENDANCE_PASS_HOURS = 24; // sama dengan masa berlaku attendance_passes di submit_attendance
+
+// Absen masuk dihitung milik sebuah shift jika paling awal 2 jam sebelum shift dimulai
+const SHIFT_EARLY_WINDOW_MINUTES = 120;
+
+// Server tidak terjangkau (offline, koneksi putus). Hanya error ini yang membuat absen masuk antrean offline;
+// error lain berarti server menolak datanya dan kiriman ulang tidak akan berhasil
+export class NetworkError extends Error {}
+
+export type NewLeaveRequest = Pick<LeaveRequest, 'userId' | 'userName' | 'type' | 'startDate' | 'endDate' | 'reason' | 'attachment'>;
+
+// Nilai baru dari admin; status jadwal, total jam dan pulang cepat dihitung ulang oleh pemanggil
+export interface AttendanceCorrection {
+  time: string;
+  checkOutTime?: string;
+  position: string;
+  description: string;
+  schedule?: ScheduleResult;
+  workMinutes?: number;
+  earlyLeaveMinutes?: number;
+}
+
+export type ManualAttendance = AttendanceCorrection & Pick<AttendanceRecord, 'userId' | 'userName' | 'date'>;
+
+// Satu baris import user; password sementara dibuat di klien seperti addUser
+export interface UserImport extends UserT {
+  password: string;
+}
+
+// Sama dengan hasil RPC import_users; skipped = valid tapi tidak dibuat karena import semua-atau-tidak dibatalkan
+export interface UserImportResult {
+  nip: string;
+  status: 'created' | 'invalid' | 'duplicate' | 'skipped';
+}
+
+// Kontrak lapisan data yang dipakai App. Token sesi login disimpan di dalam implementasi
+// (dan di storage perangkat), jadi method admin tidak perlu menerima token dari pemanggil.
+export interface AttendanceRepository {
+  // Pengguna & login
+  login: (nip: string, password: string, role: UserT['role']) => Promise<{ status: LoginStatus; waitSeconds: number; user?: UserT }>;
+  logout: () => Promise<void>;
+  restoreSession: () => Promise<UserT | null>;
+  changePassword: (oldPassword: string, newPassword: string) => Promise<PasswordChangeStatus>;
+  resetPassword: (nip: string, tempPassword: string) => Promise<void>;
+  getUsers: () => Promise<UserT[]>;
+  addUser: (user: UserT, password: string) => Promise<void>;
+  // nip = NIP lama; NIP baru di user.nip ikut mengubah absensi, izin, jadwal dan komentar milik user
+  updateUser: (nip: string, user: UserT) => Promise<void>;
+  setUserActive: (nip: string, active: boolean) => Promise<void>;
+  importUsers: (users: UserImport[], allOrNothing: boolean) => Promise<UserImportResult[]>;
+
+  // Absensi
+  getAttendances: (filter?: AttendanceFilter) => Promise<AttendanceRecord[]>;
+  getAttendance: (id: string) => Promise<AttendanceRecord | null>;
+  queryAttendances: (filter: AttendanceFilter, page: number, pageSize?: number) => Promise<{ rows: AttendanceRecord[]; total: number }>;
+  getDailyCounts: (from: string, to: string) => Promise<{ day: string; total: number }[]>;
+  addAttendance: (record: AttendanceRecord) => Promise<void>;
+  addCheckOut: (recordId: string, checkOut: CheckOut, workMinutes: number) => Promise<void>;
+  correctAttendance: (recordId: string, correction: AttendanceCorrection, reason: string) => Promise<void>;
+  setAttendanceValidity: (recordId: string, invalid: boolean, reason: string) => Promise<void>;
+  addManualAttendance: (record: ManualAttendance, reason: string) => Promise<void>;
+  // Absen baru/berubah dari perangkat lain (termasuk komentar baru). Mengembalikan fungsi berhenti berlangganan
+  subscribeAttendances: (onChange: (record: AttendanceRecord) => void, onStatus: (status: RealtimeStatus) => void) => () => void;
+  countLegacyPhotos: () => Promise<number>;
+  migrateLegacyPhotos: (onProgress: (done: number) => void) => Promise<number>;
+
+  // Diskusi per absen antara admin dan anggota pemilik absen
+  getComments: (attendanceIds: string[]) => Promise<Comment[]>;
+  addComment: (attendanceId: string, text: string) => Promise<void>;
+  markCommentsRead: (attendanceId: string) => Promise<void>;
+  getUnreadComments: () => Promise<UnreadComments[]>;
+
+  // Jadwal kerja
+  getSchedules: () => Promise<WorkSchedule[]>;
+  addSchedule: (schedule: Omit<WorkSchedule, 'id'>) => Promise<void>;
+  deleteSchedule: (id: string) => Promise<void>;
+  getScheduleAssignments: () => Promise<ScheduleAssignment[]>;
+  assignSchedule: (targetType: ScheduleAssignment['targetType'], target: string, scheduleId: string) => Promise<void>;
+  getScheduleForUser: (nip: string) => Promise<WorkSchedule | null>;
+
+  // Izin / sakit / cuti
+  getLeaveRequests: (nip?: string) => Promise<LeaveRequest[]>;
+  addLeaveRequest: (leave: NewLeaveRequest) => Promise<void>;
+  reviewLeaveRequest: (id: string, status: Exclude<LeaveRequest['status'], 'pending'>, admin: UserT, note: string) => Promise<void>;
+
+  // Lokasi kantor
+  getOfficeLocations: () => Promise<OfficeLocation[]>;
+  addOfficeLocation: (site: Omit<OfficeLocation, 'id'>) => Promise<void>;
+  deleteOfficeLocation: (id: string) => Promise<void>;
+
+  // Unit kerja & jabatan; entri yang dihapus dikosongkan di data user
+  getCatalog: () => Promise<OrgCatalog>;
+  addCatalogEntry: (kind: keyof OrgCatalog, name: string) => Promise<void>;
+  deleteCatalogEntry: (kind: keyof OrgCatalog, name: string) => Promise<void>;
+
+  // Token sesi & QR
+  issueQrToken: () => Promise<string>;
+  verifyQrToken: (payload: string) => Promise<'ok' | 'invalid' | 'expired'>;
+  getTodaySessions: () => Promise<AttendanceSession[]>;
+  openSession: (session: Omit<AttendanceSession, 'id' | 'closedAt'>) => Promise<void>;
+  closeSession: (id: string) => Promise<void>;
+  redeemToken: (code: string) => Promise<{ status: TokenStatus; sessionId?: string; waitSeconds: number }>;
+  getTokenPass: () => Promise<{ sessionId?: string } | null>;
+  clearTokenPass: () => Promise<void>;
+
+  // Keamanan login
+  getFailedAttempts: () => Promise<AuthAttempt[]>;
+  getLockedAccounts: () => Promise<AccountLock[]>;
+  unlockAccount: (nip: string) => Promise<void>;
+}
+
+// Pemeriksaan tingkat admin, sama dengan RPC di 027_admin_roles.sql
+export const canManage = (user: UserT | null | undefined) => user?.role === 'admin' && user.adminRole === 'superadmin';
+export const canComment = (user: UserT) => user.role === 'member' || user.adminRole !== 'auditor';
+// Unit kerja yang boleh dilihat supervisor; undefined = tidak dibatasi
+export const unitScope = (user: UserT | null | undefined) => user?.role === 'admin' && user.adminRole === 'supervisor' ? user.department ?? '' : undefined;
+
+// Jadwal pribadi diutamakan, lalu jadwal default untuk semua anggota
+export const pickSchedule = (schedules: WorkSchedule[], assignments: ScheduleAssignment[], nip: string) => {
+  const assignment = assignments.find(a => a.targetType === 'user' && a.target === nip)
+    || assignments.find(a => a.targetType === 'all');
+  return schedules.find(s => s.id === assignment?.scheduleId) || null;
+};
+
+// Rumus haversine, hasil dalam meter
+const distanceMeters = (a: { lat: number; lng: number }, b: { lat: number; lng: number }) => {
+  const R = 6371000;
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+};
+
+// Cocokkan posisi dengan lokasi kantor terdekat; null jika belum ada lokasi yang diatur.
+// Sama dengan nearest_office_location yang dipakai submit_attendance
+export const classifyLocation = (pos: { lat: number; lng: number }, sites: OfficeLocation[]) => {
+  if (sites.length === 0) return null;
+  const nearest = sites
+    .map(site => ({ site, distance: distanceMeters(pos, site) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const result: GeofenceResult = {
+    siteId: nearest.site.id,
+    siteName: nearest.site.name,
+    distance: Math.round(nearest.distance),
+    inside: nearest.distance <= nearest.site.radius
+  };
+  return { result, policy: nearest.site.policy };
+};
+
+// Jam dari toLocaleTimeString('id-ID') memakai titik ("07.30.15"), data lama bisa memakai titik dua
+export const timeToMinutes = (time: string) => {
+  const [h, m] = time.split(/[.:]/).map(Number);
+  return h * 60 + m;
+};
+
+// Selisih bertanda a -> b dalam menit, dibungkus ke rentang -12 s/d +12 jam agar shift malam tetap benar
+export const minutesBetween = (from: number, to: number) => ((to - from + 1440 + 720) % 1440) - 720;
+
+// Sama dengan classify_check_in yang dipakai submit_attendance
+export const classifyCheckIn = (time: string, day: Date, schedule: WorkSchedule | null): ScheduleResult | undefined => {
+  if (!schedule) return undefined;
+  if (!schedule.workDays.includes(day.getDay())) return { status: 'outside', lateMinutes: 0 };
+  const t = timeToMinutes(time);
+  const match = schedule.shifts
+    .map(shift => {
+      const start = timeToMinutes(shift.start);
+      const length = (timeToMinutes(shift.end) - start + 1440) % 1440 || 1440;
+      return { shift, diff: minutesBetween(start, t), length };
+    })
+    .filter(m => m.diff >= -SHIFT_EARLY_WINDOW_MINUTES && m.diff <= m.length)
+    .sort((a, b) => Math.abs(a.diff) - Math.abs(b.diff))[0];
+  if (!match) return { status: 'outside', lateMinutes: 0 };
+  const lateMinutes = Math.max(0, match.diff - schedule.graceMinutes);
+  return { status: lateMinutes > 0 ? 'late' : 'on_time', lateMinutes, shiftName: match.shift.name, shiftEnd: match.shift.end };
+};
@@ -0,0 +1,772 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../supabaseClient';
+import type {
+  AccountLock, AdminRole, AttendanceFilter, AttendanceRecord, AttendanceSession, AuthAttempt, CheckOut, Comment,
+  LeaveRequest, LoginStatus, OfficeLocation, OrgCatalog, PasswordChangeStatus, ScheduleAssignment, TokenStatus, UnreadComments, UserT,
+  WorkSchedule
+} from '../types';
+import {
+  ATTENDANCE_PAGE_SIZE, NetworkError, SESSION_HOURS, pickSchedule,
+  type AttendanceCorrection, type AttendanceRepository, type ManualAttendance, type NewLeaveRequest,
+  type UserImport, type UserImportResult
+} from './repository';
+import { type AttendanceRow, mapAttendance } from './attendanceRow';
+import { storageUrl, uploadAttachment, uploadPhoto } from './photoStorage';
+
+const REALTIME_RETRY_SECONDS = 5;
+
+// ID acak per browser, dipakai untuk membatasi percobaan per perangkat
+const getDeviceId = () => {
+  let id = localStorage.getItem('device_id');
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem('device_id', id);
+  }
+  return id;
+};
+
+interface UserRow {
+  nip: string;
+  name: string;
+  role: UserT['role'];
+  deactivated_at: string | null;
+  department: string | null;
+  position: string | null;
+  admin_role: AdminRole | null;
+}
+
+interface AttendanceSessionRow {
+  id: string;
+  label: string;
+  code: string;
+  starts_at: string;
+  ends_at: string;
+  single_use: boolean;
+  closed_at: string | null;
+}
+
+interface AuthAttemptRow {
+  id: number;
+  kind: AuthAttempt['kind'];
+  nip: string;
+  device_id: string;
+  success: boolean;
+  created_at: string;
+}
+
+interface WorkScheduleRow {
+  id: string;
+  name: string;
+  type: WorkSchedule['type'];
+  shifts: WorkSchedule['shifts'] | null;
+  work_days: number[] | null;
+  grace_minutes: number | null;
+}
+
+interface ScheduleAssignmentRow {
+  schedule_id: string;
+  target_type: ScheduleAssignment['targetType'];
+  target: string;
+}
+
+interface LeaveRequestRow {
+  id: string;
+  user_id: string;
+  user_name: string;
+  type: LeaveRequest['type'];
+  start_date: string;
+  end_date: string;
+  reason: string;
+  attachment_url: string | null; // URL bertanda tangan, relatif terhadap endpoint storage
+  status: LeaveRequest['status'];
+  reviewed_by: string | null;
+  review_note: string | null;
+  created_at: string;
+}
+
+interface OfficeLocationRow {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radius_m: number;
+  policy: OfficeLocation['policy'];
+}
+
+// Baris hasil RPC list_legacy_photos; untuk kind 'leave' kolom photo berisi lampiran izin
+interface LegacyPhotoRow {
+  kind: 'attendance' | 'leave';
+  id: string;
+  photo: string | null;
+  check_out_photo: string | null;
+}
+
+interface CommentRow {
+  id: string;
+  attendance_id: string;
+  author_nip: string;
+  author_name: string;
+  author_role: UserT['role'];
+  body: string;
+  created_at: string;
+}
+
+// AttendanceCorrection -> kolom attendances untuk RPC correct_attendance / create_manual_attendance.
+// Nilai kosong dikirim sebagai null (bukan undefined yang hilang dari JSON) supaya ikut dikosongkan.
+const correctionFields = (c: AttendanceCorrection) => ({
+  time: c.time,
+  check_out_time: c.checkOutTime ?? null,
+  position: c.position,
+  description: c.description,
+  schedule_status: c.schedule?.status ?? null,
+  late_minutes: c.schedule?.lateMinutes ?? null,
+  shift_name: c.schedule?.shiftName ?? null,
+  shift_end: c.schedule?.shiftEnd ?? null,
+  work_minutes: c.workMinutes ?? null,
+  early_leave_minutes: c.earlyLeaveMinutes ?? null
+});
+
+// Filter dan batas unit dijalankan RPC list_attendances; kolom "day" diisi trigger dari kolom teks "date"
+const attendanceQuery = (filter: AttendanceFilter, withCount = false) => {
+  const query = supabase.rpc('list_attendances', {
+    p_token: sessionToken,
+    p_from: filter.from || null,
+    p_to: filter.to || null,
+    p_user_id: filter.userId || null,
+    p_department: filter.department || null,
+    p_position: filter.position || null,
+    p_search: filter.search?.trim() || null
+  }, withCount ? { count: 'exact' } : undefined);
+  // Dalam satu hari baris dikelompokkan per unit kerja untuk laporan harian
+  return query.order('day', { ascending: false }).order('department', { ascending: true, nullsFirst: false }).order('created_at', { ascending: false });
+};
+
+
+// Baris hasil RPC login / session_info
+interface SessionRow {
+  user_nip: string;
+  user_name: string;
+  user_role: UserT['role'];
+  must_change_password: boolean;
+  user_department: string | null;
+  user_position: string | null;
+  user_admin_role: AdminRole | null;
+}
+
+const sessionUserFromRow = (row: SessionRow): UserT => ({
+  nip: row.user_nip,
+  name: row.user_name,
+  role: row.user_role,
+  mustChangePassword: row.must_change_password,
+  department: row.user_department ?? undefined,
+  position: row.user_position ?? undefined,
+  adminRole: row.user_admin_role ?? undefined
+});
+
+// Token sesi dari RPC login; tabel users hanya bisa diakses lewat RPC yang memeriksa token ini.
+// Disimpan di localStorage bersama data user supaya bertahan saat reload dan terbaca oleh tab lain.
+const SESSION_KEY = 'absensi_session';
+
+interface StoredSession {
+  token: string;
+  user: UserT;
+  expiresAt: string; // ISO
+}
+
+const readSession = (): StoredSession | null => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+let sessionToken: string | null = readSession()?.token ?? null;
+
+const storeSession = (session: StoredSession | null) => {
+  sessionToken = session?.token ?? null;
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+};
+
+// Status 0 = permintaan tidak sampai ke server; selain itu server menolak permintaannya
+const requestError = (error: { message: string }, status: number) =>
+  status === 0 ? new NetworkError(error.message) : new Error(error.message);
+
+// Storage hanya menerima unggahan ke path <nip>/<name> yang baru diterbitkan untuk sesi login ini
+const issueUploadPath = async (name: string) => {
+  const { data, error, status } = await supabase.rpc('issue_photo_upload', { p_token: sessionToken, p_name: name });
+  if (error) throw requestError(error, status);
+  return data as string;
+};
+
+const uploadSessionPhoto = async (dataUrl: string, name: string) => uploadPhoto(dataUrl, await issueUploadPath(name));
+const uploadSessionAttachment = async (dataUrl: string, name: string) => uploadAttachment(dataUrl, await issueUploadPath(name));
+
+export const supabaseRepository: AttendanceRepository = {
+  login: async (nip: string, password: string, role: UserT['role']): Promise<{ status: LoginStatus; waitSeconds: number; user?: UserT }> => {
+    const { data, error } = await supabase.rpc('login', { p_nip: nip, p_password: password, p_role: role, p_device: getDeviceId() });
+    if (error) throw new Error(error.message);
+    const row = data?.[0];
+    if (row?.status !== 'ok') return { status: row?.status ?? 'invalid', waitSeconds: row?.wait_seconds ?? 0 };
+    const user = sessionUserFromRow(row);
+    storeSession({ token: row.session_token, user, expiresAt: new Date(Date.now() + SESSION_HOURS * 3600000).toISOString() });
+    return { status: 'ok', waitSeconds: 0, user };
+  },
+
+  // Sesi tersimpan dicek ulang ke server; jika server tidak terjangkau (offline) data user terakhir
+  // tetap dipakai sampai masa berlakunya habis, supaya absen offline masih bisa diantrekan
+  restoreSession: async (): Promise<UserT | null> => {
+    const saved = readSession();
+    if (!saved || new Date(saved.expiresAt) <= new Date()) {
+      storeSession(null);
+      return null;
+    }
+    sessionToken = saved.token;
+    const { data, error } = await supabase.rpc('session_info', { p_token: saved.token });
+    if (error) {
+      console.error("Error Sesi:", error);
+      return saved.user;
+    }
+    const row = data?.[0];
+    if (!row) {
+      storeSession(null);
+      return null;
+    }
+    const user = sessionUserFromRow(row);
+    storeSession({ token: saved.token, user, expiresAt: row.expires_at });
+    return user;
+  },
+
+  changePassword: async (oldPassword: string, newPassword: string): Promise<PasswordChangeStatus> => {
+    const { data, error } = await supabase.rpc('change_password', { p_token: sessionToken, p_old: oldPassword, p_new: newPassword });
+    if (error) throw new Error(error.message);
+    const saved = readSession();
+    if (data === 'ok' && saved) storeSession({ ...saved, user: { ...saved.user, mustChangePassword: false } });
+    return data;
+  },
+
+  resetPassword: async (nip: string, tempPassword: string) => {
+    const { error } = await supabase.rpc('reset_password', { p_token: sessionToken, p_nip: nip, p_temp: tempPassword });
+    if (error) throw new Error(error.message);
+  },
+
+  // Token lokal dihapus lebih dulu supaya logout tetap berlaku walau server tidak terjangkau
+  logout: async () => {
+    const token = sessionToken;
+    storeSession(null);
+    if (token) await supabase.rpc('logout', { p_token: token });
+  },
+
+  getUsers: async (): Promise<UserT[]> => {
+    const { data, error } = await supabase.rpc('list_users', { p_token: sessionToken });
+    if (error) console.error("Error User:", error);
+    return ((data as UserRow[]) || []).map(r => ({
+      nip: r.nip, name: r.name, role: r.role, adminRole: r.admin_role ?? undefined, deactivatedAt: r.deactivated_at ?? undefined,
+      department: r.department ?? undefined, position: r.position ?? undefined
+    }));
+  },
+
+  addUser: async (user: UserT, password: string) => {
+    const { error } = await supabase.rpc('create_user', {
+      p_token: sessionToken, p_nip: user.nip, p_name: user.name, p_role: user.role, p_password: password,
+      p_department: user.department ?? null, p_position: user.position ?? null, p_admin_role: user.adminRole ?? null
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  updateUser: async (nip: string, user: UserT) => {
+    const { error } = await supabase.rpc('update_user', {
+      p_token: sessionToken, p_nip: nip, p_new_nip: user.nip, p_name: user.name, p_role: user.role,
+      p_department: user.department ?? null, p_position: user.position ?? null, p_admin_role: user.adminRole ?? null
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  setUserActive: async (nip: string, active: boolean) => {
+    const { error } = await supabase.rpc('set_user_active', { p_token: sessionToken, p_nip: nip, p_active: active });
+    if (error) throw new Error(error.message);
+  },
+
+  // Satu panggilan RPC = satu transaksi, jadi mode semua-atau-tidak benar-benar tidak menyisakan user
+  importUsers: async (users: UserImport[], allOrNothing: boolean): Promise<UserImportResult[]> => {
+    const { data, error } = await supabase.rpc('import_users', {
+      p_token: sessionToken,
+      p_users: users.map(u => ({
+        nip: u.nip, name: u.name, role: u.role, admin_role: u.adminRole, password: u.password, department: u.department, position: u.position
+      })),
+      p_all_or_nothing: allOrNothing
+    });
+    if (error) throw new Error(error.message);
+    return data as UserImportResult[];
+  },
+
+  // Semua baris yang cocok (untuk ekspor & rekap); diambil per 1000 karena batas baris PostgREST
+  getAttendances: async (filter: AttendanceFilter = {}): Promise<AttendanceRecord[]> => {
+    const rows: AttendanceRecord[] = [];
+    for (let offset = 0; ; offset += 1000) {
+      const { data, error } = await attendanceQuery(filter).range(offset, offset + 999);
+      if (error) {
+        console.error("Error Absen:", error);
+        return rows;
+      }
+      rows.push(...data.map(mapAttendance));
+      if (data.length < 1000) return rows;
+    }
+  },
+
+  getAttendance: async (id: string): Promise<AttendanceRecord | null> => {
+    const { data, error } = await supabase.rpc('get_attendance', { p_token: sessionToken, p_id: id }).maybeSingle<AttendanceRow>();
+    if (error) console.error("Error Absen:", error);
+    return data ? mapAttendance(data) : null;
+  },
+
+  queryAttendances: async (filter: AttendanceFilter, page: number, pageSize = ATTENDANCE_PAGE_SIZE): Promise<{ rows: AttendanceRecord[]; total: number }> => {
+    const { data, count, error } = await attendanceQuery(filter, true).range(page * pageSize, (page + 1) * pageSize - 1);
+    if (error) {
+      console.error("Error Absen:", error);
+      return { rows: [], total: 0 };
+    }
+    return { rows: data.map(mapAttendance), total: count ?? 0 };
+  },
+
+  getDailyCounts: async (from: string, to: string): Promise<{ day: string; total: number }[]> => {
+    const { data, error } = await supabase.rpc('attendance_daily_counts', { p_token: sessionToken, p_from: from, p_to: to });
+    if (error) {
+      console.error("Error Rekap Harian:", error);
+      return [];
+    }
+    return (data as { day: string; total: number }[]).map(d => ({ day: d.day, total: Number(d.total) }));
+  },
+
+  // Kirim ulang dari antrean offline memakai client_id yang sama, jadi data yang sudah masuk diabaikan.
+  // Server menolak absen tanpa token/QR yang lolos; NIP & nama diambil dari sesi login, geofence, jam dan
+  // status jadwal dihitung server
+  addAttendance: async (record: AttendanceRecord) => {
+    const uploaded = await uploadSessionPhoto(record.photo, record.clientId ?? crypto.randomUUID());
+    const { error, status } = await supabase.rpc('submit_attendance', {
+      p_token: sessionToken,
+      p_record: {
+        position: record.position,
+        photo_path: uploaded.path,
+        photo_thumb_url: uploaded.thumbUrl,
+        description: record.description,
+        location_lat: record.location.lat,
+        location_lng: record.location.lng,
+        session_id: record.sessionId ?? null,
+        client_id: record.clientId ?? null,
+        captured_at: record.capturedAt ?? null
+      }
+    });
+    if (error) throw requestError(error, status);
+  },
+
+  // Hanya pemilik absen, dan hanya sekali; server menolak absen orang lain atau yang sudah pulang
+  addCheckOut: async (recordId: string, checkOut: CheckOut, workMinutes: number) => {
+    const uploaded = checkOut.photo ? await uploadSessionPhoto(checkOut.photo, crypto.randomUUID()) : undefined;
+    const { error } = await supabase.rpc('check_out_attendance', {
+      p_token: sessionToken,
+      p_id: recordId,
+      p_record: {
+        check_out_time: checkOut.time,
+        check_out_photo_path: uploaded?.path ?? null,
+        check_out_lat: checkOut.location.lat,
+        check_out_lng: checkOut.location.lng,
+        early_leave_minutes: checkOut.earlyLeaveMinutes ?? null,
+        work_minutes: workMinutes
+      }
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  correctAttendance: async (recordId: string, correction: AttendanceCorrection, reason: string) => {
+    const { error } = await supabase.rpc('correct_attendance', {
+      p_token: sessionToken, p_id: recordId, p_fields: correctionFields(correction), p_reason: reason
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  setAttendanceValidity: async (recordId: string, invalid: boolean, reason: string) => {
+    const { error } = await supabase.rpc('set_attendance_validity', { p_token: sessionToken, p_id: recordId, p_invalid: invalid, p_reason: reason });
+    if (error) throw new Error(error.message);
+  },
+
+  addManualAttendance: async (record: ManualAttendance, reason: string) => {
+    const { error } = await supabase.rpc('create_manual_attendance', {
+      p_token: sessionToken,
+      p_record: { user_id: record.userId, user_name: record.userName, date: record.date, ...correctionFields(record) },
+      p_reason: reason
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  // Kanal yang putus (error/timeout) dilepas lalu dibuat ulang; callback dari kanal lama diabaikan
+  // supaya tidak ada dua kanal aktif yang mengirim event yang sama.
+  // Kanal hanya membawa ID absen (attendance_changes); datanya diambil lewat getAttendance, jadi absen
+  // di luar cakupan user (mis. unit lain untuk supervisor) tidak pernah sampai ke klien
+  subscribeAttendances: (onChange, onStatus) => {
+    let channel: RealtimeChannel | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      onStatus('connecting');
+      const current = supabase.channel(`attendances-${crypto.randomUUID()}`);
+      channel = current;
+      current
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'attendance_changes' }, async (payload) => {
+          if (current !== channel || !payload.new || !('attendance_id' in payload.new)) return;
+          const record = await supabaseRepository.getAttendance(payload.new.attendance_id);
+          if (record && current === channel) onChange(record);
+        })
+        .subscribe((status) => {
+          if (current !== channel) return;
+          if (status === 'SUBSCRIBED') {
+            onStatus('live');
+            return;
+          }
+          channel = null;
+          supabase.removeChannel(current);
+          onStatus('offline');
+          retry = setTimeout(connect, REALTIME_RETRY_SECONDS * 1000);
+        });
+    };
+
+    connect();
+    return () => {
+      clearTimeout(retry);
+      const current = channel;
+      channel = null;
+      if (current) supabase.removeChannel(current);
+    };
+  },
+
+  // Absensi dan pengajuan izin yang masih menyimpan gambar base64
+  countLegacyPhotos: async () => {
+    const { data, error } = await supabase.rpc('count_legacy_photos', { p_token: sessionToken });
+    if (error) {
+      console.error("Error Foto Lama:", error);
+      return 0;
+    }
+    return Number(data);
+  },
+
+  // Foto base64 lama diunggah ke storage per batch, lalu kolom base64-nya dikosongkan
+  migrateLegacyPhotos: async (onProgress: (done: number) => void) => {
+    let done = 0;
+    for (;;) {
+      const { data, error } = await supabase.rpc('list_legacy_photos', { p_token: sessionToken, p_limit: 20 });
+      if (error) throw new Error(error.message);
+      const rows = data as LegacyPhotoRow[];
+      if (rows.length === 0) return done;
+      for (const row of rows) {
+        const photo = !row.photo?.startsWith('data:') ? undefined
+          : row.kind === 'leave' ? { path: await uploadSessionAttachment(row.photo, crypto.randomUUID()), thumbUrl: undefined }
+          : await uploadSessionPhoto(row.photo, crypto.randomUUID());
+        const checkOut = row.check_out_photo?.startsWith('data:') ? await uploadSessionPhoto(row.check_out_photo, crypto.randomUUID()) : undefined;
+        const res = await supabase.rpc('save_migrated_photos', {
+          p_token: sessionToken,
+          p_kind: row.kind,
+          p_id: row.id,
+          p_photo_path: photo?.path ?? null,
+          p_photo_thumb_url: photo?.thumbUrl ?? null,
+          p_check_out_photo_path: checkOut?.path ?? null
+        });
+        if (res.error) throw new Error(res.error.message);
+        onProgress(++done);
+      }
+    }
+  },
+
+  getSchedules: async (): Promise<WorkSchedule[]> => {
+    const { data, error } = await supabase.rpc('list_work_schedules', { p_token: sessionToken });
+    if (error) {
+      console.error("Error Jadwal:", error);
+      return [];
+    }
+    return (data as WorkScheduleRow[]).map((item) => ({
+      id: item.id,
+      name: item.name,
+      type: item.type,
+      shifts: item.shifts || [],
+      workDays: item.work_days || [],
+      graceMinutes: item.grace_minutes ?? 0
+    }));
+  },
+
+  addSchedule: async (schedule: Omit<WorkSchedule, 'id'>) => {
+    const { error } = await supabase.rpc('add_work_schedule', {
+      p_token: sessionToken,
+      p_name: schedule.name,
+      p_type: schedule.type,
+      p_shifts: schedule.shifts,
+      p_work_days: schedule.workDays,
+      p_grace_minutes: schedule.graceMinutes
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  deleteSchedule: async (id: string) => {
+    const { error } = await supabase.rpc('delete_work_schedule', { p_token: sessionToken, p_id: id });
+    if (error) throw new Error(error.message);
+  },
+
+  getScheduleAssignments: async (): Promise<ScheduleAssignment[]> => {
+    const { data, error } = await supabase.rpc('list_schedule_assignments', { p_token: sessionToken });
+    if (error) {
+      console.error("Error Penugasan Jadwal:", error);
+      return [];
+    }
+    return (data as ScheduleAssignmentRow[]).map((item) => ({ scheduleId: item.schedule_id, targetType: item.target_type, target: item.target }));
+  },
+
+  // scheduleId kosong berarti penugasan dihapus
+  assignSchedule: async (targetType: ScheduleAssignment['targetType'], target: string, scheduleId: string) => {
+    const { error } = await supabase.rpc('assign_schedule', {
+      p_token: sessionToken, p_target_type: targetType, p_target: target, p_schedule_id: scheduleId || null
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  getScheduleForUser: async (nip: string): Promise<WorkSchedule | null> => {
+    const [schedules, assignments] = await Promise.all([supabaseRepository.getSchedules(), supabaseRepository.getScheduleAssignments()]);
+    return pickSchedule(schedules, assignments, nip);
+  },
+
+  getComments: async (attendanceIds: string[]): Promise<Comment[]> => {
+    if (attendanceIds.length === 0) return [];
+    const { data, error } = await supabase.rpc('get_attendance_comments', { p_token: sessionToken, p_ids: attendanceIds });
+    if (error) {
+      console.error("Error Komentar:", error);
+      return [];
+    }
+    return (data as CommentRow[]).map(item => ({
+      id: item.id,
+      attendanceId: item.attendance_id,
+      authorId: item.author_nip,
+      authorName: item.author_name,
+      authorRole: item.author_role,
+      text: item.body,
+      timestamp: item.created_at
+    }));
+  },
+
+  // Satu baris per komentar, jadi komentar yang dikirim bersamaan tidak saling menimpa
+  addComment: async (attendanceId: string, text: string) => {
+    const { error } = await supabase.rpc('add_attendance_comment', { p_token: sessionToken, p_id: attendanceId, p_body: text });
+    if (error) throw new Error(error.message);
+  },
+
+  markCommentsRead: async (attendanceId: string) => {
+    const { error } = await supabase.rpc('mark_comments_read', { p_token: sessionToken, p_id: attendanceId });
+    if (error) throw new Error(error.message);
+  },
+
+  getUnreadComments: async (): Promise<UnreadComments[]> => {
+    const { data, error } = await supabase.rpc('unread_comments', { p_token: sessionToken });
+    if (error) {
+      console.error("Error Komentar Belum Dibaca:", error);
+      return [];
+    }
+    return (data as { attendance_id: string; date: string; total: number }[])
+      .map(item => ({ attendanceId: item.attendance_id, date: item.date, count: Number(item.total) }));
+  },
+
+  // Tanpa NIP = semua pengajuan yang boleh dilihat: anggota hanya miliknya, supervisor anggota unitnya
+  getLeaveRequests: async (nip?: string): Promise<LeaveRequest[]> => {
+    const { data, error } = await supabase.rpc('list_leave_requests', { p_token: sessionToken, p_nip: nip ?? null });
+    if (error) {
+      console.error("Error Pengajuan Izin:", error);
+      return [];
+    }
+    return (data as LeaveRequestRow[]).map((item) => ({
+      id: item.id,
+      userId: item.user_id,
+      userName: item.user_name,
+      type: item.type,
+      startDate: item.start_date,
+      endDate: item.end_date,
+      reason: item.reason,
+      attachment: item.attachment_url ? storageUrl(item.attachment_url) : undefined,
+      status: item.status,
+      reviewedBy: item.reviewed_by || undefined,
+      reviewNote: item.review_note || undefined,
+      createdAt: item.created_at
+    }));
+  },
+
+  // NIP & nama pengaju diambil server dari sesi login
+  addLeaveRequest: async (leave: NewLeaveRequest) => {
+    const attachment = leave.attachment ? await uploadSessionAttachment(leave.attachment, crypto.randomUUID()) : undefined;
+    const { error } = await supabase.rpc('submit_leave_request', {
+      p_token: sessionToken,
+      p_type: leave.type,
+      p_start_date: leave.startDate,
+      p_end_date: leave.endDate,
+      p_reason: leave.reason,
+      p_attachment_path: attachment ?? null
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  // Nama peninjau diambil server dari sesi login
+  reviewLeaveRequest: async (id: string, status: Exclude<LeaveRequest['status'], 'pending'>, _admin: UserT, note: string) => {
+    const { error } = await supabase.rpc('review_leave_request', { p_token: sessionToken, p_id: id, p_status: status, p_note: note });
+    if (error) throw new Error(error.message);
+  },
+
+  // Error diteruskan: daftar kosong berarti tidak ada geofence, jadi lokasi yang gagal dimuat tidak boleh
+  // membuat kebijakan 'reject' diam-diam berubah menjadi boleh absen di mana saja
+  getOfficeLocations: async (): Promise<OfficeLocation[]> => {
+    const { data, error, status } = await supabase.rpc('list_office_locations', { p_token: sessionToken });
+    if (error) throw requestError(error, status);
+    return (data as OfficeLocationRow[]).map((item) => ({
+      id: item.id,
+      name: item.name,
+      lat: item.lat,
+      lng: item.lng,
+      radius: item.radius_m,
+      policy: item.policy
+    }));
+  },
+
+  addOfficeLocation: async (site: Omit<OfficeLocation, 'id'>) => {
+    const { error } = await supabase.rpc('add_office_location', {
+      p_token: sessionToken,
+      p_name: site.name,
+      p_lat: site.lat,
+      p_lng: site.lng,
+      p_radius_m: site.radius,
+      p_policy: site.policy
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  deleteOfficeLocation: async (id: string) => {
+    const { error } = await supabase.rpc('delete_office_location', { p_token: sessionToken, p_id: id });
+    if (error) throw new Error(error.message);
+  },
+
+  getCatalog: async (): Promise<OrgCatalog> => {
+    const { data, error } = await supabase.rpc('list_catalog', { p_token: sessionToken });
+    if (error) console.error("Error Katalog:", error);
+    const rows = (data as { kind: keyof OrgCatalog; name: string }[] | null) ?? [];
+    return {
+      departments: rows.filter(r => r.kind === 'departments').map(r => r.name),
+      positions: rows.filter(r => r.kind === 'positions').map(r => r.name)
+    };
+  },
+
+  addCatalogEntry: async (kind: keyof OrgCatalog, name: string) => {
+    const { error } = await supabase.rpc('add_catalog_entry', { p_token: sessionToken, p_kind: kind, p_name: name });
+    if (error) throw new Error(error.message);
+  },
+
+  deleteCatalogEntry: async (kind: keyof OrgCatalog, name: string) => {
+    const { error } = await supabase.rpc('delete_catalog_entry', { p_token: sessionToken, p_kind: kind, p_name: name });
+    if (error) throw new Error(error.message);
+  },
+
+  issueQrToken: async (): Promise<string> => {
+    const { data, error } = await supabase.rpc('issue_attendance_qr', { p_token: sessionToken });
+    if (error) throw new Error(error.message);
+    return data as string;
+  },
+
+  verifyQrToken: async (payload: string): Promise<'ok' | 'invalid' | 'expired'> => {
+    const { data, error } = await supabase.rpc('verify_attendance_qr', { p_token: sessionToken, payload });
+    if (error) throw new Error(error.message);
+    return data;
+  },
+
+  // Kode sesi hanya bisa dibaca superadmin; anggota memakai redeem_attendance_token
+  getTodaySessions: async (): Promise<AttendanceSession[]> => {
+    const dayStart = new Date();
+    dayStart.setHours(0, 0, 0, 0);
+    const { data, error } = await supabase.rpc('list_attendance_sessions', { p_token: sessionToken, p_since: dayStart.toISOString() });
+    if (error) {
+      console.error("Error Sesi:", error);
+      return [];
+    }
+    return (data as AttendanceSessionRow[]).map((item) => ({
+      id: item.id,
+      label: item.label,
+      code: item.code,
+      startsAt: item.starts_at,
+      endsAt: item.ends_at,
+      singleUse: item.single_use,
+      closedAt: item.closed_at || undefined
+    }));
+  },
+
+  openSession: async (session: Omit<AttendanceSession, 'id' | 'closedAt'>) => {
+    const { error } = await supabase.rpc('open_attendance_session', {
+      p_token: sessionToken,
+      p_label: session.label,
+      p_code: session.code,
+      p_starts_at: session.startsAt,
+      p_ends_at: session.endsAt,
+      p_single_use: session.singleUse
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  closeSession: async (id: string) => {
+    const { error } = await supabase.rpc('close_attendance_session', { p_token: sessionToken, p_id: id });
+    if (error) throw new Error(error.message);
+  },
+
+  // Validasi dilakukan di server agar kode sesi tidak perlu dikirim ke browser anggota
+  redeemToken: async (code: string): Promise<{ status: TokenStatus; sessionId?: string; waitSeconds: number }> => {
+    const { data, error } = await supabase.rpc('redeem_attendance_token', { p_token: sessionToken, p_code: code, p_device: getDeviceId() });
+    if (error) throw new Error(error.message);
+    const row = data?.[0];
+    return { status: row?.status ?? 'invalid', sessionId: row?.session_id ?? undefined, waitSeconds: row?.wait_seconds ?? 0 };
+  },
+
+  getTokenPass: async (): Promise<{ sessionId?: string } | null> => {
+    const { data, error } = await supabase.rpc('token_pass', { p_token: sessionToken });
+    if (error) throw new Error(error.message);
+    const row = data?.[0];
+    return row?.passed ? { sessionId: row.session_id ?? undefined } : null;
+  },
+
+  clearTokenPass: async () => {
+    const { error } = await supabase.rpc('clear_token_pass', { p_token: sessionToken });
+    if (error) console.error("Error Token:", error);
+  },
+
+  getFailedAttempts: async (): Promise<AuthAttempt[]> => {
+    const { data, error } = await supabase.rpc('list_failed_attempts', { p_token: sessionToken });
+    if (error) {
+      console.error("Error Log Percobaan:", error);
+      return [];
+    }
+    return (data as AuthAttemptRow[]).map((item) => ({
+      id: String(item.id),
+      kind: item.kind,
+      nip: item.nip,
+      deviceId: item.device_id,
+      success: item.success,
+      timestamp: item.created_at
+    }));
+  },
+
+  getLockedAccounts: async (): Promise<AccountLock[]> => {
+    const { data, error } = await supabase.rpc('locked_accounts', { p_token: sessionToken });
+    if (error) {
+      console.error("Error Akun Terkunci:", error);
+      return [];
+    }
+    return (data || []).map((item: { nip: string; kind: AccountLock['kind']; locked_until: string }) => ({
+      nip: item.nip,
+      kind: item.kind,
+      lockedUntil: item.locked_until
+    }));
+  },
+
+  // Baris 'unlock' dibuat di server; tabel auth_attempts tidak bisa ditulis klien
+  unlockAccount: async (nip: string) => {
+    const { error } = await supabase.rpc('unlock_account', { p_token: sessionToken, p_nip: nip });
+    if (error) throw new Error(error.message);
+  }
+};
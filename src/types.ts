@@ -0,0 +1,166 @@
+// Tipe data bersama untuk App dan lapisan data (src/data)
+
+export interface AttendanceRecord {
+  id: string;
+  userId: string;
+  userName: string;
+  department?: string; // unit kerja user saat absen dibuat
+  date: string;
+  time: string;
+  position: string;
+  photo: string; // URL foto penuh, atau data URL sebelum diunggah
+  thumbnail?: string;
+  description: string;
+  location: { lat: number; lng: number };
+  checkOut?: CheckOut;
+  workMinutes?: number;
+  geofence?: GeofenceResult;
+  sessionId?: string;
+  schedule?: ScheduleResult;
+  clientId?: string;
+  capturedAt?: string; // ISO, waktu selfie & GPS diambil di perangkat
+  receivedAt?: string; // ISO, waktu diterima server
+  invalidReason?: string; // terisi = dinyatakan tidak sah oleh admin, tidak dihitung hadir
+  manual?: boolean; // dibuat admin, tanpa foto & GPS
+  editHistory: EditHistory[];
+}
+export interface CheckOut {
+  time: string;
+  photo?: string;
+  location: { lat: number; lng: number };
+  earlyLeaveMinutes?: number;
+}
+export interface Shift {
+  name: string;
+  start: string; // HH:MM
+  end: string; // HH:MM, boleh lebih kecil dari start untuk shift malam
+}
+export interface WorkSchedule {
+  id: string;
+  name: string;
+  type: 'fixed' | 'shift';
+  shifts: Shift[];
+  workDays: number[]; // 0 = Minggu
+  graceMinutes: number;
+}
+export interface ScheduleAssignment {
+  scheduleId: string;
+  targetType: 'user' | 'all';
+  target: string; // NIP, kosong untuk 'all'
+}
+export interface ScheduleResult {
+  status: 'on_time' | 'late' | 'outside';
+  lateMinutes: number;
+  shiftName?: string;
+  shiftEnd?: string;
+}
+export interface OfficeLocation {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  radius: number; // meter
+  policy: 'reject' | 'flag';
+}
+export interface GeofenceResult {
+  siteId: string;
+  siteName: string;
+  distance: number; // meter
+  inside: boolean;
+}
+export interface AttendanceSession {
+  id: string;
+  label: string;
+  code: string;
+  startsAt: string; // ISO
+  endsAt: string; // ISO
+  singleUse: boolean;
+  closedAt?: string;
+}
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  userName: string;
+  type: 'izin' | 'sakit' | 'cuti';
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  reason: string;
+  attachment?: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewedBy?: string;
+  reviewNote?: string;
+  createdAt: string;
+}
+export interface AttendanceFilter {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  userId?: string;
+  department?: string;
+  position?: string;
+  search?: string; // nama, NIP atau keterangan
+}
+export type AttemptStatus = 'ok' | 'delay' | 'locked';
+export type LoginStatus = AttemptStatus | 'invalid' | 'inactive';
+export type PasswordChangeStatus = 'ok' | 'wrong_password' | 'weak';
+export type TokenStatus = 'ok' | 'invalid' | 'not_open' | 'expired' | 'closed' | 'used' | Exclude<AttemptStatus, 'ok'>;
+export type RealtimeStatus = 'connecting' | 'live' | 'offline';
+export interface AuthAttempt {
+  id: string;
+  kind: 'login' | 'token' | 'unlock';
+  nip: string;
+  deviceId: string;
+  success: boolean;
+  timestamp: string;
+}
+export interface AccountLock {
+  nip: string;
+  kind: 'login' | 'token';
+  lockedUntil: string;
+}
+export interface Comment {
+  id: string;
+  attendanceId: string;
+  authorId: string;
+  authorName: string;
+  authorRole: UserT['role'];
+  text: string;
+  timestamp: string; // ISO
+}
+// Komentar pihak lain yang belum dibaca user yang login, per absen
+export interface UnreadComments {
+  attendanceId: string;
+  date: string;
+  count: number;
+}
+export interface FieldChange {
+  field: string; // time | check_out_time | position | description | status
+  before: string;
+  after: string;
+}
+export interface EditHistory {
+  id: string;
+  editorId: string;
+  editorName: string;
+  action: 'correct' | 'invalidate' | 'restore' | 'manual';
+  reason: string;
+  changes: FieldChange[];
+  timestamp: string; // ISO
+}
+// Tingkat akses admin: superadmin mengelola semua data, supervisor melihat & mengomentari absensi
+// anggota unit kerjanya sendiri, auditor hanya melihat laporan
+export type AdminRole = 'superadmin' | 'supervisor' | 'auditor';
+export interface UserT {
+  nip: string;
+  name: string;
+  role: 'member' | 'admin';
+  adminRole?: AdminRole; // hanya untuk role admin
+  mustChangePassword?: boolean;
+  deactivatedAt?: string; // ISO, terisi = nonaktif: tidak bisa login, riwayat tetap ada
+  department?: string;
+  position?: string;
+}
+// Unit kerja & jabatan yang dikelola admin; user dan absensi menyimpan namanya
+export interface OrgCatalog {
+  departments: string[];
+  positions: string[];
+}
@@ -0,0 +1,7 @@
+-- Absen pulang: disimpan pada baris absen masuk hari yang sama
+alter table attendances
+  add column if not exists check_out_time text,
+  add column if not exists check_out_photo text,
+  add column if not exists check_out_lat double precision,
+  add column if not exists check_out_lng double precision,
+  add column if not exists work_minutes integer;
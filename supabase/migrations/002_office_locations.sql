@@ -0,0 +1,16 @@
+-- Lokasi kantor untuk geofence absen masuk
+create table if not exists office_locations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  lat double precision not null,
+  lng double precision not null,
+  radius_m integer not null default 100,
+  policy text not null default 'flag' check (policy in ('reject', 'flag')),
+  created_at timestamptz not null default now()
+);
+
+alter table attendances
+  add column if not exists site_id uuid references office_locations(id) on delete set null,
+  add column if not exists site_name text,
+  add column if not exists distance_m integer,
+  add column if not exists inside_geofence boolean;
@@ -0,0 +1,37 @@
+-- QR absensi bertanda tangan HMAC. Secret hanya ada di database, klien cukup memanggil RPC.
+create extension if not exists pgcrypto;
+
+create table if not exists qr_secret (
+  id integer primary key default 1 check (id = 1),
+  secret text not null default encode(gen_random_bytes(32), 'hex')
+);
+insert into qr_secret default values on conflict do nothing;
+alter table qr_secret enable row level security;
+
+-- Format payload: absen.v1.<epoch detik>.<hmac sha256 hex>
+create or replace function issue_attendance_qr() returns text
+language sql security definer set search_path = public as $$
+  select 'absen.v1.' || t || '.' || encode(hmac(t, (select secret from qr_secret), 'sha256'), 'hex')
+  from (select extract(epoch from now())::bigint::text as t) x;
+$$;
+
+-- Mengembalikan 'ok', 'invalid' atau 'expired' (lebih dari 30 detik sejak diterbitkan)
+create or replace function verify_attendance_qr(payload text) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  parts text[] := string_to_array(payload, '.');
+  issued bigint;
+begin
+  if array_length(parts, 1) <> 4 or parts[1] <> 'absen' or parts[2] <> 'v1' or parts[3] !~ '^[0-9]+$' then
+    return 'invalid';
+  end if;
+  if encode(hmac(parts[3], (select secret from qr_secret), 'sha256'), 'hex') <> parts[4] then
+    return 'invalid';
+  end if;
+  issued := parts[3]::bigint;
+  if extract(epoch from now())::bigint - issued > 30 or issued > extract(epoch from now())::bigint + 5 then
+    return 'expired';
+  end if;
+  return 'ok';
+end;
+$$;
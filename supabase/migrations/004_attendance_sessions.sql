@@ -0,0 +1,46 @@
+-- Sesi absensi dengan token dan jam berlaku masing-masing, menggantikan daily_token
+create table if not exists attendance_sessions (
+  id uuid primary key default gen_random_uuid(),
+  label text not null,
+  code text not null,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null check (ends_at > starts_at),
+  single_use boolean not null default false,
+  closed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table attendances
+  add column if not exists session_id uuid references attendance_sessions(id) on delete set null;
+
+-- Status: ok | invalid | not_open | expired | closed | used
+create or replace function redeem_attendance_token(p_code text, p_nip text)
+returns table (status text, session_id uuid)
+language plpgsql security definer set search_path = public as $$
+declare
+  s attendance_sessions;
+begin
+  -- Jika ada beberapa sesi hari ini dengan kode yang sama, utamakan yang sedang dibuka
+  select * into s from attendance_sessions a
+   where a.code = p_code
+     and a.starts_at > now() - interval '1 day'
+   order by (a.closed_at is null and now() between a.starts_at and a.ends_at) desc, a.starts_at desc
+   limit 1;
+
+  if not found then
+    return query select 'invalid'::text, null::uuid;
+  elsif s.closed_at is not null then
+    return query select 'closed'::text, s.id;
+  elsif now() < s.starts_at then
+    return query select 'not_open'::text, s.id;
+  elsif now() > s.ends_at then
+    return query select 'expired'::text, s.id;
+  elsif s.single_use and exists (
+    select 1 from attendances t where t.session_id = s.id and t.user_id = p_nip
+  ) then
+    return query select 'used'::text, s.id;
+  else
+    return query select 'ok'::text, s.id;
+  end if;
+end;
+$$;
@@ -0,0 +1,111 @@
+-- Pencatatan percobaan login / token untuk jeda bertahap dan penguncian sementara.
+-- Baris kind = 'unlock' dibuat admin untuk mereset hitungan gagal sebuah NIP.
+create table if not exists auth_attempts (
+  id bigint generated always as identity primary key,
+  kind text not null check (kind in ('login', 'token', 'unlock')),
+  nip text not null,
+  device_id text,
+  success boolean not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists auth_attempts_nip_idx on auth_attempts (nip, created_at desc);
+create index if not exists auth_attempts_device_idx on auth_attempts (device_id, created_at desc);
+
+-- Aturan: >= 3 gagal per NIP -> jeda 1, 2, 4 ... maks 30 detik; >= 5 gagal per NIP
+-- atau >= 10 gagal per perangkat dalam 15 menit -> dikunci 15 menit sejak gagal terakhir.
+create or replace function attempt_guard(p_kind text, p_nip text, p_device text)
+returns table (status text, wait_seconds integer)
+language plpgsql security definer set search_path = public as $$
+declare
+  since timestamptz;
+  nip_failures integer;
+  nip_last timestamptz;
+  device_failures integer;
+  device_last timestamptz;
+  wait integer;
+begin
+  select greatest(now() - interval '15 minutes', max(created_at)) into since
+    from auth_attempts
+   where nip = p_nip and (kind = 'unlock' or (kind = p_kind and success));
+
+  select count(*), max(created_at) into nip_failures, nip_last
+    from auth_attempts
+   where nip = p_nip and kind = p_kind and not success and created_at > since;
+
+  select count(*), max(created_at) into device_failures, device_last
+    from auth_attempts
+   where device_id = p_device and kind = p_kind and not success
+     and created_at > now() - interval '15 minutes';
+
+  if nip_failures >= 5 then
+    return query select 'locked'::text, greatest(1, ceil(extract(epoch from nip_last + interval '15 minutes' - now())))::integer;
+  elsif device_failures >= 10 then
+    return query select 'locked'::text, greatest(1, ceil(extract(epoch from device_last + interval '15 minutes' - now())))::integer;
+  elsif nip_failures >= 3 then
+    wait := least(30, power(2, nip_failures - 3)::integer) - floor(extract(epoch from now() - nip_last))::integer;
+    if wait > 0 then
+      return query select 'delay'::text, wait;
+    else
+      return query select 'ok'::text, 0;
+    end if;
+  else
+    return query select 'ok'::text, 0;
+  end if;
+end;
+$$;
+
+create or replace function locked_accounts()
+returns table (nip text, kind text, locked_until timestamptz)
+language sql security definer set search_path = public as $$
+  select a.nip, a.kind, max(a.created_at) + interval '15 minutes'
+    from auth_attempts a
+   where a.kind in ('login', 'token') and not a.success
+     and a.created_at > now() - interval '15 minutes'
+     and a.created_at > coalesce((
+       select max(b.created_at) from auth_attempts b
+        where b.nip = a.nip and (b.kind = 'unlock' or (b.kind = a.kind and b.success))
+     ), '-infinity')
+   group by a.nip, a.kind
+  having count(*) >= 5;
+$$;
+
+-- Token sesi kini melewati attempt_guard dan mencatat tebakan yang salah
+drop function if exists redeem_attendance_token(text, text);
+create or replace function redeem_attendance_token(p_code text, p_nip text, p_device text)
+returns table (status text, session_id uuid, wait_seconds integer)
+language plpgsql security definer set search_path = public as $$
+declare
+  s attendance_sessions;
+  g record;
+begin
+  select * into g from attempt_guard('token', p_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, null::uuid, g.wait_seconds;
+    return;
+  end if;
+
+  select * into s from attendance_sessions a
+   where a.code = p_code
+     and a.starts_at > now() - interval '1 day'
+   order by (a.closed_at is null and now() between a.starts_at and a.ends_at) desc, a.starts_at desc
+   limit 1;
+
+  if not found then
+    insert into auth_attempts (kind, nip, device_id, success) values ('token', p_nip, p_device, false);
+    return query select 'invalid'::text, null::uuid, 0;
+  elsif s.closed_at is not null then
+    return query select 'closed'::text, s.id, 0;
+  elsif now() < s.starts_at then
+    return query select 'not_open'::text, s.id, 0;
+  elsif now() > s.ends_at then
+    return query select 'expired'::text, s.id, 0;
+  elsif s.single_use and exists (
+    select 1 from attendances t where t.session_id = s.id and t.user_id = p_nip
+  ) then
+    return query select 'used'::text, s.id, 0;
+  else
+    insert into auth_attempts (kind, nip, device_id, success) values ('token', p_nip, p_device, true);
+    return query select 'ok'::text, s.id, 0;
+  end if;
+end;
+$$;
@@ -0,0 +1,113 @@
+-- Autentikasi di server: password disimpan sebagai hash bcrypt dan tabel users
+-- tidak lagi bisa dibaca langsung oleh klien. Semua akses lewat RPC di bawah.
+create extension if not exists pgcrypto;
+
+alter table users add column if not exists password_hash text;
+update users set password_hash = crypt(password, gen_salt('bf')) where password_hash is null;
+alter table users drop column if exists password;
+alter table users alter column password_hash set not null;
+
+revoke all on users from anon, authenticated;
+
+create table if not exists user_sessions (
+  token uuid primary key default gen_random_uuid(),
+  nip text not null references users(nip) on delete cascade,
+  role text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+alter table user_sessions enable row level security;
+revoke all on user_sessions from anon, authenticated;
+
+-- Pengguna dari token sesi yang masih berlaku (null jika tidak valid)
+create or replace function session_user_row(p_token uuid) returns users
+language sql stable security definer set search_path = public as $$
+  select u.* from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now();
+$$;
+
+create or replace function require_admin(p_token uuid) returns void
+language plpgsql stable security definer set search_path = public as $$
+begin
+  if (select role from session_user_row(p_token)) is distinct from 'admin' then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+end;
+$$;
+
+-- Status: ok | invalid | delay | locked
+create or replace function login(p_nip text, p_password text, p_role text, p_device text)
+returns table (status text, wait_seconds integer, session_token uuid, user_nip text, user_name text, user_role text)
+language plpgsql security definer set search_path = public as $$
+declare
+  g record;
+  u users;
+  t uuid;
+begin
+  select * into g from attempt_guard('login', p_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, g.wait_seconds, null::uuid, null::text, null::text, null::text;
+    return;
+  end if;
+
+  select * into u from users
+   where users.nip = p_nip and users.role = p_role
+     and users.password_hash = crypt(p_password, users.password_hash);
+
+  if not found then
+    insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, false);
+    return query select 'invalid'::text, 0, null::uuid, null::text, null::text, null::text;
+    return;
+  end if;
+
+  insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, true);
+  insert into user_sessions (nip, role, expires_at) values (u.nip, u.role, now() + interval '12 hours')
+    returning token into t;
+  return query select 'ok'::text, 0, t, u.nip, u.name, u.role;
+end;
+$$;
+
+create or replace function logout(p_token uuid) returns void
+language sql security definer set search_path = public as $$
+  delete from user_sessions where token = p_token;
+$$;
+
+create or replace function list_users(p_token uuid)
+returns table (nip text, name text, role text)
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query select u.nip, u.name, u.role from users u order by u.name;
+end;
+$$;
+
+create or replace function create_user(p_token uuid, p_nip text, p_name text, p_role text, p_password text)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into users (nip, name, role, password_hash)
+  values (p_nip, p_name, p_role, crypt(p_password, gen_salt('bf')));
+end;
+$$;
+
+create or replace function delete_user(p_token uuid, p_nip text)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  delete from users where nip = p_nip;
+end;
+$$;
+
+-- QR hanya boleh diterbitkan oleh admin yang sudah login
+drop function if exists issue_attendance_qr();
+create or replace function issue_attendance_qr(p_token uuid) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  t text := extract(epoch from now())::bigint::text;
+begin
+  perform require_admin(p_token);
+  return 'absen.v1.' || t || '.' || encode(hmac(t, (select secret from qr_secret), 'sha256'), 'hex');
+end;
+$$;
@@ -0,0 +1,83 @@
+-- Ganti password mandiri dan reset oleh admin dengan password sementara
+alter table users add column if not exists must_change_password boolean not null default false;
+
+-- Sesi milik user yang wajib ganti password hanya bisa dipakai untuk change_password
+create or replace function session_user_row(p_token uuid) returns users
+language sql stable security definer set search_path = public as $$
+  select u.* from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now() and not u.must_change_password;
+$$;
+
+drop function if exists login(text, text, text, text);
+create or replace function login(p_nip text, p_password text, p_role text, p_device text)
+returns table (status text, wait_seconds integer, session_token uuid, user_nip text, user_name text, user_role text, must_change_password boolean)
+language plpgsql security definer set search_path = public as $$
+declare
+  g record;
+  u users;
+  t uuid;
+begin
+  select * into g from attempt_guard('login', p_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, g.wait_seconds, null::uuid, null::text, null::text, null::text, null::boolean;
+    return;
+  end if;
+
+  select * into u from users
+   where users.nip = p_nip and users.role = p_role
+     and users.password_hash = crypt(p_password, users.password_hash);
+
+  if not found then
+    insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, false);
+    return query select 'invalid'::text, 0, null::uuid, null::text, null::text, null::text, null::boolean;
+    return;
+  end if;
+
+  insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, true);
+  insert into user_sessions (nip, role, expires_at) values (u.nip, u.role, now() + interval '12 hours')
+    returning token into t;
+  return query select 'ok'::text, 0, t, u.nip, u.name, u.role, u.must_change_password;
+end;
+$$;
+
+-- Status: ok | wrong_password | weak (aturan sama dengan passwordRules di klien)
+create or replace function change_password(p_token uuid, p_old text, p_new text) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+begin
+  select u2.* into u from user_sessions s join users u2 on u2.nip = s.nip
+   where s.token = p_token and s.expires_at > now();
+  if not found or u.password_hash <> crypt(p_old, u.password_hash) then
+    return 'wrong_password';
+  end if;
+  if length(p_new) < 8 or p_new !~ '[A-Z]' or p_new !~ '[a-z]' or p_new !~ '[0-9]' or p_new = u.nip then
+    return 'weak';
+  end if;
+  update users set password_hash = crypt(p_new, gen_salt('bf')), must_change_password = false
+   where nip = u.nip;
+  return 'ok';
+end;
+$$;
+
+create or replace function reset_password(p_token uuid, p_nip text, p_temp text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  update users set password_hash = crypt(p_temp, gen_salt('bf')), must_change_password = true
+   where nip = p_nip;
+  -- sesi lama user tersebut tidak berlaku lagi
+  delete from user_sessions where nip = p_nip and token <> p_token;
+end;
+$$;
+
+-- Password hasil generate saat user dibuat juga diperlakukan sebagai password sementara
+create or replace function create_user(p_token uuid, p_nip text, p_name text, p_role text, p_password text)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into users (nip, name, role, password_hash, must_change_password)
+  values (p_nip, p_name, p_role, crypt(p_password, gen_salt('bf')), true);
+end;
+$$;
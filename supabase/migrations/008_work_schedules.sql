@@ -0,0 +1,26 @@
+-- Jadwal kerja (jam tetap / shift bergilir) dan klasifikasi keterlambatan
+create table if not exists work_schedules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  type text not null default 'fixed' check (type in ('fixed', 'shift')),
+  shifts jsonb not null default '[]', -- [{ name, start: 'HH:MM', end: 'HH:MM' }]
+  work_days integer[] not null default '{1,2,3,4,5}', -- 0 = Minggu
+  grace_minutes integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- target_type 'user' -> target = NIP; 'all' -> target = '' (jadwal default)
+create table if not exists schedule_assignments (
+  id uuid primary key default gen_random_uuid(),
+  schedule_id uuid not null references work_schedules(id) on delete cascade,
+  target_type text not null check (target_type in ('user', 'all')),
+  target text not null default '',
+  unique (target_type, target)
+);
+
+alter table attendances
+  add column if not exists schedule_status text check (schedule_status in ('on_time', 'late', 'outside')),
+  add column if not exists late_minutes integer,
+  add column if not exists shift_name text,
+  add column if not exists shift_end text,
+  add column if not exists early_leave_minutes integer;
@@ -0,0 +1,19 @@
+-- Pengajuan izin / sakit / cuti dengan persetujuan admin
+create table if not exists leave_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id text not null,
+  user_name text not null,
+  type text not null check (type in ('izin', 'sakit', 'cuti')),
+  start_date date not null,
+  end_date date not null,
+  reason text not null,
+  attachment text, -- foto lampiran (data URL), opsional
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewed_by text,
+  review_note text,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (end_date >= start_date)
+);
+
+create index if not exists leave_requests_user_idx on leave_requests (user_id, start_date);
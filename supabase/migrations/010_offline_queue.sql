@@ -0,0 +1,17 @@
+-- Antrean absensi offline: waktu pengambilan di perangkat disimpan terpisah dari waktu diterima server
+alter table attendances
+  add column if not exists client_id uuid unique, -- ID dari perangkat, mencegah data ganda saat kirim ulang
+  add column if not exists captured_at timestamptz;
+
+-- created_at = waktu diterima server, tidak boleh diisi dari klien
+create or replace function attendances_received_at() returns trigger
+language plpgsql as $$
+begin
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists attendances_received_at on attendances;
+create trigger attendances_received_at before insert on attendances
+  for each row execute function attendances_received_at();
@@ -0,0 +1,22 @@
+-- Foto selfie dipindah ke Supabase Storage; tabel hanya menyimpan path dan URL thumbnail
+insert into storage.buckets (id, name, public)
+values ('attendance-photos', 'attendance-photos', true)
+on conflict (id) do nothing;
+
+-- Nama file memakai UUID acak, jadi URL publik tidak bisa ditebak
+drop policy if exists "attendance photos insert" on storage.objects;
+create policy "attendance photos insert" on storage.objects
+  for insert to anon with check (bucket_id = 'attendance-photos');
+
+-- Kirim ulang dari antrean offline menimpa file dengan path yang sama
+drop policy if exists "attendance photos update" on storage.objects;
+create policy "attendance photos update" on storage.objects
+  for update to anon using (bucket_id = 'attendance-photos');
+
+alter table attendances
+  add column if not exists photo_path text,
+  add column if not exists photo_thumb_url text,
+  add column if not exists check_out_photo_path text;
+
+-- Kolom base64 lama dikosongkan setelah dimigrasi dari Admin Panel
+alter table attendances alter column photo drop not null;
@@ -0,0 +1,30 @@
+-- Kolom tanggal asli agar data absensi bisa difilter per rentang di server
+-- (kolom "date" tetap teks id-ID "19/10/2026" untuk kompatibilitas)
+alter table attendances add column if not exists day date;
+
+update attendances set day = to_date(date, 'DD/MM/YYYY') where day is null;
+
+create or replace function attendances_set_day() returns trigger
+language plpgsql as $$
+begin
+  new.day := to_date(new.date, 'DD/MM/YYYY');
+  return new;
+end;
+$$;
+
+drop trigger if exists attendances_set_day on attendances;
+create trigger attendances_set_day before insert or update of date on attendances
+  for each row execute function attendances_set_day();
+
+create index if not exists attendances_day_idx on attendances (day desc);
+create index if not exists attendances_user_day_idx on attendances (user_id, day desc);
+
+-- Jumlah absen per hari untuk kartu tanggal di Laporan Harian
+create or replace function attendance_daily_counts(p_from date, p_to date)
+returns table (day date, total bigint)
+language sql stable as $$
+  select a.day, count(*) from attendances a
+   where a.day between p_from and p_to
+   group by a.day
+   order by a.day desc;
+$$;
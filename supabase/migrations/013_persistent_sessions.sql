@@ -0,0 +1,92 @@
+-- Sesi login yang bertahan saat halaman dimuat ulang, dan penanda lolos token absen
+-- yang dicatat di server (menggantikan flag 'token_ok' di sessionStorage klien)
+alter table user_sessions
+  add column if not exists token_passed_at timestamptz,
+  add column if not exists token_session_id uuid references attendance_sessions(id) on delete set null;
+
+-- Dipanggil saat aplikasi dibuka dengan token yang tersimpan di perangkat.
+-- User yang wajib ganti password tetap dikembalikan agar form ganti password bisa tampil lagi.
+create or replace function session_info(p_token uuid)
+returns table (user_nip text, user_name text, user_role text, must_change_password boolean, expires_at timestamptz)
+language sql stable security definer set search_path = public as $$
+  select u.nip, u.name, u.role, u.must_change_password, s.expires_at
+    from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now();
+$$;
+
+-- NIP diambil dari sesi login, bukan dari parameter klien
+drop function if exists redeem_attendance_token(text, text, text);
+create or replace function redeem_attendance_token(p_token uuid, p_code text, p_device text)
+returns table (status text, session_id uuid, wait_seconds integer)
+language plpgsql security definer set search_path = public as $$
+declare
+  s attendance_sessions;
+  g record;
+  v_nip text := (select nip from session_user_row(p_token));
+begin
+  if v_nip is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+
+  select * into g from attempt_guard('token', v_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, null::uuid, g.wait_seconds;
+    return;
+  end if;
+
+  select * into s from attendance_sessions a
+   where a.code = p_code
+     and a.starts_at > now() - interval '1 day'
+   order by (a.closed_at is null and now() between a.starts_at and a.ends_at) desc, a.starts_at desc
+   limit 1;
+
+  if not found then
+    insert into auth_attempts (kind, nip, device_id, success) values ('token', v_nip, p_device, false);
+    return query select 'invalid'::text, null::uuid, 0;
+  elsif s.closed_at is not null then
+    return query select 'closed'::text, s.id, 0;
+  elsif now() < s.starts_at then
+    return query select 'not_open'::text, s.id, 0;
+  elsif now() > s.ends_at then
+    return query select 'expired'::text, s.id, 0;
+  elsif s.single_use and exists (
+    select 1 from attendances t where t.session_id = s.id and t.user_id = v_nip
+  ) then
+    return query select 'used'::text, s.id, 0;
+  else
+    insert into auth_attempts (kind, nip, device_id, success) values ('token', v_nip, p_device, true);
+    update user_sessions set token_passed_at = now(), token_session_id = s.id where token = p_token;
+    return query select 'ok'::text, s.id, 0;
+  end if;
+end;
+$$;
+
+-- QR yang valid juga dicatat pada sesi login (tanpa sesi absensi)
+create or replace function verify_attendance_qr(p_token uuid, payload text) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  result text := verify_attendance_qr(payload);
+begin
+  if (select nip from session_user_row(p_token)) is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  if result = 'ok' then
+    update user_sessions set token_passed_at = now(), token_session_id = null where token = p_token;
+  end if;
+  return result;
+end;
+$$;
+
+-- Penanda lolos token berlaku 15 menit dan dihapus setelah absen masuk terkirim
+create or replace function token_pass(p_token uuid)
+returns table (passed boolean, session_id uuid)
+language sql stable security definer set search_path = public as $$
+  select coalesce(s.token_passed_at > now() - interval '15 minutes', false), s.token_session_id
+    from user_sessions s
+   where s.token = p_token and s.expires_at > now();
+$$;
+
+create or replace function clear_token_pass(p_token uuid) returns void
+language sql security definer set search_path = public as $$
+  update user_sessions set token_passed_at = null, token_session_id = null where token = p_token;
+$$;
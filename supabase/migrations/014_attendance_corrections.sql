@@ -0,0 +1,107 @@
+-- Koreksi absensi oleh admin. Setiap perubahan dicatat di edit_history (jsonb, seperti kolom comments)
+-- dengan nilai sebelum/sesudah; editor diambil dari token sesi, bukan dari klien.
+alter table attendances
+  add column if not exists edit_history jsonb not null default '[]',
+  add column if not exists invalid_reason text, -- terisi = absen dinyatakan tidak sah dan tidak dihitung hadir
+  add column if not exists manual boolean not null default false; -- dibuat admin karena perangkat anggota bermasalah
+
+-- Absen manual tidak punya foto maupun GPS
+alter table attendances alter column location_lat drop not null;
+alter table attendances alter column location_lng drop not null;
+
+-- Entri riwayat: { id, editorId, editorName, action, reason, changes: [{ field, before, after }], timestamp }
+create or replace function attendance_edit_entry(p_token uuid, p_action text, p_reason text, p_changes jsonb)
+returns jsonb
+language sql security definer set search_path = public as $$
+  select jsonb_build_object(
+    'id', gen_random_uuid(), 'editorId', u.nip, 'editorName', u.name, 'action', p_action,
+    'reason', p_reason, 'changes', p_changes, 'timestamp', now()
+  ) from session_user_row(p_token) u;
+$$;
+
+-- p_fields: time, check_out_time, position, description (dicatat di riwayat) serta schedule_status,
+-- late_minutes, shift_name, shift_end, work_minutes, early_leave_minutes yang dihitung ulang di klien
+create or replace function correct_attendance(p_token uuid, p_id text, p_fields jsonb, p_reason text)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  old jsonb;
+  changes jsonb := '[]';
+  f text;
+begin
+  perform require_admin(p_token);
+  select to_jsonb(a) into old from attendances a where a.id::text = p_id for update;
+  if old is null then
+    raise exception 'Data absensi tidak ditemukan';
+  end if;
+
+  foreach f in array array['time', 'check_out_time', 'position', 'description'] loop
+    if p_fields ? f and (p_fields->>f) is distinct from (old->>f) then
+      changes := changes || jsonb_build_object('field', f, 'before', coalesce(old->>f, ''), 'after', p_fields->>f);
+    end if;
+  end loop;
+  if jsonb_array_length(changes) = 0 then
+    return;
+  end if;
+
+  update attendances a set
+    "time" = coalesce(p_fields->>'time', a."time"),
+    check_out_time = coalesce(p_fields->>'check_out_time', a.check_out_time),
+    position = coalesce(p_fields->>'position', a.position),
+    description = coalesce(p_fields->>'description', a.description),
+    schedule_status = case when p_fields ? 'schedule_status' then p_fields->>'schedule_status' else a.schedule_status end,
+    late_minutes = case when p_fields ? 'late_minutes' then (p_fields->>'late_minutes')::integer else a.late_minutes end,
+    shift_name = case when p_fields ? 'shift_name' then p_fields->>'shift_name' else a.shift_name end,
+    shift_end = case when p_fields ? 'shift_end' then p_fields->>'shift_end' else a.shift_end end,
+    work_minutes = case when p_fields ? 'work_minutes' then (p_fields->>'work_minutes')::integer else a.work_minutes end,
+    early_leave_minutes = case when p_fields ? 'early_leave_minutes' then (p_fields->>'early_leave_minutes')::integer else a.early_leave_minutes end,
+    edit_history = a.edit_history || attendance_edit_entry(p_token, 'correct', p_reason, changes)
+   where a.id::text = p_id;
+end;
+$$;
+
+create or replace function set_attendance_validity(p_token uuid, p_id text, p_invalid boolean, p_reason text)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  update attendances a set
+    invalid_reason = case when p_invalid then p_reason end,
+    edit_history = a.edit_history || attendance_edit_entry(
+      p_token, case when p_invalid then 'invalidate' else 'restore' end, p_reason,
+      jsonb_build_array(jsonb_build_object(
+        'field', 'status',
+        'before', case when a.invalid_reason is null then 'Sah' else 'Tidak sah' end,
+        'after', case when p_invalid then 'Tidak sah' else 'Sah' end
+      ))
+    )
+   where a.id::text = p_id;
+  if not found then
+    raise exception 'Data absensi tidak ditemukan';
+  end if;
+end;
+$$;
+
+-- p_record: user_id, user_name, date, time, position, description, check_out_time (opsional)
+-- dan kolom jadwal yang sama dengan correct_attendance
+create or replace function create_manual_attendance(p_token uuid, p_record jsonb, p_reason text)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into attendances (
+    user_id, user_name, "date", "time", position, description, check_out_time, work_minutes,
+    schedule_status, late_minutes, shift_name, shift_end, early_leave_minutes, manual, comments, edit_history
+  ) values (
+    p_record->>'user_id', p_record->>'user_name', p_record->>'date', p_record->>'time',
+    p_record->>'position', p_record->>'description', p_record->>'check_out_time', (p_record->>'work_minutes')::integer,
+    p_record->>'schedule_status', (p_record->>'late_minutes')::integer, p_record->>'shift_name', p_record->>'shift_end',
+    (p_record->>'early_leave_minutes')::integer, true, '[]',
+    jsonb_build_array(attendance_edit_entry(p_token, 'manual', p_reason, (
+      select coalesce(jsonb_agg(jsonb_build_object('field', f, 'before', '', 'after', p_record->>f)), '[]')
+        from unnest(array['time', 'check_out_time', 'position', 'description']) f
+       where p_record->>f is not null
+    )))
+  );
+end;
+$$;
@@ -0,0 +1,100 @@
+-- Komentar absensi di tabel sendiri. Sebelumnya array jsonb attendances.comments ditulis ulang
+-- seluruhnya setiap kali ada komentar baru, sehingga dua komentar bersamaan bisa saling menimpa.
+create table if not exists attendance_comments (
+  id uuid primary key default gen_random_uuid(),
+  attendance_id text not null, -- attendances.id sebagai teks, sama seperti RPC koreksi
+  author_nip text not null,
+  author_name text not null,
+  author_role text not null,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now()
+);
+create index if not exists attendance_comments_attendance_idx on attendance_comments (attendance_id, created_at);
+alter table attendance_comments enable row level security;
+revoke all on attendance_comments from anon, authenticated;
+
+-- Kapan user terakhir membuka diskusi sebuah absen; komentar pihak lain setelahnya belum dibaca
+create table if not exists attendance_comment_reads (
+  attendance_id text not null,
+  nip text not null,
+  read_at timestamptz not null default now(),
+  primary key (attendance_id, nip)
+);
+alter table attendance_comment_reads enable row level security;
+revoke all on attendance_comment_reads from anon, authenticated;
+
+-- Pindahkan komentar lama. Waktunya tersimpan sebagai teks lokal browser, jadi urutan diambil
+-- dari posisi di array. Anggota sudah melihatnya di kotak "Pesan dari Admin", jadi ditandai terbaca.
+insert into attendance_comments (attendance_id, author_nip, author_name, author_role, body, created_at)
+select a.id::text, c->>'adminId', c->>'adminName', 'admin', c->>'text',
+       coalesce(a.created_at, a.day::timestamptz, now()) + n * interval '1 second'
+  from attendances a, jsonb_array_elements(coalesce(a.comments::jsonb, '[]')) with ordinality as e(c, n)
+ where coalesce(trim(c->>'text'), '') <> ''
+   and not exists (select 1 from attendance_comments x where x.attendance_id = a.id::text);
+
+insert into attendance_comment_reads (attendance_id, nip)
+select distinct c.attendance_id, a.user_id
+  from attendance_comments c join attendances a on a.id::text = c.attendance_id
+on conflict do nothing;
+
+-- Kolom lama tidak ditulis lagi oleh aplikasi
+alter table attendances alter column comments set default '[]';
+
+-- Admin boleh membuka diskusi semua absen; anggota hanya absen miliknya sendiri
+create or replace function can_access_attendance(p_token uuid, p_id text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from session_user_row(p_token) u
+     where u.nip is not null and not u.must_change_password
+       and exists (select 1 from attendances a where a.id::text = p_id and (u.role = 'admin' or a.user_id = u.nip))
+  );
+$$;
+
+create or replace function get_attendance_comments(p_token uuid, p_ids text[])
+returns setof attendance_comments
+language sql stable security definer set search_path = public as $$
+  select c.* from attendance_comments c
+   where c.attendance_id = any(p_ids) and can_access_attendance(p_token, c.attendance_id)
+   order by c.created_at;
+$$;
+
+create or replace function mark_comments_read(p_token uuid, p_id text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  if not can_access_attendance(p_token, p_id) then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  insert into attendance_comment_reads (attendance_id, nip)
+  values (p_id, (select nip from session_user_row(p_token)))
+  on conflict (attendance_id, nip) do update set read_at = now();
+end;
+$$;
+
+-- Penulis diambil dari token sesi; komentar sendiri langsung dianggap terbaca
+create or replace function add_attendance_comment(p_token uuid, p_id text, p_body text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+begin
+  if not can_access_attendance(p_token, p_id) then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  select * into u from session_user_row(p_token);
+  insert into attendance_comments (attendance_id, author_nip, author_name, author_role, body)
+  values (p_id, u.nip, u.name, u.role, trim(p_body));
+  perform mark_comments_read(p_token, p_id);
+end;
+$$;
+
+-- Jumlah komentar belum dibaca per absen: untuk admin balasan anggota, untuk anggota komentar admin
+create or replace function unread_comments(p_token uuid)
+returns table (attendance_id text, date text, total bigint)
+language sql stable security definer set search_path = public as $$
+  select c.attendance_id, a.date, count(*)
+    from session_user_row(p_token) u
+    join attendance_comments c on c.author_role <> u.role
+    join attendances a on a.id::text = c.attendance_id and (u.role = 'admin' or a.user_id = u.nip)
+    left join attendance_comment_reads r on r.attendance_id = c.attendance_id and r.nip = u.nip
+   where c.created_at > coalesce(r.read_at, '-infinity')
+   group by c.attendance_id, a.date;
+$$;
@@ -0,0 +1,27 @@
+-- Realtime untuk dashboard admin: insert/update attendances dikirim ke klien yang berlangganan.
+-- attendance_comments tidak bisa dibaca klien (RLS), jadi komentar baru diteruskan sebagai
+-- update kolom last_comment_at pada absen yang dikomentari.
+alter table attendances add column if not exists last_comment_at timestamptz;
+
+create or replace function attendance_comments_touch() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  update attendances set last_comment_at = new.created_at where id::text = new.attendance_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists attendance_comments_touch on attendance_comments;
+create trigger attendance_comments_touch after insert on attendance_comments
+  for each row execute function attendance_comments_touch();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+     where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'attendances'
+  ) then
+    alter publication supabase_realtime add table attendances;
+  end if;
+end;
+$$;
@@ -0,0 +1,43 @@
+-- Import user massal. p_users: [{ nip, name, role, password }], password sementara dibuat di klien
+-- seperti create_user. Hasil per baris (urutan sama dengan input):
+--   created | invalid (NIP/nama/password kosong atau role tidak dikenal) | duplicate (NIP sudah ada
+--   atau muncul lebih dulu di file) | skipped (valid, tapi import dibatalkan oleh p_all_or_nothing)
+create or replace function import_users(p_token uuid, p_users jsonb, p_all_or_nothing boolean)
+returns table (nip text, status text)
+language plpgsql security definer set search_path = public as $$
+declare
+  item record;
+  nips text[] := '{}';
+  results text[] := '{}';
+begin
+  perform require_admin(p_token);
+
+  begin
+    for item in
+      select trim(e->>'nip') as nip, trim(e->>'name') as name, e->>'role' as role, e->>'password' as password
+        from jsonb_array_elements(p_users) e
+    loop
+      nips := nips || item.nip;
+      if coalesce(item.nip, '') = '' or coalesce(item.name, '') = '' or coalesce(item.password, '') = ''
+         or coalesce(item.role, '') not in ('admin', 'member') then
+        results := results || 'invalid'::text;
+      elsif exists (select 1 from users u where u.nip = item.nip) then
+        results := results || 'duplicate'::text;
+      else
+        insert into users (nip, name, role, password_hash, must_change_password)
+        values (item.nip, item.name, item.role, crypt(item.password, gen_salt('bf')), true);
+        results := results || 'created'::text;
+      end if;
+    end loop;
+
+    if p_all_or_nothing and results && array['invalid', 'duplicate'] then
+      raise exception 'import dibatalkan';
+    end if;
+  exception when raise_exception then
+    -- insert di blok ini sudah di-rollback; variabel hasil tetap ada
+    results := array(select case when r = 'created' then 'skipped' else r end from unnest(results) r);
+  end;
+
+  return query select t.n, t.r from unnest(nips, results) as t(n, r);
+end;
+$$;
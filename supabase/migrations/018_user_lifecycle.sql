@@ -0,0 +1,129 @@
+-- Siklus hidup user: ubah nama/role, koreksi NIP, dan nonaktifkan tanpa menghapus riwayat.
+-- Hapus permanen meninggalkan absensi, izin dan komentar tanpa pemilik, jadi delete_user dihapus.
+alter table users add column if not exists deactivated_at timestamptz;
+
+drop function if exists delete_user(uuid, text);
+
+-- User nonaktif tidak punya sesi yang berlaku, termasuk sesi yang sudah terlanjur dibuat
+create or replace function session_user_row(p_token uuid) returns users
+language sql stable security definer set search_path = public as $$
+  select u.* from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now() and not u.must_change_password and u.deactivated_at is null;
+$$;
+
+create or replace function session_info(p_token uuid)
+returns table (user_nip text, user_name text, user_role text, must_change_password boolean, expires_at timestamptz)
+language sql stable security definer set search_path = public as $$
+  select u.nip, u.name, u.role, u.must_change_password, s.expires_at
+    from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now() and u.deactivated_at is null;
+$$;
+
+-- Status: ok | invalid | delay | locked | inactive (password benar, akun dinonaktifkan)
+create or replace function login(p_nip text, p_password text, p_role text, p_device text)
+returns table (status text, wait_seconds integer, session_token uuid, user_nip text, user_name text, user_role text, must_change_password boolean)
+language plpgsql security definer set search_path = public as $$
+declare
+  g record;
+  u users;
+  t uuid;
+begin
+  select * into g from attempt_guard('login', p_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, g.wait_seconds, null::uuid, null::text, null::text, null::text, null::boolean;
+    return;
+  end if;
+
+  select * into u from users
+   where users.nip = p_nip and users.role = p_role
+     and users.password_hash = crypt(p_password, users.password_hash);
+
+  if not found or u.deactivated_at is not null then
+    insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, false);
+    return query select (case when u.nip is null then 'invalid' else 'inactive' end)::text, 0, null::uuid, null::text, null::text, null::text, null::boolean;
+    return;
+  end if;
+
+  insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, true);
+  insert into user_sessions (nip, role, expires_at) values (u.nip, u.role, now() + interval '12 hours')
+    returning token into t;
+  return query select 'ok'::text, 0, t, u.nip, u.name, u.role, u.must_change_password;
+end;
+$$;
+
+drop function if exists list_users(uuid);
+create or replace function list_users(p_token uuid)
+returns table (nip text, name text, role text, deactivated_at timestamptz)
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query select u.nip, u.name, u.role, u.deactivated_at from users u order by u.name;
+end;
+$$;
+
+-- Koreksi NIP ikut mengubah semua baris yang menyimpan NIP sebagai teks. Nama di absensi dan izin
+-- adalah salinan saat dibuat, jadi ikut diperbarui agar laporan memakai nama yang sudah dikoreksi.
+-- Sesi user dihapus bila NIP atau role berubah; user login ulang dengan data baru.
+create or replace function update_user(p_token uuid, p_nip text, p_new_nip text, p_name text, p_role text)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_admin text;
+  v_nip text := trim(p_new_nip);
+  v_name text := trim(p_name);
+  old users;
+begin
+  perform require_admin(p_token);
+  v_admin := (select nip from session_user_row(p_token));
+
+  select * into old from users where nip = p_nip;
+  if not found then
+    raise exception 'User tidak ditemukan';
+  end if;
+  if coalesce(v_nip, '') = '' or coalesce(v_name, '') = '' or p_role not in ('admin', 'member') then
+    raise exception 'NIP, nama dan role wajib diisi';
+  end if;
+  if p_nip = v_admin and (v_nip <> p_nip or p_role <> old.role) then
+    raise exception 'NIP dan role akun sendiri tidak bisa diubah';
+  end if;
+
+  if v_nip <> p_nip or p_role <> old.role then
+    delete from user_sessions where nip = p_nip;
+  end if;
+
+  if v_nip <> p_nip then
+    if exists (select 1 from users where nip = v_nip) then
+      raise exception 'NIP % sudah terdaftar', v_nip;
+    end if;
+    update users set nip = v_nip where nip = p_nip;
+    update attendances set user_id = v_nip where user_id = p_nip;
+    update leave_requests set user_id = v_nip where user_id = p_nip;
+    update schedule_assignments set target = v_nip where target_type = 'user' and target = p_nip;
+    update attendance_comments set author_nip = v_nip where author_nip = p_nip;
+    update attendance_comment_reads set nip = v_nip where nip = p_nip;
+    update auth_attempts set nip = v_nip where nip = p_nip;
+  end if;
+
+  update users set name = v_name, role = p_role where nip = v_nip;
+  update attendances set user_name = v_name where user_id = v_nip and user_name <> v_name;
+  update leave_requests set user_name = v_name where user_id = v_nip and user_name <> v_name;
+  update attendance_comments set author_name = v_name where author_nip = v_nip and author_name <> v_name;
+end;
+$$;
+
+-- Nonaktif: login ditolak dan sesi yang berjalan diputus; riwayat tetap ada
+create or replace function set_user_active(p_token uuid, p_nip text, p_active boolean)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  if p_nip = (select nip from session_user_row(p_token)) then
+    raise exception 'Akun sendiri tidak bisa dinonaktifkan';
+  end if;
+  update users set deactivated_at = case when p_active then null else coalesce(deactivated_at, now()) end
+   where nip = p_nip;
+  if not p_active then
+    delete from user_sessions where nip = p_nip;
+  end if;
+end;
+$$;
@@ -0,0 +1,202 @@
+-- Unit kerja dan katalog jabatan yang dikelola admin. Sebelumnya jabatan diketik bebas oleh anggota
+-- setiap absen, sehingga satu jabatan muncul dengan banyak ejaan dan laporan tidak bisa dikelompokkan.
+create table if not exists departments (
+  name text primary key check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+create unique index if not exists departments_name_ci on departments (lower(name));
+
+create table if not exists positions (
+  name text primary key check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+create unique index if not exists positions_name_ci on positions (lower(name));
+
+-- Unit & jabatan user mengacu ke katalog; entri katalog yang dihapus dikosongkan di user
+alter table users
+  add column if not exists department text references departments(name) on update cascade on delete set null,
+  add column if not exists position text references positions(name) on update cascade on delete set null;
+
+-- Unit kerja disalin ke absensi saat dibuat (seperti user_name), jadi laporan lama tetap
+-- dikelompokkan menurut unit saat itu walaupun user kemudian pindah unit
+alter table attendances add column if not exists department text;
+create index if not exists attendances_day_department_idx on attendances (day, department);
+
+create or replace function attendances_set_department() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  new.department := (select u.department from users u where u.nip = new.user_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists attendances_set_department on attendances;
+create trigger attendances_set_department before insert on attendances
+  for each row execute function attendances_set_department();
+
+drop function if exists login(text, text, text, text);
+create or replace function login(p_nip text, p_password text, p_role text, p_device text)
+returns table (
+  status text, wait_seconds integer, session_token uuid, user_nip text, user_name text, user_role text,
+  must_change_password boolean, user_department text, user_position text
+)
+language plpgsql security definer set search_path = public as $$
+declare
+  g record;
+  u users;
+  t uuid;
+begin
+  select * into g from attempt_guard('login', p_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, g.wait_seconds, null::uuid, null::text, null::text, null::text, null::boolean, null::text, null::text;
+    return;
+  end if;
+
+  select * into u from users
+   where users.nip = p_nip and users.role = p_role
+     and users.password_hash = crypt(p_password, users.password_hash);
+
+  if not found or u.deactivated_at is not null then
+    insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, false);
+    return query select (case when u.nip is null then 'invalid' else 'inactive' end)::text, 0, null::uuid, null::text, null::text, null::text, null::boolean, null::text, null::text;
+    return;
+  end if;
+
+  insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, true);
+  insert into user_sessions (nip, role, expires_at) values (u.nip, u.role, now() + interval '12 hours')
+    returning token into t;
+  return query select 'ok'::text, 0, t, u.nip, u.name, u.role, u.must_change_password, u.department, u.position;
+end;
+$$;
+
+drop function if exists session_info(uuid);
+create or replace function session_info(p_token uuid)
+returns table (
+  user_nip text, user_name text, user_role text, must_change_password boolean, expires_at timestamptz,
+  user_department text, user_position text
+)
+language sql stable security definer set search_path = public as $$
+  select u.nip, u.name, u.role, u.must_change_password, s.expires_at, u.department, u.position
+    from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now() and u.deactivated_at is null;
+$$;
+
+drop function if exists list_users(uuid);
+create or replace function list_users(p_token uuid)
+returns table (nip text, name text, role text, deactivated_at timestamptz, department text, "position" text)
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query select u.nip, u.name, u.role, u.deactivated_at, u.department, u.position from users u order by u.name;
+end;
+$$;
+
+drop function if exists create_user(uuid, text, text, text, text);
+create or replace function create_user(
+  p_token uuid, p_nip text, p_name text, p_role text, p_password text, p_department text, p_position text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into users (nip, name, role, password_hash, must_change_password, department, position)
+  values (p_nip, p_name, p_role, crypt(p_password, gen_salt('bf')), true, nullif(trim(p_department), ''), nullif(trim(p_position), ''));
+end;
+$$;
+
+drop function if exists update_user(uuid, text, text, text, text);
+create or replace function update_user(
+  p_token uuid, p_nip text, p_new_nip text, p_name text, p_role text, p_department text, p_position text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_admin text;
+  v_nip text := trim(p_new_nip);
+  v_name text := trim(p_name);
+  old users;
+begin
+  perform require_admin(p_token);
+  v_admin := (select nip from session_user_row(p_token));
+
+  select * into old from users where nip = p_nip;
+  if not found then
+    raise exception 'User tidak ditemukan';
+  end if;
+  if coalesce(v_nip, '') = '' or coalesce(v_name, '') = '' or p_role not in ('admin', 'member') then
+    raise exception 'NIP, nama dan role wajib diisi';
+  end if;
+  if p_nip = v_admin and (v_nip <> p_nip or p_role <> old.role) then
+    raise exception 'NIP dan role akun sendiri tidak bisa diubah';
+  end if;
+
+  if v_nip <> p_nip or p_role <> old.role then
+    delete from user_sessions where nip = p_nip;
+  end if;
+
+  if v_nip <> p_nip then
+    if exists (select 1 from users where nip = v_nip) then
+      raise exception 'NIP % sudah terdaftar', v_nip;
+    end if;
+    update users set nip = v_nip where nip = p_nip;
+    update attendances set user_id = v_nip where user_id = p_nip;
+    update leave_requests set user_id = v_nip where user_id = p_nip;
+    update schedule_assignments set target = v_nip where target_type = 'user' and target = p_nip;
+    update attendance_comments set author_nip = v_nip where author_nip = p_nip;
+    update attendance_comment_reads set nip = v_nip where nip = p_nip;
+    update auth_attempts set nip = v_nip where nip = p_nip;
+  end if;
+
+  update users set name = v_name, role = p_role,
+         department = nullif(trim(p_department), ''), position = nullif(trim(p_position), '')
+   where nip = v_nip;
+  update attendances set user_name = v_name where user_id = v_nip and user_name <> v_name;
+  update leave_requests set user_name = v_name where user_id = v_nip and user_name <> v_name;
+  update attendance_comments set author_name = v_name where author_nip = v_nip and author_name <> v_name;
+end;
+$$;
+
+-- Sama dengan 017, ditambah department & position opsional. Nilai yang tidak ada di katalog
+-- dilaporkan sebagai invalid, bukan dibiarkan gagal di foreign key (yang membatalkan semua baris).
+create or replace function import_users(p_token uuid, p_users jsonb, p_all_or_nothing boolean)
+returns table (nip text, status text)
+language plpgsql security definer set search_path = public as $$
+declare
+  item record;
+  nips text[] := '{}';
+  results text[] := '{}';
+begin
+  perform require_admin(p_token);
+
+  begin
+    for item in
+      select trim(e->>'nip') as nip, trim(e->>'name') as name, e->>'role' as role, e->>'password' as password,
+             nullif(trim(e->>'department'), '') as department, nullif(trim(e->>'position'), '') as position
+        from jsonb_array_elements(p_users) e
+    loop
+      nips := nips || item.nip;
+      if coalesce(item.nip, '') = '' or coalesce(item.name, '') = '' or coalesce(item.password, '') = ''
+         or coalesce(item.role, '') not in ('admin', 'member')
+         or (item.department is not null and not exists (select 1 from departments d where d.name = item.department))
+         or (item.position is not null and not exists (select 1 from positions p where p.name = item.position)) then
+        results := results || 'invalid'::text;
+      elsif exists (select 1 from users u where u.nip = item.nip) then
+        results := results || 'duplicate'::text;
+      else
+        insert into users (nip, name, role, password_hash, must_change_password, department, position)
+        values (item.nip, item.name, item.role, crypt(item.password, gen_salt('bf')), true, item.department, item.position);
+        results := results || 'created'::text;
+      end if;
+    end loop;
+
+    if p_all_or_nothing and results && array['invalid', 'duplicate'] then
+      raise exception 'import dibatalkan';
+    end if;
+  exception when raise_exception then
+    -- insert di blok ini sudah di-rollback; variabel hasil tetap ada
+    results := array(select case when r = 'created' then 'skipped' else r end from unnest(results) r);
+  end;
+
+  return query select t.n, t.r from unnest(nips, results) as t(n, r);
+end;
+$$;
@@ -0,0 +1,49 @@
+-- Koreksi kini menggantikan kolom yang dikirim apa adanya, sama dengan memoryRepository.
+-- Sebelumnya coalesce membuat jam pulang tidak bisa dikosongkan, dan jam pulang untuk absen
+-- yang belum pulang tercatat di riwayat walaupun di backend memori tidak disimpan.
+--   check_out_time null -> absen pulang dihapus beserta foto & lokasinya (work_minutes & early_leave_minutes
+--                          dikirim null oleh klien); jam sebelumnya tetap tercatat di edit_history
+--   check_out_time pada absen tanpa pulang -> dicatat tanpa foto & GPS seperti absen manual
+create or replace function correct_attendance(p_token uuid, p_id text, p_fields jsonb, p_reason text)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  old jsonb;
+  changes jsonb := '[]';
+  f text;
+  clear_out boolean := p_fields ? 'check_out_time' and nullif(p_fields->>'check_out_time', '') is null;
+begin
+  perform require_admin(p_token);
+  select to_jsonb(a) into old from attendances a where a.id::text = p_id for update;
+  if old is null then
+    raise exception 'Data absensi tidak ditemukan';
+  end if;
+
+  foreach f in array array['time', 'check_out_time', 'position', 'description'] loop
+    if p_fields ? f and coalesce(p_fields->>f, '') <> coalesce(old->>f, '') then
+      changes := changes || jsonb_build_object('field', f, 'before', coalesce(old->>f, ''), 'after', coalesce(p_fields->>f, ''));
+    end if;
+  end loop;
+  if jsonb_array_length(changes) = 0 then
+    return;
+  end if;
+
+  update attendances a set
+    "time" = case when p_fields ? 'time' then p_fields->>'time' else a."time" end,
+    check_out_time = case when p_fields ? 'check_out_time' then nullif(p_fields->>'check_out_time', '') else a.check_out_time end,
+    check_out_photo = case when clear_out then null else a.check_out_photo end,
+    check_out_photo_path = case when clear_out then null else a.check_out_photo_path end,
+    check_out_lat = case when clear_out then null else a.check_out_lat end,
+    check_out_lng = case when clear_out then null else a.check_out_lng end,
+    position = case when p_fields ? 'position' then p_fields->>'position' else a.position end,
+    description = case when p_fields ? 'description' then p_fields->>'description' else a.description end,
+    schedule_status = case when p_fields ? 'schedule_status' then p_fields->>'schedule_status' else a.schedule_status end,
+    late_minutes = case when p_fields ? 'late_minutes' then (p_fields->>'late_minutes')::integer else a.late_minutes end,
+    shift_name = case when p_fields ? 'shift_name' then p_fields->>'shift_name' else a.shift_name end,
+    shift_end = case when p_fields ? 'shift_end' then p_fields->>'shift_end' else a.shift_end end,
+    work_minutes = case when p_fields ? 'work_minutes' then (p_fields->>'work_minutes')::integer else a.work_minutes end,
+    early_leave_minutes = case when p_fields ? 'early_leave_minutes' then (p_fields->>'early_leave_minutes')::integer else a.early_leave_minutes end,
+    edit_history = a.edit_history || attendance_edit_entry(p_token, 'correct', p_reason, changes)
+   where a.id::text = p_id;
+end;
+$$;
@@ -0,0 +1,47 @@
+-- auth_attempts tidak lagi bisa dibaca/ditulis langsung oleh klien. Sebelumnya siapa pun yang memegang
+-- anon key bisa menyisipkan baris 'unlock' untuk mereset penguncian lalu terus menebak password atau
+-- kode sesi, dan membaca seluruh log percobaan. Buka kunci dan log kini lewat RPC khusus admin.
+alter table auth_attempts enable row level security;
+revoke all on auth_attempts from anon, authenticated;
+
+-- Hanya dipanggil dari fungsi security definer (login, redeem_attendance_token)
+revoke execute on function attempt_guard(text, text, text) from public, anon, authenticated;
+
+create or replace function unlock_account(p_token uuid, p_nip text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into auth_attempts (kind, nip, device_id, success) values ('unlock', p_nip, null, true);
+end;
+$$;
+
+-- 100 percobaan gagal terakhir untuk panel Keamanan Login
+create or replace function list_failed_attempts(p_token uuid)
+returns setof auth_attempts
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query select * from auth_attempts a where not a.success order by a.created_at desc limit 100;
+end;
+$$;
+
+-- Sama dengan 005, ditambah token admin
+drop function if exists locked_accounts();
+create or replace function locked_accounts(p_token uuid)
+returns table (nip text, kind text, locked_until timestamptz)
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query
+  select a.nip, a.kind, max(a.created_at) + interval '15 minutes'
+    from auth_attempts a
+   where a.kind in ('login', 'token') and not a.success
+     and a.created_at > now() - interval '15 minutes'
+     and a.created_at > coalesce((
+       select max(b.created_at) from auth_attempts b
+        where b.nip = a.nip and (b.kind = 'unlock' or (b.kind = a.kind and b.success))
+     ), '-infinity')
+   group by a.nip, a.kind
+  having count(*) >= 5;
+end;
+$$;
@@ -0,0 +1,35 @@
+-- attendance_sessions tidak lagi bisa diakses langsung oleh klien. Sebelumnya anggota bisa membaca
+-- kolom code dengan anon key tanpa memindai QR, bahkan membuka atau menutup sesi sendiri.
+-- Anggota hanya memakai redeem_attendance_token; kelola sesi lewat RPC khusus admin.
+alter table attendance_sessions enable row level security;
+revoke all on attendance_sessions from anon, authenticated;
+
+-- p_since = awal hari menurut perangkat admin, sama dengan filter sebelumnya
+create or replace function list_attendance_sessions(p_token uuid, p_since timestamptz)
+returns setof attendance_sessions
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query select * from attendance_sessions s where s.starts_at >= p_since order by s.starts_at;
+end;
+$$;
+
+create or replace function open_attendance_session(
+  p_token uuid, p_label text, p_code text, p_starts_at timestamptz, p_ends_at timestamptz, p_single_use boolean
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into attendance_sessions (label, code, starts_at, ends_at, single_use)
+  values (p_label, p_code, p_starts_at, p_ends_at, p_single_use);
+end;
+$$;
+
+create or replace function close_attendance_session(p_token uuid, p_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  update attendance_sessions set closed_at = now() where id = p_id and closed_at is null;
+end;
+$$;
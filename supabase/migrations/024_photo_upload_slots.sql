@@ -0,0 +1,44 @@
+-- Foto hanya bisa diunggah ke path yang diterbitkan server, dan file yang sudah ada tidak bisa ditimpa.
+-- Sebelumnya anon boleh insert dan update di seluruh bucket, sehingga klien mana pun bisa mengganti
+-- selfie atau foto pulang anggota lain dan menghilangkan bukti audit.
+-- Path: <nip pengunggah>/<uuid>(.jpg | _thumb.jpg). Foto lama yang dimigrasi admin masuk ke folder admin.
+create table if not exists photo_upload_slots (
+  path text primary key,
+  nip text not null,
+  expires_at timestamptz not null
+);
+alter table photo_upload_slots enable row level security;
+revoke all on photo_upload_slots from anon, authenticated;
+
+-- p_name dari klien (client_id untuk absen masuk), jadi kirim ulang dari antrean offline memakai path yang sama
+create or replace function issue_photo_upload(p_token uuid, p_name uuid) returns text
+language plpgsql security definer set search_path = public as $$
+declare
+  v_nip text := (select nip from session_user_row(p_token));
+  v_path text;
+begin
+  if v_nip is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  delete from photo_upload_slots where expires_at < now() - interval '1 day';
+  v_path := v_nip || '/' || p_name;
+  insert into photo_upload_slots (path, nip, expires_at) values (v_path, v_nip, now() + interval '15 minutes')
+  on conflict (path) do update set expires_at = excluded.expires_at;
+  return v_path;
+end;
+$$;
+
+-- Dipanggil dari policy storage yang berjalan sebagai anon, jadi security definer
+create or replace function photo_upload_allowed(p_name text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from photo_upload_slots s
+     where s.expires_at > now() and p_name in (s.path || '.jpg', s.path || '_thumb.jpg')
+  );
+$$;
+
+-- Tanpa policy update/delete, objek yang sudah ada tidak bisa ditimpa atau dihapus klien
+drop policy if exists "attendance photos update" on storage.objects;
+drop policy if exists "attendance photos insert" on storage.objects;
+create policy "attendance photos insert" on storage.objects
+  for insert to anon with check (bucket_id = 'attendance-photos' and photo_upload_allowed(name));
@@ -0,0 +1,81 @@
+-- Absen masuk ditulis lewat RPC yang memeriksa token/QR di server. Sebelumnya klien meng-upsert langsung
+-- ke attendances, jadi penanda lolos token (013) hanya dicek oleh alur React.
+-- Setiap token/QR yang lolos menjadi satu izin absen masuk yang berlaku 1 hari, supaya absen yang tertahan
+-- di antrean offline (penanda di user_sessions sudah dihapus klien) tetap bisa dikirim kemudian.
+create table if not exists attendance_passes (
+  id uuid primary key default gen_random_uuid(),
+  nip text not null,
+  session_id uuid references attendance_sessions(id) on delete set null, -- null = lolos lewat QR
+  redeemed_at timestamptz not null default now(),
+  used_at timestamptz
+);
+create index if not exists attendance_passes_nip_idx on attendance_passes (nip, redeemed_at desc);
+alter table attendance_passes enable row level security;
+revoke all on attendance_passes from anon, authenticated;
+
+-- redeem_attendance_token dan verify_attendance_qr mengisi token_passed_at; setiap pengisian dicatat sebagai izin
+create or replace function user_sessions_record_pass() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into attendance_passes (nip, session_id) values (new.nip, new.token_session_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists user_sessions_record_pass on user_sessions;
+create trigger user_sessions_record_pass after update of token_passed_at on user_sessions
+  for each row when (new.token_passed_at is not null and new.token_passed_at is distinct from old.token_passed_at)
+  execute function user_sessions_record_pass();
+
+-- p_record: kolom attendances dari klien. NIP dan nama diambil dari sesi; foto harus berada di folder
+-- unggahan milik user (024). Kirim ulang dengan client_id yang sama diabaikan tanpa memakai izin baru.
+create or replace function submit_attendance(p_token uuid, p_record jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+  r attendances := jsonb_populate_record(null::attendances, p_record);
+  s attendance_sessions;
+  v_pass uuid;
+begin
+  select * into u from session_user_row(p_token);
+  if u.nip is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  if r.client_id is not null and exists (select 1 from attendances a where a.client_id = r.client_id) then
+    return;
+  end if;
+  if r.photo_path is null or r.photo_path not like u.nip || '/%.jpg'
+     or coalesce(r.photo_thumb_url, '') not like '%/' || replace(r.photo_path, '.jpg', '_thumb.jpg') then
+    raise exception 'Foto absen tidak valid';
+  end if;
+
+  select * into s from attendance_sessions where id = r.session_id;
+  if s.single_use and exists (select 1 from attendances a where a.session_id = s.id and a.user_id = u.nip) then
+    raise exception 'Token sesi sudah dipakai';
+  end if;
+
+  select p.id into v_pass from attendance_passes p
+   where p.nip = u.nip and p.used_at is null and p.redeemed_at > now() - interval '1 day'
+     and p.session_id is not distinct from r.session_id
+   order by p.redeemed_at
+   limit 1
+   for update;
+  if v_pass is null then
+    raise exception 'Token absen belum divalidasi' using errcode = '42501';
+  end if;
+  update attendance_passes set used_at = now() where id = v_pass;
+
+  insert into attendances (
+    user_id, user_name, "date", "time", position, photo_path, photo_thumb_url, description, location_lat, location_lng,
+    site_id, site_name, distance_m, inside_geofence, session_id, schedule_status, late_minutes, shift_name, shift_end,
+    client_id, captured_at
+  ) values (
+    u.nip, u.name, r."date", r."time", r.position, r.photo_path, r.photo_thumb_url, r.description, r.location_lat, r.location_lng,
+    r.site_id, r.site_name, r.distance_m, r.inside_geofence, r.session_id, r.schedule_status, r.late_minutes, r.shift_name, r.shift_end,
+    r.client_id, r.captured_at
+  );
+end;
+$$;
+
+-- Absen masuk hanya lewat submit_attendance
+revoke insert on attendances from anon, authenticated;
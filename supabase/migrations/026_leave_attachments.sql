@@ -0,0 +1,4 @@
+-- Lampiran izin disimpan di storage (folder unggahan milik pengaju, lihat 024); baris hanya menyimpan path-nya.
+-- Sebelumnya lampiran berupa data URL di kolom attachment, sehingga setiap admin memuat daftar pengajuan
+-- ikut mengunduh seluruh gambar. Kolom attachment lama dikosongkan lewat migrasi foto di dashboard admin.
+alter table leave_requests add column if not exists attachment_path text;
@@ -0,0 +1,634 @@
+-- Tingkat admin. Sebelumnya setiap admin bisa melihat semua data dan mengubah apa pun.
+--   superadmin: semua fitur admin seperti sebelumnya; admin yang sudah ada menjadi superadmin
+--   supervisor: hanya melihat dan mengomentari absensi anggota unit kerjanya sendiri
+--   auditor:    melihat semua laporan tanpa bisa mengubah data atau berkomentar
+-- users.role tetap 'member' | 'admin' (dipakai halaman login dan author_role komentar).
+-- Supaya tingkat ini tidak bisa dilewati dengan anon key, attendances, leave_requests, jadwal, lokasi kantor dan
+-- katalog tidak lagi diakses langsung lewat PostgREST; semua baca/tulis lewat RPC yang memeriksa token sesi:
+--   absensi : dibaca semua user yang login, dibatasi attendance_in_scope (anggota hanya absen sendiri)
+--   izin    : anggota hanya pengajuan sendiri, supervisor pengajuan anggota unitnya, direview superadmin
+--   jadwal, lokasi kantor, katalog: dibaca semua user yang login (dipakai form absen), diubah superadmin
+alter table users add column if not exists admin_role text check (admin_role in ('superadmin', 'supervisor', 'auditor'));
+update users set admin_role = 'superadmin' where role = 'admin' and admin_role is null;
+update users set admin_role = null where role <> 'admin';
+alter table users drop constraint if exists users_admin_role_required;
+alter table users add constraint users_admin_role_required check ((role = 'admin') = (admin_role is not null));
+
+-- Semua RPC yang memanggil require_admin (kelola user, koreksi, absen manual, QR) kini khusus superadmin
+create or replace function require_admin(p_token uuid) returns void
+language plpgsql stable security definer set search_path = public as $$
+begin
+  if (select admin_role from session_user_row(p_token)) is distinct from 'superadmin' then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+end;
+$$;
+
+-- Semua tingkat admin; dipakai RPC yang hanya membaca
+create or replace function require_staff(p_token uuid) returns users
+language plpgsql stable security definer set search_path = public as $$
+declare
+  u users;
+begin
+  select * into u from session_user_row(p_token);
+  if u.role is distinct from 'admin' then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  return u;
+end;
+$$;
+
+-- Anggota: absen sendiri. Supervisor: absen unitnya menurut unit yang disalin saat absen dibuat (019).
+create or replace function attendance_in_scope(u users, a attendances) returns boolean
+language sql immutable as $$
+  select a.user_id = u.nip
+      or u.admin_role in ('superadmin', 'auditor')
+      or (u.admin_role = 'supervisor' and a.department = u.department);
+$$;
+
+create or replace function can_access_attendance(p_token uuid, p_id text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from session_user_row(p_token) u
+      join attendances a on a.id::text = p_id
+     where u.nip is not null and attendance_in_scope(u, a)
+  );
+$$;
+
+-- Auditor boleh membaca diskusi, tapi tidak menulis
+create or replace function add_attendance_comment(p_token uuid, p_id text, p_body text) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+begin
+  select * into u from session_user_row(p_token);
+  if not can_access_attendance(p_token, p_id) or u.admin_role = 'auditor' then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  insert into attendance_comments (attendance_id, author_nip, author_name, author_role, body)
+  values (p_id, u.nip, u.name, u.role, trim(p_body));
+  perform mark_comments_read(p_token, p_id);
+end;
+$$;
+
+create or replace function unread_comments(p_token uuid)
+returns table (attendance_id text, date text, total bigint)
+language sql stable security definer set search_path = public as $$
+  select c.attendance_id, a.date, count(*)
+    from session_user_row(p_token) u
+    join attendance_comments c on c.author_role <> u.role
+    join attendances a on a.id::text = c.attendance_id and attendance_in_scope(u, a)
+    left join attendance_comment_reads r on r.attendance_id = c.attendance_id and r.nip = u.nip
+   where c.created_at > coalesce(r.read_at, '-infinity')
+   group by c.attendance_id, a.date;
+$$;
+
+-- Sama dengan 012, ditambah token admin supaya jumlah per hari untuk supervisor hanya menghitung unitnya.
+-- Token kosong/kedaluwarsa ditolak, bukan dihitung tanpa batas unit.
+drop function if exists attendance_daily_counts(date, date);
+create or replace function attendance_daily_counts(p_token uuid, p_from date, p_to date)
+returns table (day date, total bigint)
+language plpgsql stable security definer set search_path = public as $$
+declare
+  u users;
+begin
+  u := require_staff(p_token);
+  return query select a.day, count(*) from attendances a
+   where a.day between p_from and p_to and attendance_in_scope(u, a)
+   group by a.day
+   order by a.day desc;
+end;
+$$;
+
+drop function if exists login(text, text, text, text);
+create or replace function login(p_nip text, p_password text, p_role text, p_device text)
+returns table (
+  status text, wait_seconds integer, session_token uuid, user_nip text, user_name text, user_role text,
+  must_change_password boolean, user_department text, user_position text, user_admin_role text
+)
+language plpgsql security definer set search_path = public as $$
+declare
+  g record;
+  u users;
+  t uuid;
+begin
+  select * into g from attempt_guard('login', p_nip, p_device);
+  if g.status <> 'ok' then
+    return query select g.status, g.wait_seconds, null::uuid, null::text, null::text, null::text, null::boolean, null::text, null::text, null::text;
+    return;
+  end if;
+
+  select * into u from users
+   where users.nip = p_nip and users.role = p_role
+     and users.password_hash = crypt(p_password, users.password_hash);
+
+  if not found or u.deactivated_at is not null then
+    insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, false);
+    return query select (case when u.nip is null then 'invalid' else 'inactive' end)::text, 0, null::uuid, null::text, null::text, null::text, null::boolean, null::text, null::text, null::text;
+    return;
+  end if;
+
+  insert into auth_attempts (kind, nip, device_id, success) values ('login', p_nip, p_device, true);
+  insert into user_sessions (nip, role, expires_at) values (u.nip, u.role, now() + interval '12 hours')
+    returning token into t;
+  return query select 'ok'::text, 0, t, u.nip, u.name, u.role, u.must_change_password, u.department, u.position, u.admin_role;
+end;
+$$;
+
+drop function if exists session_info(uuid);
+create or replace function session_info(p_token uuid)
+returns table (
+  user_nip text, user_name text, user_role text, must_change_password boolean, expires_at timestamptz,
+  user_department text, user_position text, user_admin_role text
+)
+language sql stable security definer set search_path = public as $$
+  select u.nip, u.name, u.role, u.must_change_password, s.expires_at, u.department, u.position, u.admin_role
+    from user_sessions s join users u on u.nip = s.nip
+   where s.token = p_token and s.expires_at > now() and u.deactivated_at is null;
+$$;
+
+-- Supervisor hanya melihat dirinya dan anggota unitnya; auditor melihat semua tanpa bisa mengubah
+drop function if exists list_users(uuid);
+create or replace function list_users(p_token uuid)
+returns table (nip text, name text, role text, deactivated_at timestamptz, department text, "position" text, admin_role text)
+language plpgsql security definer set search_path = public as $$
+declare
+  v users;
+begin
+  v := require_staff(p_token);
+  return query select u.nip, u.name, u.role, u.deactivated_at, u.department, u.position, u.admin_role from users u
+   where v.admin_role <> 'supervisor' or u.nip = v.nip or (u.role = 'member' and u.department = v.department)
+   order by u.name;
+end;
+$$;
+
+drop function if exists create_user(uuid, text, text, text, text, text, text);
+create or replace function create_user(
+  p_token uuid, p_nip text, p_name text, p_role text, p_password text, p_department text, p_position text, p_admin_role text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into users (nip, name, role, password_hash, must_change_password, department, position, admin_role)
+  values (
+    p_nip, p_name, p_role, crypt(p_password, gen_salt('bf')), true, nullif(trim(p_department), ''), nullif(trim(p_position), ''),
+    case when p_role = 'admin' then coalesce(p_admin_role, 'superadmin') end
+  );
+end;
+$$;
+
+-- Sama dengan 019, ditambah tingkat admin (kosong = superadmin seperti admin sebelumnya).
+-- Perubahan tingkat ikut memutus sesi user tersebut.
+drop function if exists update_user(uuid, text, text, text, text, text, text);
+create or replace function update_user(
+  p_token uuid, p_nip text, p_new_nip text, p_name text, p_role text, p_department text, p_position text, p_admin_role text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_admin text;
+  v_nip text := trim(p_new_nip);
+  v_name text := trim(p_name);
+  v_admin_role text := case when p_role = 'admin' then coalesce(p_admin_role, 'superadmin') end;
+  old users;
+begin
+  perform require_admin(p_token);
+  v_admin := (select nip from session_user_row(p_token));
+
+  select * into old from users where nip = p_nip;
+  if not found then
+    raise exception 'User tidak ditemukan';
+  end if;
+  if coalesce(v_nip, '') = '' or coalesce(v_name, '') = '' or p_role not in ('admin', 'member') then
+    raise exception 'NIP, nama dan role wajib diisi';
+  end if;
+  if p_nip = v_admin and (v_nip <> p_nip or p_role <> old.role or v_admin_role is distinct from old.admin_role) then
+    raise exception 'NIP dan role akun sendiri tidak bisa diubah';
+  end if;
+
+  if v_nip <> p_nip or p_role <> old.role or v_admin_role is distinct from old.admin_role then
+    delete from user_sessions where nip = p_nip;
+  end if;
+
+  if v_nip <> p_nip then
+    if exists (select 1 from users where nip = v_nip) then
+      raise exception 'NIP % sudah terdaftar', v_nip;
+    end if;
+    update users set nip = v_nip where nip = p_nip;
+    update attendances set user_id = v_nip where user_id = p_nip;
+    update leave_requests set user_id = v_nip where user_id = p_nip;
+    update schedule_assignments set target = v_nip where target_type = 'user' and target = p_nip;
+    update attendance_comments set author_nip = v_nip where author_nip = p_nip;
+    update attendance_comment_reads set nip = v_nip where nip = p_nip;
+    update auth_attempts set nip = v_nip where nip = p_nip;
+  end if;
+
+  update users set name = v_name, role = p_role, admin_role = v_admin_role,
+         department = nullif(trim(p_department), ''), position = nullif(trim(p_position), '')
+   where nip = v_nip;
+  update attendances set user_name = v_name where user_id = v_nip and user_name <> v_name;
+  update leave_requests set user_name = v_name where user_id = v_nip and user_name <> v_name;
+  update attendance_comments set author_name = v_name where author_nip = v_nip and author_name <> v_name;
+end;
+$$;
+
+-- Sama dengan 019; admin_role yang tidak dikenal dilaporkan sebagai invalid
+create or replace function import_users(p_token uuid, p_users jsonb, p_all_or_nothing boolean)
+returns table (nip text, status text)
+language plpgsql security definer set search_path = public as $$
+declare
+  item record;
+  nips text[] := '{}';
+  results text[] := '{}';
+begin
+  perform require_admin(p_token);
+
+  begin
+    for item in
+      select trim(e->>'nip') as nip, trim(e->>'name') as name, e->>'role' as role, e->>'password' as password,
+             nullif(trim(e->>'department'), '') as department, nullif(trim(e->>'position'), '') as position,
+             e->>'admin_role' as admin_role
+        from jsonb_array_elements(p_users) e
+    loop
+      nips := nips || item.nip;
+      if coalesce(item.nip, '') = '' or coalesce(item.name, '') = '' or coalesce(item.password, '') = ''
+         or coalesce(item.role, '') not in ('admin', 'member')
+         or (item.role = 'admin' and coalesce(item.admin_role, 'superadmin') not in ('superadmin', 'supervisor', 'auditor'))
+         or (item.department is not null and not exists (select 1 from departments d where d.name = item.department))
+         or (item.position is not null and not exists (select 1 from positions p where p.name = item.position)) then
+        results := results || 'invalid'::text;
+      elsif exists (select 1 from users u where u.nip = item.nip) then
+        results := results || 'duplicate'::text;
+      else
+        insert into users (nip, name, role, password_hash, must_change_password, department, position, admin_role)
+        values (
+          item.nip, item.name, item.role, crypt(item.password, gen_salt('bf')), true, item.department, item.position,
+          case when item.role = 'admin' then coalesce(item.admin_role, 'superadmin') end
+        );
+        results := results || 'created'::text;
+      end if;
+    end loop;
+
+    if p_all_or_nothing and results && array['invalid', 'duplicate'] then
+      raise exception 'import dibatalkan';
+    end if;
+  exception when raise_exception then
+    -- insert di blok ini sudah di-rollback; variabel hasil tetap ada
+    results := array(select case when r = 'created' then 'skipped' else r end from unnest(results) r);
+  end;
+
+  return query select t.n, t.r from unnest(nips, results) as t(n, r);
+end;
+$$;
+
+-- Absen pulang hanya oleh pemilik absen dan hanya sekali; setelahnya lewat koreksi admin (correct_attendance)
+create or replace function check_out_attendance(p_token uuid, p_id text, p_record jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+  r attendances := jsonb_populate_record(null::attendances, p_record);
+begin
+  select * into u from session_user_row(p_token);
+  if u.nip is null or not exists (select 1 from attendances a where a.id::text = p_id and a.user_id = u.nip) then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  -- Foto pulang opsional, tapi jika ada harus berada di folder unggahan milik user (024)
+  if r.check_out_photo_path is not null and r.check_out_photo_path not like u.nip || '/%.jpg' then
+    raise exception 'Foto absen tidak valid';
+  end if;
+  update attendances a
+     set check_out_time = r.check_out_time, check_out_photo_path = r.check_out_photo_path,
+         check_out_lat = r.check_out_lat, check_out_lng = r.check_out_lng,
+         early_leave_minutes = r.early_leave_minutes, work_minutes = r.work_minutes
+   where a.id::text = p_id and a.check_out_time is null;
+  if not found then
+    raise exception 'Sudah absen pulang';
+  end if;
+end;
+$$;
+
+-- Semua user yang login, anggota maupun admin
+create or replace function require_session(p_token uuid) returns users
+language plpgsql stable security definer set search_path = public as $$
+declare
+  u users;
+begin
+  select * into u from session_user_row(p_token);
+  if u.nip is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  return u;
+end;
+$$;
+
+-- Filter sama dengan query PostgREST sebelumnya (null = tanpa filter); urutan dan halaman tetap
+-- ditambahkan klien di atas hasil RPC
+create or replace function list_attendances(
+  p_token uuid, p_from date, p_to date, p_user_id text, p_department text, p_position text, p_search text
+)
+returns setof attendances
+language plpgsql stable security definer set search_path = public as $$
+declare
+  u users;
+begin
+  u := require_session(p_token);
+  return query select a.* from attendances a
+   where attendance_in_scope(u, a)
+     and (p_from is null or a.day >= p_from)
+     and (p_to is null or a.day <= p_to)
+     and (p_user_id is null or a.user_id = p_user_id)
+     and (p_department is null or a.department = p_department)
+     and (p_position is null or a.position ilike '%' || p_position || '%')
+     and (p_search is null or a.user_name ilike '%' || p_search || '%' or a.user_id ilike '%' || p_search || '%'
+          or a.description ilike '%' || p_search || '%');
+end;
+$$;
+
+create or replace function get_attendance(p_token uuid, p_id text)
+returns setof attendances
+language sql stable security definer set search_path = public as $$
+  select a.* from session_user_row(p_token) u
+    join attendances a on a.id::text = p_id
+   where u.nip is not null and attendance_in_scope(u, a);
+$$;
+
+-- Foto absen dan lampiran izin base64 lama (011, 026) yang belum dipindah ke storage
+create or replace function count_legacy_photos(p_token uuid) returns bigint
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return (select count(*) from attendances a where a.photo like 'data:%' or a.check_out_photo like 'data:%')
+       + (select count(*) from leave_requests l where l.attachment like 'data:%');
+end;
+$$;
+
+-- kind 'leave': kolom photo berisi lampiran izin
+create or replace function list_legacy_photos(p_token uuid, p_limit integer)
+returns table (kind text, id text, photo text, check_out_photo text)
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  return query
+  (select 'attendance'::text, a.id::text, a.photo, a.check_out_photo from attendances a
+    where a.photo like 'data:%' or a.check_out_photo like 'data:%' limit p_limit)
+  union all
+  (select 'leave'::text, l.id::text, l.attachment, null::text from leave_requests l
+    where l.attachment like 'data:%' limit p_limit);
+end;
+$$;
+
+-- Path kosong = kolom base64 tersebut tidak dipindah; path harus di folder unggahan admin (024)
+create or replace function save_migrated_photos(
+  p_token uuid, p_kind text, p_id text, p_photo_path text, p_photo_thumb_url text, p_check_out_photo_path text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_nip text := (select nip from session_user_row(p_token));
+begin
+  perform require_admin(p_token);
+  if exists (select 1 from unnest(array[p_photo_path, p_check_out_photo_path]) p where p not like v_nip || '/%.jpg') then
+    raise exception 'Foto tidak valid';
+  end if;
+  if p_kind = 'leave' then
+    update leave_requests l set attachment = null, attachment_path = p_photo_path
+     where l.id::text = p_id and p_photo_path is not null;
+  else
+    update attendances a
+       set photo = case when p_photo_path is null then a.photo end,
+           photo_path = coalesce(p_photo_path, a.photo_path),
+           photo_thumb_url = coalesce(p_photo_thumb_url, a.photo_thumb_url),
+           check_out_photo = case when p_check_out_photo_path is null then a.check_out_photo end,
+           check_out_photo_path = coalesce(p_check_out_photo_path, a.check_out_photo_path)
+     where a.id::text = p_id;
+  end if;
+end;
+$$;
+
+-- Kolom attachment (base64 lama) tidak ikut dikirim; lampiran dibaca dari storage lewat attachment_path
+create or replace function list_leave_requests(p_token uuid, p_nip text)
+returns table (
+  id uuid, user_id text, user_name text, type text, start_date date, end_date date, reason text, attachment_path text,
+  status text, reviewed_by text, review_note text, created_at timestamptz
+)
+language plpgsql stable security definer set search_path = public as $$
+declare
+  u users;
+begin
+  u := require_session(p_token);
+  return query select l.id, l.user_id, l.user_name, l.type, l.start_date, l.end_date, l.reason, l.attachment_path,
+         l.status, l.reviewed_by, l.review_note, l.created_at
+    from leave_requests l
+   where (p_nip is null or l.user_id = p_nip)
+     and (l.user_id = u.nip or u.admin_role in ('superadmin', 'auditor')
+          or (u.admin_role = 'supervisor' and exists (select 1 from users m where m.nip = l.user_id and m.department = u.department)))
+   order by l.created_at desc;
+end;
+$$;
+
+-- NIP dan nama diambil dari sesi; lampiran harus berada di folder unggahan milik user (024)
+create or replace function submit_leave_request(
+  p_token uuid, p_type text, p_start_date date, p_end_date date, p_reason text, p_attachment_path text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+begin
+  u := require_session(p_token);
+  if p_attachment_path is not null and p_attachment_path not like u.nip || '/%.jpg' then
+    raise exception 'Lampiran tidak valid';
+  end if;
+  insert into leave_requests (user_id, user_name, type, start_date, end_date, reason, attachment_path)
+  values (u.nip, u.name, p_type, p_start_date, p_end_date, p_reason, p_attachment_path);
+end;
+$$;
+
+create or replace function review_leave_request(p_token uuid, p_id uuid, p_status text, p_note text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  if p_status not in ('approved', 'rejected') then
+    raise exception 'Status tidak valid';
+  end if;
+  update leave_requests
+     set status = p_status, reviewed_by = (select name from session_user_row(p_token)),
+         review_note = nullif(trim(p_note), ''), reviewed_at = now()
+   where id = p_id and status = 'pending';
+end;
+$$;
+
+create or replace function list_work_schedules(p_token uuid) returns setof work_schedules
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_session(p_token);
+  return query select * from work_schedules s order by s.name;
+end;
+$$;
+
+create or replace function add_work_schedule(
+  p_token uuid, p_name text, p_type text, p_shifts jsonb, p_work_days integer[], p_grace_minutes integer
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into work_schedules (name, type, shifts, work_days, grace_minutes)
+  values (p_name, p_type, p_shifts, p_work_days, p_grace_minutes);
+end;
+$$;
+
+create or replace function delete_work_schedule(p_token uuid, p_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  delete from work_schedules where id = p_id;
+end;
+$$;
+
+create or replace function list_schedule_assignments(p_token uuid) returns setof schedule_assignments
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_session(p_token);
+  return query select * from schedule_assignments;
+end;
+$$;
+
+-- p_schedule_id null = penugasan dihapus; hapus dan tambah dalam satu transaksi
+create or replace function assign_schedule(p_token uuid, p_target_type text, p_target text, p_schedule_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  delete from schedule_assignments where target_type = p_target_type and target = p_target;
+  if p_schedule_id is not null then
+    insert into schedule_assignments (schedule_id, target_type, target) values (p_schedule_id, p_target_type, p_target);
+  end if;
+end;
+$$;
+
+create or replace function list_office_locations(p_token uuid) returns setof office_locations
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_session(p_token);
+  return query select * from office_locations l order by l.name;
+end;
+$$;
+
+create or replace function add_office_location(
+  p_token uuid, p_name text, p_lat double precision, p_lng double precision, p_radius_m integer, p_policy text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  insert into office_locations (name, lat, lng, radius_m, policy) values (p_name, p_lat, p_lng, p_radius_m, p_policy);
+end;
+$$;
+
+create or replace function delete_office_location(p_token uuid, p_id uuid) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  delete from office_locations where id = p_id;
+end;
+$$;
+
+-- kind: 'departments' | 'positions', sama dengan nama tabel dan kunci OrgCatalog di klien
+create or replace function list_catalog(p_token uuid) returns table (kind text, name text)
+language plpgsql stable security definer set search_path = public as $$
+begin
+  perform require_session(p_token);
+  return query
+  select 'departments'::text, d.name from departments d
+  union all
+  select 'positions'::text, p.name from positions p
+  order by 2;
+end;
+$$;
+
+create or replace function add_catalog_entry(p_token uuid, p_kind text, p_name text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  if p_kind = 'departments' then
+    insert into departments (name) values (trim(p_name));
+  elsif p_kind = 'positions' then
+    insert into positions (name) values (trim(p_name));
+  else
+    raise exception 'Katalog tidak dikenal';
+  end if;
+end;
+$$;
+
+create or replace function delete_catalog_entry(p_token uuid, p_kind text, p_name text) returns void
+language plpgsql security definer set search_path = public as $$
+begin
+  perform require_admin(p_token);
+  if p_kind = 'departments' then
+    delete from departments where name = p_name;
+  elsif p_kind = 'positions' then
+    delete from positions where name = p_name;
+  else
+    raise exception 'Katalog tidak dikenal';
+  end if;
+end;
+$$;
+
+-- Realtime (016): attendances tidak lagi bisa dibaca anon, jadi perubahan dikirim lewat tabel penanda yang
+-- hanya berisi ID. Dashboard mengambil datanya lewat get_attendance sehingga tetap dibatasi token.
+create table if not exists attendance_changes (
+  attendance_id text primary key,
+  changed_at timestamptz not null default now()
+);
+alter table attendance_changes enable row level security;
+revoke all on attendance_changes from anon, authenticated;
+grant select on attendance_changes to anon;
+drop policy if exists "attendance changes read" on attendance_changes;
+create policy "attendance changes read" on attendance_changes for select to anon using (true);
+
+create or replace function attendances_signal_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  insert into attendance_changes (attendance_id, changed_at) values (new.id::text, now())
+  on conflict (attendance_id) do update set changed_at = excluded.changed_at;
+  return new;
+end;
+$$;
+
+drop trigger if exists attendances_signal_change on attendances;
+create trigger attendances_signal_change after insert or update on attendances
+  for each row execute function attendances_signal_change();
+
+do $$
+begin
+  if exists (
+    select 1 from pg_publication_tables
+     where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'attendances'
+  ) then
+    alter publication supabase_realtime drop table attendances;
+  end if;
+  if not exists (
+    select 1 from pg_publication_tables
+     where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'attendance_changes'
+  ) then
+    alter publication supabase_realtime add table attendance_changes;
+  end if;
+end;
+$$;
+
+-- Absen masuk lewat submit_attendance (025), absen pulang lewat check_out_attendance
+alter table attendances enable row level security;
+revoke all on attendances from anon, authenticated;
+alter table leave_requests enable row level security;
+revoke all on leave_requests from anon, authenticated;
+alter table work_schedules enable row level security;
+revoke all on work_schedules from anon, authenticated;
+alter table schedule_assignments enable row level security;
+revoke all on schedule_assignments from anon, authenticated;
+alter table office_locations enable row level security;
+revoke all on office_locations from anon, authenticated;
+alter table departments enable row level security;
+revoke all on departments from anon, authenticated;
+alter table positions enable row level security;
+revoke all on positions from anon, authenticated;
@@ -0,0 +1,78 @@
+-- Geofence absen masuk dihitung di server. Sebelumnya submit_attendance (025) menyalin site_id, site_name,
+-- distance_m dan inside_geofence dari klien, dan kebijakan 'reject' hanya dicek oleh sendAttendance di React.
+
+-- Lokasi kantor terdekat dari sebuah titik (haversine, meter); kosong jika belum ada lokasi yang diatur
+create or replace function nearest_office_location(p_lat double precision, p_lng double precision)
+returns table (site_id uuid, site_name text, distance_m integer, inside boolean, policy text)
+language sql stable security definer set search_path = public as $$
+  select o.id, o.name, round(d.m)::integer, d.m <= o.radius_m, o.policy
+    from office_locations o
+   cross join lateral (
+     select 2 * 6371000 * asin(sqrt(
+       power(sin(radians(o.lat - p_lat) / 2), 2)
+       + cos(radians(p_lat)) * cos(radians(o.lat)) * power(sin(radians(o.lng - p_lng) / 2), 2)
+     )) as m
+   ) d
+   order by d.m
+   limit 1;
+$$;
+
+revoke execute on function nearest_office_location(double precision, double precision) from public, anon, authenticated;
+
+-- Sama dengan 025, tetapi kolom geofence dari p_record diabaikan. Titik di luar lokasi berkebijakan 'reject' ditolak.
+create or replace function submit_attendance(p_token uuid, p_record jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+  r attendances := jsonb_populate_record(null::attendances, p_record);
+  s attendance_sessions;
+  g record;
+  v_pass uuid;
+begin
+  select * into u from session_user_row(p_token);
+  if u.nip is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  if r.client_id is not null and exists (select 1 from attendances a where a.client_id = r.client_id) then
+    return;
+  end if;
+  if r.photo_path is null or r.photo_path not like u.nip || '/%.jpg'
+     or coalesce(r.photo_thumb_url, '') not like '%/' || replace(r.photo_path, '.jpg', '_thumb.jpg') then
+    raise exception 'Foto absen tidak valid';
+  end if;
+  if r.location_lat is null or r.location_lng is null then
+    raise exception 'Lokasi absen tidak valid';
+  end if;
+
+  select * into g from nearest_office_location(r.location_lat, r.location_lng);
+  if g.policy = 'reject' and not g.inside then
+    raise exception 'Di luar area % (% m). Absen ditolak.', g.site_name, g.distance_m;
+  end if;
+
+  select * into s from attendance_sessions where id = r.session_id;
+  if s.single_use and exists (select 1 from attendances a where a.session_id = s.id and a.user_id = u.nip) then
+    raise exception 'Token sesi sudah dipakai';
+  end if;
+
+  select p.id into v_pass from attendance_passes p
+   where p.nip = u.nip and p.used_at is null and p.redeemed_at > now() - interval '1 day'
+     and p.session_id is not distinct from r.session_id
+   order by p.redeemed_at
+   limit 1
+   for update;
+  if v_pass is null then
+    raise exception 'Token absen belum divalidasi' using errcode = '42501';
+  end if;
+  update attendance_passes set used_at = now() where id = v_pass;
+
+  insert into attendances (
+    user_id, user_name, "date", "time", position, photo_path, photo_thumb_url, description, location_lat, location_lng,
+    site_id, site_name, distance_m, inside_geofence, session_id, schedule_status, late_minutes, shift_name, shift_end,
+    client_id, captured_at
+  ) values (
+    u.nip, u.name, r."date", r."time", r.position, r.photo_path, r.photo_thumb_url, r.description, r.location_lat, r.location_lng,
+    g.site_id, g.site_name, g.distance_m, g.inside, r.session_id, r.schedule_status, r.late_minutes, r.shift_name, r.shift_end,
+    r.client_id, r.captured_at
+  );
+end;
+$$;
@@ -0,0 +1,126 @@
+-- Tanggal, jam dan status jadwal absen masuk dihitung di server. Sebelumnya submit_attendance menyimpan date, time,
+-- schedule_status, late_minutes, shift_name dan shift_end apa adanya dari klien.
+
+-- Zona waktu kantor untuk kolom date/time ("19/10/2026", "07.45.00") dan hari kerja jadwal
+create or replace function attendance_time_zone() returns text
+language sql immutable as $$ select 'Asia/Jakarta' $$;
+
+-- Sama dengan classifyCheckIn di klien: jadwal pribadi diutamakan, lalu jadwal default. Absen masuk milik shift
+-- yang jam mulainya paling dekat, paling awal 2 jam sebelum mulai (SHIFT_EARLY_WINDOW_MINUTES) dan
+-- paling lambat saat shift selesai. Tanpa jadwal hasilnya kosong.
+create or replace function classify_check_in(p_nip text, p_at timestamp)
+returns table (status text, late_minutes integer, shift_name text, shift_end text)
+language plpgsql stable security definer set search_path = public as $$
+declare
+  w work_schedules;
+  t integer := extract(hour from p_at)::integer * 60 + extract(minute from p_at)::integer;
+  m record;
+begin
+  select s.* into w
+    from schedule_assignments a
+    join work_schedules s on s.id = a.schedule_id
+   where (a.target_type = 'user' and a.target = p_nip) or a.target_type = 'all'
+   order by a.target_type = 'user' desc
+   limit 1;
+  if w.id is null then
+    return;
+  end if;
+  if not extract(dow from p_at)::integer = any (w.work_days) then
+    return query select 'outside'::text, 0, null::text, null::text;
+    return;
+  end if;
+
+  select sh->>'name' as name, sh->>'end' as shift_end, d.diff into m
+    from jsonb_array_elements(w.shifts) with ordinality as x(sh, n)
+   cross join lateral (
+     select split_part(sh->>'start', ':', 1)::integer * 60 + split_part(sh->>'start', ':', 2)::integer as st,
+            split_part(sh->>'end', ':', 1)::integer * 60 + split_part(sh->>'end', ':', 2)::integer as en
+   ) h
+   cross join lateral (
+     -- selisih mulai shift -> jam absen, dibungkus ke -12 s/d +12 jam agar shift malam tetap benar
+     select ((t - h.st + 1440 + 720) % 1440) - 720 as diff,
+            coalesce(nullif((h.en - h.st + 1440) % 1440, 0), 1440) as len
+   ) d
+   where d.diff between -120 and d.len
+   order by abs(d.diff), x.n
+   limit 1;
+  if m is null then
+    return query select 'outside'::text, 0, null::text, null::text;
+    return;
+  end if;
+  return query select
+    case when m.diff - w.grace_minutes > 0 then 'late' else 'on_time' end,
+    greatest(0, m.diff - w.grace_minutes),
+    m.name, m.shift_end;
+end;
+$$;
+
+revoke execute on function classify_check_in(text, timestamp) from public, anon, authenticated;
+revoke execute on function attendance_time_zone() from public, anon, authenticated;
+
+-- Sama dengan 028. Jam absen = captured_at (saat selfie diambil, untuk antrean offline), tetapi tidak sebelum
+-- token/QR yang dipakai lolos dan tidak di masa depan; tanpa captured_at dipakai jam server.
+create or replace function submit_attendance(p_token uuid, p_record jsonb) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+  r attendances := jsonb_populate_record(null::attendances, p_record);
+  s attendance_sessions;
+  g record;
+  c record;
+  v_pass attendance_passes;
+  v_at timestamptz;
+  v_local timestamp;
+begin
+  select * into u from session_user_row(p_token);
+  if u.nip is null then
+    raise exception 'Akses ditolak' using errcode = '42501';
+  end if;
+  if r.client_id is not null and exists (select 1 from attendances a where a.client_id = r.client_id) then
+    return;
+  end if;
+  if r.photo_path is null or r.photo_path not like u.nip || '/%.jpg'
+     or coalesce(r.photo_thumb_url, '') not like '%/' || replace(r.photo_path, '.jpg', '_thumb.jpg') then
+    raise exception 'Foto absen tidak valid';
+  end if;
+  if r.location_lat is null or r.location_lng is null then
+    raise exception 'Lokasi absen tidak valid';
+  end if;
+
+  select * into g from nearest_office_location(r.location_lat, r.location_lng);
+  if g.policy = 'reject' and not g.inside then
+    raise exception 'Di luar area % (% m). Absen ditolak.', g.site_name, g.distance_m;
+  end if;
+
+  select * into s from attendance_sessions where id = r.session_id;
+  if s.single_use and exists (select 1 from attendances a where a.session_id = s.id and a.user_id = u.nip) then
+    raise exception 'Token sesi sudah dipakai';
+  end if;
+
+  select p.* into v_pass from attendance_passes p
+   where p.nip = u.nip and p.used_at is null and p.redeemed_at > now() - interval '1 day'
+     and p.session_id is not distinct from r.session_id
+   order by p.redeemed_at
+   limit 1
+   for update;
+  if v_pass.id is null then
+    raise exception 'Token absen belum divalidasi' using errcode = '42501';
+  end if;
+  update attendance_passes set used_at = now() where id = v_pass.id;
+
+  v_at := least(greatest(coalesce(r.captured_at, now()), v_pass.redeemed_at), now());
+  v_local := v_at at time zone attendance_time_zone();
+  select * into c from classify_check_in(u.nip, v_local);
+
+  insert into attendances (
+    user_id, user_name, "date", "time", position, photo_path, photo_thumb_url, description, location_lat, location_lng,
+    site_id, site_name, distance_m, inside_geofence, session_id, schedule_status, late_minutes, shift_name, shift_end,
+    client_id, captured_at
+  ) values (
+    u.nip, u.name, to_char(v_local, 'FMDD/FMMM/YYYY'), to_char(v_local, 'HH24.MI.SS'), r.position, r.photo_path,
+    r.photo_thumb_url, r.description, r.location_lat, r.location_lng,
+    g.site_id, g.site_name, g.distance_m, g.inside, r.session_id, c.status, c.late_minutes, c.shift_name, c.shift_end,
+    r.client_id, case when r.captured_at is not null then v_at end
+  );
+end;
+$$;
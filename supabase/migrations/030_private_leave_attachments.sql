@@ -0,0 +1,132 @@
+-- Lampiran izin (surat dokter, dsb.) dipindah ke bucket privat. Sebelumnya lampiran disimpan di bucket publik
+-- attendance-photos (026) dan ditampilkan lewat URL publik, jadi siapa pun yang tahu path-nya bisa membukanya.
+-- Lampiran kini hanya bisa dibuka lewat URL bertanda tangan berumur pendek dari list_leave_requests.
+--
+-- URL ditandatangani dengan JWT secret proyek (Settings > API), sama seperti createSignedUrl di Storage.
+-- Isi sekali setelah migrasi: insert into storage_signing_secret (secret) values ('<JWT secret>');
+-- Selama belum diisi, lampiran tidak bisa dibuka.
+--
+-- Lampiran yang diunggah sebelum migrasi ini tetap di attendance-photos (attachment_bucket) dan masih bisa
+-- dibuka lewat URL publiknya; pindahkan file-nya ke leave-attachments lalu ubah attachment_bucket-nya.
+
+insert into storage.buckets (id, name, public)
+values ('leave-attachments', 'leave-attachments', false)
+on conflict (id) do update set public = false;
+
+-- Unggah hanya ke path yang diterbitkan server (024); tanpa policy select, anon tidak bisa membaca atau
+-- mendaftar isi bucket
+drop policy if exists "leave attachments insert" on storage.objects;
+create policy "leave attachments insert" on storage.objects
+  for insert to anon with check (bucket_id = 'leave-attachments' and photo_upload_allowed(name));
+
+alter table leave_requests add column if not exists attachment_bucket text;
+update leave_requests set attachment_bucket = 'attendance-photos'
+ where attachment_path is not null and attachment_bucket is null;
+
+create table if not exists storage_signing_secret (
+  id integer primary key default 1 check (id = 1),
+  secret text not null
+);
+alter table storage_signing_secret enable row level security;
+revoke all on storage_signing_secret from anon, authenticated;
+
+-- Path relatif terhadap <SUPABASE_URL>/storage/v1; URL bertanda tangan berlaku 5 menit
+create or replace function leave_attachment_url(p_bucket text, p_path text) returns text
+language plpgsql stable security definer set search_path = public as $$
+declare
+  v_secret text := (select secret from storage_signing_secret);
+  v_input text;
+  b64 text := E'+/=\n';
+begin
+  if p_path is null then
+    return null;
+  end if;
+  if p_bucket is distinct from 'leave-attachments' then
+    return '/object/public/' || p_bucket || '/' || p_path;
+  end if;
+  if v_secret is null then
+    return null;
+  end if;
+  v_input := translate(encode(convert_to('{"alg":"HS256","typ":"JWT"}', 'utf8'), 'base64'), b64, '-_')
+    || '.' || translate(encode(convert_to(json_build_object(
+         'url', p_bucket || '/' || p_path,
+         'iat', extract(epoch from now())::bigint,
+         'exp', extract(epoch from now())::bigint + 300
+       )::text, 'utf8'), 'base64'), b64, '-_');
+  return '/object/sign/' || p_bucket || '/' || p_path || '?token=' || v_input || '.'
+    || translate(encode(hmac(v_input, v_secret, 'sha256'), 'base64'), b64, '-_');
+end;
+$$;
+
+revoke execute on function leave_attachment_url(text, text) from public, anon, authenticated;
+
+-- Sama dengan 027, tetapi path lampiran diganti URL bertanda tangan; baris yang tidak boleh dilihat pemanggil
+-- tidak pernah ikut, jadi URL-nya pun tidak
+drop function if exists list_leave_requests(uuid, text);
+create or replace function list_leave_requests(p_token uuid, p_nip text)
+returns table (
+  id uuid, user_id text, user_name text, type text, start_date date, end_date date, reason text, attachment_url text,
+  status text, reviewed_by text, review_note text, created_at timestamptz
+)
+language plpgsql stable security definer set search_path = public as $$
+declare
+  u users;
+begin
+  u := require_session(p_token);
+  return query select l.id, l.user_id, l.user_name, l.type, l.start_date, l.end_date, l.reason,
+         leave_attachment_url(l.attachment_bucket, l.attachment_path),
+         l.status, l.reviewed_by, l.review_note, l.created_at
+    from leave_requests l
+   where (p_nip is null or l.user_id = p_nip)
+     and (l.user_id = u.nip or u.admin_role in ('superadmin', 'auditor')
+          or (u.admin_role = 'supervisor' and exists (select 1 from users m where m.nip = l.user_id and m.department = u.department)))
+   order by l.created_at desc;
+end;
+$$;
+
+-- Sama dengan 027; lampiran baru selalu di bucket privat
+create or replace function submit_leave_request(
+  p_token uuid, p_type text, p_start_date date, p_end_date date, p_reason text, p_attachment_path text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  u users;
+begin
+  u := require_session(p_token);
+  if p_attachment_path is not null and p_attachment_path not like u.nip || '/%.jpg' then
+    raise exception 'Lampiran tidak valid';
+  end if;
+  insert into leave_requests (user_id, user_name, type, start_date, end_date, reason, attachment_path, attachment_bucket)
+  values (u.nip, u.name, p_type, p_start_date, p_end_date, p_reason, p_attachment_path,
+          case when p_attachment_path is not null then 'leave-attachments' end);
+end;
+$$;
+
+-- Sama dengan 027; lampiran base64 lama yang dimigrasi admin juga masuk ke bucket privat
+create or replace function save_migrated_photos(
+  p_token uuid, p_kind text, p_id text, p_photo_path text, p_photo_thumb_url text, p_check_out_photo_path text
+)
+returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  v_nip text := (select nip from session_user_row(p_token));
+begin
+  perform require_admin(p_token);
+  if exists (select 1 from unnest(array[p_photo_path, p_check_out_photo_path]) p where p not like v_nip || '/%.jpg') then
+    raise exception 'Foto tidak valid';
+  end if;
+  if p_kind = 'leave' then
+    update leave_requests l set attachment = null, attachment_path = p_photo_path, attachment_bucket = 'leave-attachments'
+     where l.id::text = p_id and p_photo_path is not null;
+  else
+    update attendances a
+       set photo = case when p_photo_path is null then a.photo end,
+           photo_path = coalesce(p_photo_path, a.photo_path),
+           photo_thumb_url = coalesce(p_photo_thumb_url, a.photo_thumb_url),
+           check_out_photo = case when p_check_out_photo_path is null then a.check_out_photo end,
+           check_out_photo_path = coalesce(p_check_out_photo_path, a.check_out_photo_path)
+     where a.id::text = p_id;
+  end if;
+end;
+$$;